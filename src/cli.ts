@@ -0,0 +1,96 @@
+#!/usr/bin/env node
+// Command line sync of Langfuse prompts with a local prompts directory
+
+import { parseArgs } from 'node:util';
+import { resolve } from 'node:path';
+import { ProjectRegistry } from './lib/projects.js';
+import { ConfigManager, findConfigFile } from './lib/config.js';
+import { PullResult, PushResult, pullPrompts, pushPrompts } from './lib/prompt-sync.js';
+
+const USAGE = `Usage: langfuse-prompts <pull|push> [options]
+
+Options:
+  --dir <path>         Prompts directory (default: prompts)
+  --project <name>     Project profile (default: the default project)
+  --config <path>      Config file (default: searched as for the server)
+  --name <name>        Only this prompt, may be repeated
+  --label <label>      pull: label of the version to pull (default: latest)
+  --force              pull: overwrite files with local changes
+  --message <text>     push: commit message of the created versions
+  --set-label <label>  push: label to set on the created versions, may be repeated;
+                       labels in the files are never pushed
+  --dry-run            Print the plan without changing anything
+  --help               Show this help`;
+
+function printResults(results: (PullResult | PushResult)[]): void {
+  for (const result of results) {
+    const version = result.version !== undefined ? ` v${result.version}` : '';
+    const reason = result.reason ? `: ${result.reason}` : '';
+    console.log(`${result.action.padEnd(9)} ${result.path ?? result.name}${version}${reason}`);
+
+    const difference = 'labelDifference' in result ? result.labelDifference : undefined;
+    if (difference) {
+      const changes = [...difference.added.map(l => `+${l}`), ...difference.removed.map(l => `-${l}`)];
+      console.log(`          labels not pushed: ${changes.join(' ')}`);
+    }
+  }
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    options: {
+      dir: { type: 'string', default: 'prompts' },
+      project: { type: 'string' },
+      config: { type: 'string' },
+      name: { type: 'string', multiple: true },
+      label: { type: 'string', default: 'latest' },
+      force: { type: 'boolean', default: false },
+      message: { type: 'string' },
+      'set-label': { type: 'string', multiple: true },
+      'dry-run': { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+    allowPositionals: true,
+  });
+
+  const command = positionals[0];
+  if (values.help || (command !== 'pull' && command !== 'push')) {
+    console.log(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const config = new ConfigManager(findConfigFile(values.config)).get();
+  const projects = new ProjectRegistry(config.projects, config.defaultProject, config.cassette);
+  const { client, validateConfig } = projects.resolve(values.project);
+  const directory = resolve(values.dir);
+
+  const results = command === 'pull'
+    ? await pullPrompts(client, directory, {
+        names: values.name,
+        label: values.label,
+        force: values.force,
+        dryRun: values['dry-run'],
+      })
+    : await pushPrompts(client, directory, {
+        names: values.name,
+        commitMessage: values.message,
+        labels: values['set-label'],
+        dryRun: values['dry-run'],
+        validateConfig,
+      });
+
+  printResults(results);
+  if (values['dry-run']) {
+    console.log('Dry run, nothing was changed');
+  }
+
+  // Conflicts and errors fail the command, so CI can gate on it
+  return results.some(result => result.action === 'conflict' || result.action === 'error') ? 1 : 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch((error: any) => {
+    console.error('Error:', error.message);
+    process.exit(1);
+  });
@@ -1,8 +1,9 @@
 #!/usr/bin/env node
 // Main entry point for Langfuse MCP Server with full CRUD operations
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { parseArgs } from 'node:util';
 import { 
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
@@ -10,195 +11,440 @@ import {
   GetPromptRequest,
   ListPromptsResult,
   GetPromptResult,
+  TextContent,
+  McpError,
+  ErrorCode,
 } from '@modelcontextprotocol/sdk/types.js';
-import { LangfuseAPIClient } from './lib/langfuse-client.js';
-import { LangfuseConfig } from './types/index.js';
+import { ProjectRegistry } from './lib/projects.js';
+import { CacheManager } from './lib/cache.js';
+import { FileCacheBackend } from './lib/file-cache-backend.js';
+import { toMcpMessages } from './lib/chat-content.js';
+import { PromptFallback } from './lib/prompt-fallback.js';
+import { LabelJournal } from './lib/label-journal.js';
+import { ModelPricing } from './lib/model-pricing.js';
+import { PromptLinter } from './lib/prompt-lint.js';
+import { FileSandbox } from './lib/file-sandbox.js';
+import { ConfigManager, ServerConfig, findConfigFile } from './lib/config.js';
+import { startHttpServer } from './lib/http-server.js';
+import { TransportType, HttpTransportOptions } from './types/index.js';
 
 // Import tool handlers
 import { createListPromptsHandler, listPromptsSchema } from './tools/list-prompts.js';
 import { createGetPromptHandler, getPromptSchema } from './tools/get-prompt.js';
+import { createRenderPromptHandler, renderPromptSchema } from './tools/render-prompt.js';
+import { createEstimatePromptCostHandler, estimatePromptCostSchema } from './tools/estimate-prompt-cost.js';
+import { createLintPromptHandler, lintPromptSchema } from './tools/lint-prompt.js';
+import { createListPromptVersionsHandler, listPromptVersionsSchema } from './tools/list-prompt-versions.js';
+import { createDiffPromptVersionsHandler, diffPromptVersionsSchema } from './tools/diff-prompt-versions.js';
+import { createPromptDependencyGraphHandler, promptDependencyGraphSchema } from './tools/prompt-dependency-graph.js';
+import { createGetServerStatusHandler, getServerStatusSchema } from './tools/get-server-status.js';
 import { createCreatePromptHandler, createPromptSchema } from './tools/create-prompt.js';
 import { createUpdatePromptLabelsHandler, updatePromptLabelsSchema } from './tools/update-prompt-labels.js';
+import { createPromotePromptHandler, promotePromptSchema } from './tools/promote-prompt.js';
+import { createRollbackPromptHandler, rollbackPromptSchema } from './tools/rollback-prompt.js';
 import { createDeletePromptHandler, deletePromptSchema } from './tools/delete-prompt.js';
 import { createBatchUpdateLabelsHandler, batchUpdateLabelsSchema } from './tools/batch-update-labels.js';
 import { createExportPromptsHandler, exportPromptsSchema } from './tools/export-prompts.js';
 import { createImportPromptsHandler, importPromptsSchema } from './tools/import-prompts.js';
+import { createPullPromptsHandler, pullPromptsSchema } from './tools/pull-prompts.js';
+import { createPushPromptsHandler, pushPromptsSchema } from './tools/push-prompts.js';
 
-// Get configuration from environment
-function getConfig(): LangfuseConfig {
-  const publicKey = process.env.LANGFUSE_PUBLIC_KEY;
-  const secretKey = process.env.LANGFUSE_SECRET_KEY;
-  const baseUrl = process.env.LANGFUSE_BASEURL || 'https://cloud.langfuse.com';
+// Tools that change prompts in Langfuse, disabled by the readOnly policy
+const MUTATING_TOOLS = new Set([
+  'create-prompt',
+  'update-prompt-labels',
+  'promote-prompt',
+  'rollback-prompt',
+  'delete-prompt',
+  'batch-update-labels',
+  'import-prompts',
+  'push-prompts',
+]);
 
-  if (!publicKey || !secretKey) {
-    throw new Error(
-      'Missing required environment variables: LANGFUSE_PUBLIC_KEY and LANGFUSE_SECRET_KEY'
-    );
+// Get CLI options, falling back to environment
+function getCliOptions(): { configPath?: string; transport: TransportType; http: HttpTransportOptions } {
+  const { values } = parseArgs({
+    options: {
+      config: { type: 'string' },
+      transport: { type: 'string' },
+      port: { type: 'string' },
+      host: { type: 'string' },
+      path: { type: 'string' },
+    },
+    strict: false,
+  });
+
+  const transport = (values.transport || process.env.MCP_TRANSPORT || 'stdio') as string;
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Invalid transport '${transport}': expected 'stdio' or 'http'`);
+  }
+
+  const port = Number(values.port || process.env.MCP_HTTP_PORT || '3000');
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port '${values.port || process.env.MCP_HTTP_PORT}'`);
+  }
+
+  const path = (values.path || process.env.MCP_HTTP_PATH || '/mcp') as string;
+
+  const sessionTimeout = Number(process.env.MCP_HTTP_SESSION_TIMEOUT || '1800');
+  if (!Number.isFinite(sessionTimeout) || sessionTimeout < 0) {
+    throw new Error(`Invalid session timeout '${process.env.MCP_HTTP_SESSION_TIMEOUT}'`);
   }
 
   return {
-    publicKey,
-    secretKey,
-    baseUrl,
-    requestTimeout: parseInt(process.env.LANGFUSE_REQUEST_TIMEOUT || '30000'),
-    maxRetries: parseInt(process.env.LANGFUSE_MAX_RETRIES || '3'),
+    configPath: values.config as string | undefined,
+    transport,
+    http: {
+      port,
+      host: (values.host || process.env.MCP_HTTP_HOST || '127.0.0.1') as string,
+      path: path.startsWith('/') ? path : `/${path}`,
+      ssePath: '/sse',
+      messagesPath: '/messages',
+      sessionIdleTimeoutMs: sessionTimeout * 1000,
+    },
   };
 }
 
-async function main() {
-  try {
-    // Initialize configuration
-    const config = getConfig();
-    
-    // Create Langfuse API client
-    const langfuseClient = new LangfuseAPIClient(config);
-
-    // Create MCP server with both prompts and tools capabilities
-    const server = new McpServer(
-      {
-        name: 'langfuse-prompt-management',
-        version: '2.0.0',
+// Check whether a tool is enabled by the tools and policies configuration
+function isToolEnabled(name: string, config: ServerConfig): boolean {
+  if (config.tools.enabled && !config.tools.enabled.includes(name)) {
+    return false;
+  }
+  if (config.tools.disabled.includes(name)) {
+    return false;
+  }
+  return !(config.policies.readOnly && MUTATING_TOOLS.has(name));
+}
+
+// Apply configuration that can change at runtime to shared state
+function applyRuntimeConfig(config: ServerConfig): void {
+  const cacheManager = CacheManager.getInstance();
+  cacheManager.configureCache('prompts', {
+    ttl: config.cache.promptTtl,
+    staleTtl: config.cache.staleWhileRevalidate ? config.cache.staleTtl : 0,
+  });
+  cacheManager.configureCache('prompts-list', { ttl: config.cache.listTtl });
+}
+
+// Create an MCP server with all prompts and tool handlers registered
+async function createServer(
+  projects: ProjectRegistry,
+  configManager: ConfigManager,
+  fallback: PromptFallback,
+  journal: LabelJournal,
+  pricing: ModelPricing,
+  linter: PromptLinter,
+  sandbox: FileSandbox
+): Promise<McpServer> {
+  // Create MCP server with both prompts and tools capabilities
+  const server = new McpServer(
+    {
+      name: 'langfuse-prompt-management',
+      version: '2.0.0',
+    },
+    {
+      capabilities: {
+        prompts: {}, // For compatibility with MCP prompts spec
+        tools: {},   // For CRUD operations
       },
-      {
-        capabilities: {
-          prompts: {}, // For compatibility with MCP prompts spec
-          tools: {},   // For CRUD operations
-        },
-      }
-    );
-
-    // Create tool handlers
-    const listPromptsHandler = await createListPromptsHandler(langfuseClient);
-    const getPromptHandler = await createGetPromptHandler(langfuseClient);
-    const createPromptHandler = await createCreatePromptHandler(langfuseClient);
-    const updatePromptLabelsHandler = await createUpdatePromptLabelsHandler(langfuseClient);
-    const deletePromptHandler = await createDeletePromptHandler(langfuseClient);
-    const batchUpdateLabelsHandler = await createBatchUpdateLabelsHandler(langfuseClient);
-    const exportPromptsHandler = await createExportPromptsHandler(langfuseClient);
-    const importPromptsHandler = await createImportPromptsHandler(langfuseClient);
-
-    // Register prompts capability handlers for backward compatibility
-    server.server.setRequestHandler(
-      ListPromptsRequestSchema,
-      async (request: ListPromptsRequest): Promise<ListPromptsResult> => {
-        const result = await listPromptsHandler({
-          page: request.params?.cursor ? parseInt(request.params.cursor) : undefined,
-        });
-        
-        // Parse the result and convert to prompts format
-        const data = JSON.parse(result.content[0].text as string);
-        return {
-          prompts: data.prompts.map((p: any) => ({
-            name: p.name,
-            arguments: p.variables?.map((v: string) => ({
-              name: v,
-              required: false,
-            })) || [],
-          })),
-          nextCursor: data.pagination?.hasNextPage ? 
-            (data.pagination.page + 1).toString() : undefined,
-        };
+    }
+  );
+
+  // Create tool handlers
+  const listPromptsHandler = await createListPromptsHandler(projects);
+  const getPromptHandler = await createGetPromptHandler(projects, fallback);
+  const renderPromptHandler = await createRenderPromptHandler(projects);
+  const estimatePromptCostHandler = await createEstimatePromptCostHandler(projects, pricing);
+  const lintPromptHandler = await createLintPromptHandler(projects, linter);
+  const listPromptVersionsHandler = await createListPromptVersionsHandler(projects);
+  const diffPromptVersionsHandler = await createDiffPromptVersionsHandler(projects);
+  const promptDependencyGraphHandler = await createPromptDependencyGraphHandler(projects);
+  const getServerStatusHandler = await createGetServerStatusHandler(projects);
+  const createPromptHandler = await createCreatePromptHandler(projects, linter);
+  const updatePromptLabelsHandler = await createUpdatePromptLabelsHandler(projects);
+  const promotePromptHandler = await createPromotePromptHandler(projects, journal);
+  const rollbackPromptHandler = await createRollbackPromptHandler(projects, journal);
+  const deletePromptHandler = await createDeletePromptHandler(projects);
+  const batchUpdateLabelsHandler = await createBatchUpdateLabelsHandler(projects);
+  const exportPromptsHandler = await createExportPromptsHandler(projects, sandbox);
+  const importPromptsHandler = await createImportPromptsHandler(projects, linter, sandbox);
+  const pullPromptsHandler = await createPullPromptsHandler(projects, sandbox);
+  const pushPromptsHandler = await createPushPromptsHandler(projects, sandbox);
+
+  // Register prompts capability handlers for backward compatibility
+  server.server.setRequestHandler(
+    ListPromptsRequestSchema,
+    async (request: ListPromptsRequest): Promise<ListPromptsResult> => {
+      const result = await listPromptsHandler({
+        page: request.params?.cursor ? parseInt(request.params.cursor) : undefined,
+      });
+      
+      // Parse the result and convert to prompts format
+      const data = JSON.parse((result.content[0] as TextContent).text);
+      return {
+        prompts: data.prompts.map((p: any) => ({
+          name: p.name,
+          arguments: p.variables?.map((v: string) => ({
+            name: v,
+            required: false,
+          })) || [],
+        })),
+        nextCursor: data.pagination?.hasNextPage ? 
+          (data.pagination.page + 1).toString() : undefined,
+      };
+    }
+  );
+
+  server.server.setRequestHandler(
+    GetPromptRequestSchema,
+    async (request: GetPromptRequest): Promise<GetPromptResult> => {
+      const result = await getPromptHandler({
+        name: request.params.name,
+        arguments: request.params.arguments,
+        strict: false,
+        escape: 'none',
+        resolveReferences: true,
+      });
+      if (result.isError) {
+        throw new McpError(ErrorCode.InvalidParams, (result.content[0] as TextContent).text);
       }
-    );
-
-    server.server.setRequestHandler(
-      GetPromptRequestSchema,
-      async (request: GetPromptRequest): Promise<GetPromptResult> => {
-        const result = await getPromptHandler({
-          name: request.params.name,
-          arguments: request.params.arguments,
-        });
-        
-        // Parse the result and convert to prompt messages format
-        const data = JSON.parse(result.content[0].text as string);
-        
-        if (data.type === 'chat' && Array.isArray(data.prompt)) {
-          return {
-            messages: data.prompt.map((msg: any) => ({
-              role: msg.role === 'system' ? 'user' : msg.role,
-              content: {
-                type: 'text',
-                text: msg.content,
-              },
-            })),
-          };
+      
+      // Parse the result and convert to prompt messages format
+      const data = JSON.parse((result.content[0] as TextContent).text);
+      const _meta = { source: data.source, ageSeconds: data.ageSeconds, warnings: data.warnings };
+      
+      return {
+        _meta,
+        messages: toMcpMessages(data.prompt),
+      };
+    }
+  );
+
+  // Register all CRUD tools
+  const tools = new Map<string, RegisteredTool>();
+  tools.set('list-prompts', server.tool(
+    'list-prompts',
+    'List all prompts with filtering, pagination, and search',
+    listPromptsSchema.shape,
+    listPromptsHandler
+  ));
+
+  tools.set('get-prompt', server.tool(
+    'get-prompt',
+    'Get a specific prompt by name with optional version/label',
+    getPromptSchema.shape,
+    getPromptHandler
+  ));
+
+  tools.set('render-prompt', server.tool(
+    'render-prompt',
+    'Compile a prompt and render it as a request body for OpenAI, Anthropic or Gemini',
+    renderPromptSchema.shape,
+    renderPromptHandler
+  ));
+
+  tools.set('estimate-prompt-cost', server.tool(
+    'estimate-prompt-cost',
+    'Count the tokens of a compiled prompt and estimate its cost, optionally against another version',
+    estimatePromptCostSchema.shape,
+    estimatePromptCostHandler
+  ));
+
+  tools.set('lint-prompt', server.tool(
+    'lint-prompt',
+    'Check a stored or draft prompt for template mistakes and message structure problems',
+    lintPromptSchema.shape,
+    lintPromptHandler
+  ));
+
+  tools.set('list-prompt-versions', server.tool(
+    'list-prompt-versions',
+    'List all versions of a prompt with labels, commit message and author',
+    listPromptVersionsSchema.shape,
+    listPromptVersionsHandler
+  ));
+
+  tools.set('diff-prompt-versions', server.tool(
+    'diff-prompt-versions',
+    'Compare two versions or labels of a prompt, including messages, config and variables',
+    diffPromptVersionsSchema.shape,
+    diffPromptVersionsHandler
+  ));
+
+  tools.set('prompt-dependency-graph', server.tool(
+    'prompt-dependency-graph',
+    'Show which prompts include which through composition references, and which parents a planned label update would change',
+    promptDependencyGraphSchema.shape,
+    promptDependencyGraphHandler
+  ));
+
+  tools.set('get-server-status', server.tool(
+    'get-server-status',
+    'Show the circuit breaker state and request queue statistics of each project',
+    getServerStatusSchema.shape,
+    getServerStatusHandler
+  ));
+
+  tools.set('create-prompt', server.tool(
+    'create-prompt',
+    'Create a new prompt or add a new version to existing prompt',
+    createPromptSchema.shape,
+    createPromptHandler
+  ));
+
+  tools.set('update-prompt-labels', server.tool(
+    'update-prompt-labels',
+    'Update labels for a specific prompt version',
+    updatePromptLabelsSchema.shape,
+    updatePromptLabelsHandler
+  ));
+
+  tools.set('promote-prompt', server.tool(
+    'promote-prompt',
+    'Move a label to another version, keeping other labels and rolling back on failure',
+    promotePromptSchema.shape,
+    promotePromptHandler
+  ));
+
+  tools.set('rollback-prompt', server.tool(
+    'rollback-prompt',
+    'Move a label back to the version that held it before the current one',
+    rollbackPromptSchema.shape,
+    rollbackPromptHandler
+  ));
+
+  tools.set('delete-prompt', server.tool(
+    'delete-prompt',
+    'Delete a prompt or specific version (not yet available in API)',
+    deletePromptSchema.shape,
+    deletePromptHandler
+  ));
+
+  tools.set('batch-update-labels', server.tool(
+    'batch-update-labels',
+    'Update labels for multiple prompt versions in a single operation',
+    batchUpdateLabelsSchema.shape,
+    batchUpdateLabelsHandler
+  ));
+
+  tools.set('export-prompts', server.tool(
+    'export-prompts',
+    'Export prompts for backup/migration, as text or to a file, directory or archive below the files root',
+    exportPromptsSchema.shape,
+    exportPromptsHandler
+  ));
+
+  tools.set('import-prompts', server.tool(
+    'import-prompts',
+    'Import prompts from export data, or from a file, directory or archive below the files root',
+    importPromptsSchema.shape,
+    importPromptsHandler
+  ));
+
+  tools.set('pull-prompts', server.tool(
+    'pull-prompts',
+    'Mirror prompts into a local directory, one Markdown or YAML file per prompt',
+    pullPromptsSchema.shape,
+    pullPromptsHandler
+  ));
+
+  tools.set('push-prompts', server.tool(
+    'push-prompts',
+    'Create new versions from changed files of a local prompts directory, detecting conflicts',
+    pushPromptsSchema.shape,
+    pushPromptsHandler
+  ));
+
+  // Enable tools according to configuration, and again after each reload
+  const applyToolConfig = (config: ServerConfig) => {
+    for (const [name, tool] of tools) {
+      const enabled = isToolEnabled(name, config);
+      if (enabled !== tool.enabled) {
+        if (enabled) {
+          tool.enable();
         } else {
-          return {
-            messages: [{
-              role: 'user',
-              content: {
-                type: 'text',
-                text: data.prompt,
-              },
-            }],
-          };
+          tool.disable();
         }
       }
-    );
-
-    // Register all CRUD tools
-    server.tool(
-      'list-prompts',
-      'List all prompts with filtering, pagination, and search',
-      listPromptsSchema.shape,
-      listPromptsHandler
-    );
-
-    server.tool(
-      'get-prompt',
-      'Get a specific prompt by name with optional version/label',
-      getPromptSchema.shape,
-      getPromptHandler
-    );
-
-    server.tool(
-      'create-prompt',
-      'Create a new prompt or add a new version to existing prompt',
-      createPromptSchema.shape,
-      createPromptHandler
-    );
-
-    server.tool(
-      'update-prompt-labels',
-      'Update labels for a specific prompt version',
-      updatePromptLabelsSchema.shape,
-      updatePromptLabelsHandler
-    );
-
-    server.tool(
-      'delete-prompt',
-      'Delete a prompt or specific version (not yet available in API)',
-      deletePromptSchema.shape,
-      deletePromptHandler
-    );
-
-    server.tool(
-      'batch-update-labels',
-      'Update labels for multiple prompt versions in a single operation',
-      batchUpdateLabelsSchema.shape,
-      batchUpdateLabelsHandler
-    );
-
-    server.tool(
-      'export-prompts',
-      'Export prompts to JSON or JSONL format for backup/migration',
-      exportPromptsSchema.shape,
-      exportPromptsHandler
-    );
-
-    server.tool(
-      'import-prompts',
-      'Import prompts from JSON or JSONL format',
-      importPromptsSchema.shape,
-      importPromptsHandler
-    );
+    }
+  };
+  applyToolConfig(configManager.get());
+  server.server.onclose = configManager.onChange(applyToolConfig);
 
-    // Start the server
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
+  return server;
+}
+
+async function main() {
+  try {
+    // Initialize configuration
+    const { configPath, transport, http } = getCliOptions();
+    const configManager = new ConfigManager(findConfigFile(configPath));
+    const config = configManager.get();
+    if (config.cache.backend === 'file') {
+      CacheManager.getInstance().setBackendFactory(
+        name => FileCacheBackend.forCache(config.cache.directory, name)
+      );
+    }
+    applyRuntimeConfig(config);
     
-    console.error('Langfuse Prompt Management MCP Server v2.0.0 running on stdio');
-    console.error('Connected to:', config.baseUrl);
+    // Create Langfuse API clients for all projects
+    const projects = new ProjectRegistry(config.projects, config.defaultProject, config.cassette);
+    const fallback = new PromptFallback(config.fallback);
+    const journal = new LabelJournal(config.labelJournal.file);
+    const pricing = new ModelPricing(config.pricing);
+    const linter = new PromptLinter(config.lint.rules);
+    const sandbox = new FileSandbox(config.files.root);
+
+    // Reload configuration on file change without restarting the session
+    configManager.onChange((newConfig, previous) => {
+      const connectionChanged =
+        JSON.stringify(newConfig.projects) !== JSON.stringify(previous.projects) ||
+        JSON.stringify(newConfig.cassette) !== JSON.stringify(previous.cassette);
+      if (connectionChanged) {
+        projects.update(newConfig.projects, newConfig.defaultProject, newConfig.cassette);
+        CacheManager.getInstance().clearAll();
+      }
+      applyRuntimeConfig(newConfig);
+      fallback.configure(newConfig.fallback);
+      journal.configure(newConfig.labelJournal.file);
+      pricing.configure(newConfig.pricing);
+      linter.configure(newConfig.lint.rules);
+      sandbox.configure(newConfig.files.root);
+    });
+    configManager.watch();
+
+    // Start the server
+    if (transport === 'http') {
+      const httpServer = await startHttpServer(
+        () => createServer(projects, configManager, fallback, journal, pricing, linter, sandbox),
+        http
+      );
+      console.error(`Langfuse Prompt Management MCP Server v2.0.0 running on http://${http.host}:${http.port}${http.path}`);
+
+      // End client sessions before exiting
+      const shutdown = () => {
+        configManager.close();
+        httpServer.close()
+          .catch((error: any) => console.error('Error stopping HTTP server:', error.message))
+          .finally(() => process.exit(0));
+      };
+      process.once('SIGINT', shutdown);
+      process.once('SIGTERM', shutdown);
+    } else {
+      const server = await createServer(projects, configManager, fallback, journal, pricing, linter, sandbox);
+      await server.connect(new StdioServerTransport());
+      console.error('Langfuse Prompt Management MCP Server v2.0.0 running on stdio');
+    }
+    if (configManager.path) {
+      console.error('Using config file:', configManager.path);
+    }
+    if (config.cassette.mode !== 'off') {
+      console.error(`Cassette ${config.cassette.mode} mode, using directory:`, config.cassette.directory);
+    }
+    for (const name of projects.listProjects()) {
+      const isDefault = name === projects.getDefaultProject() ? ' (default)' : '';
+      console.error(`Project '${name}'${isDefault} connected to:`, config.projects[name].baseUrl);
+    }
   } catch (error: any) {
     console.error('Fatal error starting server:', error.message);
     process.exit(1);
@@ -0,0 +1,192 @@
+// In-memory .tar.gz and .zip archives of small text files
+
+import { gunzipSync, gzipSync } from 'node:zlib';
+import { unzipSync, zipSync } from 'fflate';
+import { ValidationError } from '../types/index.js';
+
+export type ArchiveType = 'tar.gz' | 'zip';
+
+export interface ArchiveEntry {
+  // Relative path with forward slashes
+  path: string;
+  data: Buffer;
+}
+
+const BLOCK_SIZE = 512;
+
+// Largest total uncompressed size read from an archive, against archive bombs
+export const MAX_UNCOMPRESSED_SIZE = 64 * 1024 * 1024;
+
+function tooLarge(maxSize: number): ValidationError {
+  return new ValidationError('archive', `Archive expands to more than ${maxSize} bytes`);
+}
+
+/**
+ * Get the archive type of a file path from its extension
+ */
+export function archiveType(path: string): ArchiveType | undefined {
+  const lower = path.toLowerCase();
+  if (lower.endsWith('.tar.gz') || lower.endsWith('.tgz')) {
+    return 'tar.gz';
+  }
+  return lower.endsWith('.zip') ? 'zip' : undefined;
+}
+
+/**
+ * Check that an entry path stays inside the archive
+ */
+function safeEntryPath(path: string): string {
+  const normalized = path.replace(/\\/g, '/').replace(/^\.\//, '');
+  const segments = normalized.split('/');
+  if (normalized.startsWith('/') || segments.some(segment => segment === '..')) {
+    throw new ValidationError('archive', `Archive entry '${path}' points outside of the archive`);
+  }
+  return normalized;
+}
+
+function writeField(header: Buffer, offset: number, length: number, value: string): void {
+  header.write(value, offset, length, 'utf8');
+}
+
+function writeOctal(header: Buffer, offset: number, length: number, value: number): void {
+  writeField(header, offset, length, value.toString(8).padStart(length - 1, '0') + '\0');
+}
+
+/**
+ * Build a ustar header, splitting long paths into prefix and name
+ */
+function tarHeader(path: string, size: number): Buffer {
+  let name = path;
+  let prefix = '';
+  if (Buffer.byteLength(name) > 100) {
+    const split = path.lastIndexOf('/', path.length - 1);
+    prefix = path.slice(0, split);
+    name = path.slice(split + 1);
+    if (split === -1 || Buffer.byteLength(name) > 100 || Buffer.byteLength(prefix) > 155) {
+      throw new ValidationError('archive', `Path '${path}' is too long for a tar archive`);
+    }
+  }
+
+  const header = Buffer.alloc(BLOCK_SIZE);
+  writeField(header, 0, 100, name);
+  writeOctal(header, 100, 8, 0o644);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, size);
+  writeOctal(header, 136, 12, Math.floor(Date.now() / 1000));
+  header.fill(' ', 148, 156);
+  writeField(header, 156, 1, '0');
+  writeField(header, 257, 6, 'ustar\0');
+  writeField(header, 263, 2, '00');
+  writeField(header, 345, 155, prefix);
+
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  writeField(header, 148, 8, checksum.toString(8).padStart(6, '0') + '\0 ');
+  return header;
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString('utf8');
+}
+
+/**
+ * Write entries as a gzipped tar archive
+ */
+export function writeTarGz(entries: ArchiveEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+  for (const entry of entries) {
+    blocks.push(tarHeader(safeEntryPath(entry.path), entry.data.length), entry.data);
+    const padding = (BLOCK_SIZE - (entry.data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    blocks.push(Buffer.alloc(padding));
+  }
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return gzipSync(Buffer.concat(blocks));
+}
+
+/**
+ * Read the regular files of a gzipped tar archive, including GNU and PAX
+ * long names
+ */
+export function readTarGz(archive: Buffer, maxSize = MAX_UNCOMPRESSED_SIZE): ArchiveEntry[] {
+  let tar: Buffer;
+  try {
+    tar = gunzipSync(archive, { maxOutputLength: maxSize });
+  } catch (error: any) {
+    if (error.code === 'ERR_BUFFER_TOO_LARGE') {
+      throw tooLarge(maxSize);
+    }
+    throw new ValidationError('archive', `Cannot decompress tar.gz archive: ${error.message}`);
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let longPath: string | undefined;
+  let offset = 0;
+  while (offset + BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) {
+      break;
+    }
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    const type = readString(header, 156, 1) || '0';
+    const data = tar.subarray(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size);
+    if (data.length < size) {
+      throw new ValidationError('archive', 'Tar archive is truncated');
+    }
+    offset += BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (type === 'L') {
+      longPath = readString(data, 0, data.length);
+      continue;
+    }
+    if (type === 'x') {
+      const match = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(data.toString('utf8'));
+      longPath = match ? match[1] : longPath;
+      continue;
+    }
+    if (type === '0' || type === '7') {
+      const prefix = readString(header, 345, 155);
+      const name = readString(header, 0, 100);
+      const path = longPath ?? (prefix ? `${prefix}/${name}` : name);
+      entries.push({ path: safeEntryPath(path), data: Buffer.from(data) });
+    }
+    longPath = undefined;
+  }
+  return entries;
+}
+
+/**
+ * Write entries as a zip archive
+ */
+export function writeZip(entries: ArchiveEntry[]): Buffer {
+  return Buffer.from(zipSync(Object.fromEntries(entries.map(entry => [safeEntryPath(entry.path), entry.data]))));
+}
+
+/**
+ * Read the files of a zip archive. Entries are inflated into buffers of
+ * their declared size, so checking declared sizes bounds the memory used.
+ */
+export function readZip(archive: Buffer, maxSize = MAX_UNCOMPRESSED_SIZE): ArchiveEntry[] {
+  let files: Record<string, Uint8Array>;
+  let total = 0;
+  try {
+    files = unzipSync(archive, {
+      filter: file => {
+        total += file.originalSize;
+        if (total > maxSize) {
+          throw tooLarge(maxSize);
+        }
+        return true;
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    throw new ValidationError('archive', `Cannot read zip archive: ${error.message}`);
+  }
+  return Object.entries(files)
+    .filter(([path]) => !path.endsWith('/'))
+    .map(([path, data]) => ({ path: safeEntryPath(path), data: Buffer.from(data) }));
+}
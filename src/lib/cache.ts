@@ -1,21 +1,78 @@
-// Simple in-memory cache with TTL support
+// Cache with TTL support over pluggable storage backends
 
-import { CacheEntry, CacheOptions } from '../types/index.js';
+import { CacheBackend, CacheEntry, CacheOptions } from '../types/index.js';
+
+/**
+ * Default storage backend keeping entries in process memory
+ */
+export class MemoryCacheBackend<T> implements CacheBackend<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+
+  get(key: string): CacheEntry<T> | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, entry: CacheEntry<T>): void {
+    this.entries.set(key, entry);
+  }
+
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+}
 
 export class Cache<T> {
-  private cache = new Map<string, CacheEntry<T>>();
+  private cache: CacheBackend<T>;
   private defaultTTL: number;
+  private staleTTL: number;
   private keyPrefix: string;
 
   constructor(options: CacheOptions = {}) {
+    this.cache = options.backend || new MemoryCacheBackend<T>();
     this.defaultTTL = options.ttl || 300; // 5 minutes default
+    this.staleTTL = options.staleTtl || 0; // No stale serving by default
     this.keyPrefix = options.keyPrefix || '';
   }
 
+  /**
+   * Change the TTL used for entries set without an explicit TTL
+   */
+  setDefaultTTL(ttl: number): void {
+    this.defaultTTL = ttl;
+  }
+
+  /**
+   * Change how long entries may be served stale after they expire
+   */
+  setStaleTTL(staleTtl: number): void {
+    this.staleTTL = staleTtl;
+  }
+
   /**
    * Get a value from cache
    */
   get(key: string): T | null {
+    const result = this.getWithStatus(key);
+    return result && !result.stale ? result.data : null;
+  }
+
+  /**
+   * Get a value from cache, including expired entries that are still
+   * within their stale window
+   */
+  getWithStatus(key: string): { data: T; stale: boolean; ageSeconds?: number } | null {
     const fullKey = this.keyPrefix + key;
     const entry = this.cache.get(fullKey);
 
@@ -23,13 +80,18 @@ export class Cache<T> {
       return null;
     }
 
-    // Check if expired
-    if (Date.now() > entry.expiresAt) {
+    // Check if expired beyond the stale window
+    const now = Date.now();
+    if (now > (entry.staleUntil ?? entry.expiresAt)) {
       this.cache.delete(fullKey);
       return null;
     }
 
-    return entry.data;
+    return {
+      data: entry.data,
+      stale: now > entry.expiresAt,
+      ageSeconds: entry.storedAt !== undefined ? Math.floor((now - entry.storedAt) / 1000) : undefined,
+    };
   }
 
   /**
@@ -37,11 +99,14 @@ export class Cache<T> {
    */
   set(key: string, value: T, ttl?: number): void {
     const fullKey = this.keyPrefix + key;
-    const expiresAt = Date.now() + ((ttl || this.defaultTTL) * 1000);
+    const storedAt = Date.now();
+    const expiresAt = storedAt + ((ttl || this.defaultTTL) * 1000);
 
     this.cache.set(fullKey, {
       data: value,
       expiresAt,
+      staleUntil: this.staleTTL > 0 ? expiresAt + this.staleTTL * 1000 : undefined,
+      storedAt,
     });
   }
 
@@ -65,8 +130,9 @@ export class Cache<T> {
    */
   cleanup(): void {
     const now = Date.now();
-    for (const [key, entry] of this.cache.entries()) {
-      if (now > entry.expiresAt) {
+    for (const key of this.cache.keys()) {
+      const entry = this.cache.get(key);
+      if (entry && now > (entry.staleUntil ?? entry.expiresAt)) {
         this.cache.delete(key);
       }
     }
@@ -76,7 +142,19 @@ export class Cache<T> {
    * Get cache size
    */
   size(): number {
-    return this.cache.size;
+    return this.cache.size();
+  }
+
+  /**
+   * Invalidate cache entries whose key starts with a prefix
+   */
+  invalidatePrefix(prefix: string): void {
+    const fullPrefix = this.keyPrefix + prefix;
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(fullPrefix)) {
+        this.cache.delete(key);
+      }
+    }
   }
 
   /**
@@ -96,14 +174,16 @@ export class Cache<T> {
 export class CacheManager {
   private static instance: CacheManager;
   private caches = new Map<string, Cache<any>>();
+  private overrides = new Map<string, CacheOptions>();
+  private backendFactory?: (name: string) => CacheBackend<any>;
 
   private constructor() {
-    // Start cleanup interval
+    // Start cleanup interval (unref'd so it never keeps the process alive)
     setInterval(() => {
       for (const cache of this.caches.values()) {
         cache.cleanup();
       }
-    }, 60000); // Cleanup every minute
+    }, 60000).unref(); // Cleanup every minute
   }
 
   static getInstance(): CacheManager {
@@ -115,11 +195,48 @@ export class CacheManager {
 
   getCache<T>(name: string, options?: CacheOptions): Cache<T> {
     if (!this.caches.has(name)) {
-      this.caches.set(name, new Cache<T>(options));
+      this.caches.set(name, new Cache<T>({
+        backend: this.backendFactory?.(name),
+        ...options,
+        ...this.overrides.get(name),
+      }));
     }
     return this.caches.get(name) as Cache<T>;
   }
 
+  /**
+   * Get a named cache scoped to a single Langfuse project
+   */
+  getProjectCache<T>(project: string, name: string, options?: CacheOptions): Cache<T> {
+    return this.getCache<T>(`${project}/${name}`, { ...options, ...this.overrides.get(name) });
+  }
+
+  /**
+   * Override options for a named cache, including its project-scoped copies.
+   * Existing caches pick up new TTLs immediately.
+   */
+  configureCache(name: string, options: CacheOptions): void {
+    this.overrides.set(name, options);
+
+    for (const [cacheName, cache] of this.caches.entries()) {
+      if (cacheName === name || cacheName.endsWith(`/${name}`)) {
+        if (options.ttl !== undefined) {
+          cache.setDefaultTTL(options.ttl);
+        }
+        if (options.staleTtl !== undefined) {
+          cache.setStaleTTL(options.staleTtl);
+        }
+      }
+    }
+  }
+
+  /**
+   * Set the storage backend used for caches created from now on
+   */
+  setBackendFactory(factory: (name: string) => CacheBackend<any>): void {
+    this.backendFactory = factory;
+  }
+
   clearAll(): void {
     for (const cache of this.caches.values()) {
       cache.clear();
@@ -0,0 +1,129 @@
+// Record/replay of Langfuse API traffic in cassette files
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { CassetteError, CassetteInteraction, CassetteMode, CassetteOptions } from '../types/index.js';
+
+// Response headers worth keeping, credentials and cookies are never recorded
+const RECORDED_HEADERS = ['content-type', 'retry-after'];
+
+// Statuses whose responses must not have a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * Build a response from recorded parts
+ */
+function toResponse(status: number, headers: Record<string, string>, text: string): Response {
+  return new Response(NULL_BODY_STATUSES.includes(status) ? null : text, { status, headers });
+}
+
+/**
+ * A cassette holds the request/response pairs of one project.
+ * In record mode every response is appended to the file, after any
+ * interactions it already holds; in replay mode responses are served from
+ * the file and unmatched requests fail.
+ */
+export class Cassette {
+  private interactions: CassetteInteraction[] = [];
+  private used = new Set<number>();
+  private loaded = false;
+
+  constructor(private filePath: string, readonly mode: Exclude<CassetteMode, 'off'>) {}
+
+  /**
+   * Create the cassette of a project, or undefined when cassettes are off
+   */
+  static forProject(options: CassetteOptions, project: string): Cassette | undefined {
+    if (options.mode === 'off') {
+      return undefined;
+    }
+    return new Cassette(join(options.directory, `${encodeURIComponent(project)}.json`), options.mode);
+  }
+
+  /**
+   * Store a live response and return an unconsumed copy of it
+   */
+  async record(method: string, path: string, body: any, response: Response): Promise<Response> {
+    // Keep what was recorded before, e.g. by the client this one replaced
+    // after a configuration reload
+    this.load(false);
+
+    const text = await response.text();
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) {
+        headers[name] = value;
+      }
+    }
+
+    this.interactions.push({
+      request: { method, path, ...(body !== undefined && { body }) },
+      response: { status: response.status, headers, body: text },
+    });
+    this.persist();
+
+    return toResponse(response.status, headers, text);
+  }
+
+  /**
+   * Serve the next recorded response matching the request. Identical
+   * requests are answered with their recorded responses in order.
+   */
+  replay(method: string, path: string, body: any): Response {
+    this.load(true);
+
+    const bodyJson = JSON.stringify(body);
+    const index = this.interactions.findIndex((interaction, i) =>
+      !this.used.has(i) &&
+      interaction.request.method === method &&
+      interaction.request.path === path &&
+      JSON.stringify(interaction.request.body) === bodyJson
+    );
+
+    if (index === -1) {
+      throw new CassetteError(`No recorded response for ${method} ${path} in ${this.filePath}`);
+    }
+
+    this.used.add(index);
+    const { status, headers, body: text } = this.interactions[index].response;
+    return toResponse(status, headers, text);
+  }
+
+  /**
+   * Load recorded interactions, failing on a missing file when required
+   */
+  private load(required: boolean): void {
+    if (this.loaded) {
+      return;
+    }
+    if (!existsSync(this.filePath)) {
+      if (required) {
+        throw new CassetteError(`Cassette not found: ${this.filePath}`);
+      }
+      this.loaded = true;
+      return;
+    }
+
+    try {
+      const stored = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+      if (!Array.isArray(stored.interactions)) {
+        throw new Error('Expected an interactions array');
+      }
+      this.interactions = stored.interactions;
+    } catch (error: any) {
+      throw new CassetteError(`Invalid cassette ${this.filePath}: ${error.message}`);
+    }
+    this.loaded = true;
+  }
+
+  /**
+   * Write recorded interactions to disk atomically
+   */
+  private persist(): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    writeFileSync(tempPath, JSON.stringify({ interactions: this.interactions }, null, 2));
+    renameSync(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,102 @@
+// Chat message content: roles, multimodal parts and conversion to MCP messages
+
+import { PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { ChatMessage, ChatPromptItem, ChatRole, ContentPart } from '../types/index.js';
+
+export const CHAT_ROLES: ChatRole[] = ['system', 'developer', 'user', 'assistant', 'tool'];
+
+export const CONTENT_PART_TYPES: ContentPart['type'][] = ['text', 'image_url', 'image_base64'];
+
+// data:<mime type>;base64,<data>
+const DATA_URL_REGEX = /^data:([^;,]+);base64,(.*)$/s;
+
+/**
+ * Get the templates of a message: its content, or its text parts
+ */
+export function messageTexts(message: ChatMessage): string[] {
+  if (typeof message.content === 'string') {
+    return [message.content];
+  }
+  return message.content.flatMap(part => part.type === 'text' ? [part.text] : []);
+}
+
+/**
+ * Transform the templates of a message, keeping image parts and metadata
+ */
+export function mapMessageTexts(message: ChatMessage, transform: (text: string) => string): ChatMessage {
+  if (typeof message.content === 'string') {
+    return { ...message, content: transform(message.content) };
+  }
+  return {
+    ...message,
+    content: message.content.map(part => part.type === 'text' ? { ...part, text: transform(part.text) } : part),
+  };
+}
+
+/**
+ * Render a message as plain text, with images and tool calls on their own lines
+ */
+export function messageText(message: ChatMessage): string {
+  const lines = typeof message.content === 'string'
+    ? [message.content]
+    : message.content.map(part => {
+        switch (part.type) {
+          case 'text':
+            return part.text;
+          case 'image_url':
+            return `[image: ${part.url}]`;
+          case 'image_base64':
+            return `[image: ${part.mimeType}, ${part.data.length} base64 characters]`;
+        }
+      });
+  if (message.toolCallId) {
+    lines.unshift(`[result of tool call ${message.toolCallId}]`);
+  }
+  for (const call of message.toolCalls ?? []) {
+    lines.push(`[tool call ${call.id}: ${call.name}(${call.arguments})]`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Convert a prompt to MCP prompt messages. MCP only knows the user and
+ * assistant roles and one content block per message, so other roles are sent
+ * as user messages and every content part becomes its own message.
+ */
+export function toMcpMessages(prompt: string | ChatPromptItem[]): PromptMessage[] {
+  if (typeof prompt === 'string') {
+    return [{ role: 'user', content: { type: 'text', text: prompt } }];
+  }
+
+  return prompt.flatMap(item => {
+    // Placeholders left without messages are dropped
+    if (item.type === 'placeholder') {
+      return [];
+    }
+    const role = item.role === 'assistant' ? 'assistant' : 'user';
+
+    // Tool metadata has no MCP equivalent and is kept as text
+    if (item.toolCalls || item.toolCallId) {
+      return [{ role, content: { type: 'text', text: messageText(item) } }];
+    }
+    if (typeof item.content === 'string') {
+      return [{ role, content: { type: 'text', text: item.content } }];
+    }
+
+    return item.content.map((part): PromptMessage => {
+      switch (part.type) {
+        case 'text':
+          return { role, content: { type: 'text', text: part.text } };
+        case 'image_base64':
+          return { role, content: { type: 'image', data: part.data, mimeType: part.mimeType } };
+        case 'image_url': {
+          const dataUrl = DATA_URL_REGEX.exec(part.url);
+          if (dataUrl) {
+            return { role, content: { type: 'image', data: dataUrl[2], mimeType: dataUrl[1] } };
+          }
+          return { role, content: { type: 'resource_link', uri: part.url, name: part.url.split('/').pop() || part.url } };
+        }
+      }
+    });
+  });
+}
@@ -0,0 +1,50 @@
+// JSON Schema validation of prompt configs
+
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { Ajv } from 'ajv';
+import { parse as parseYaml } from 'yaml';
+import { PromptConfig, ValidationError } from '../types/index.js';
+
+export type PromptConfigValidator = (config: PromptConfig) => void;
+
+/**
+ * Read a JSON Schema from a JSON or YAML file
+ */
+function loadSchema(path: string): Record<string, unknown> {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error: any) {
+    throw new Error(`Cannot read prompt config schema '${path}': ${error.message}`);
+  }
+
+  try {
+    return ['.yaml', '.yml'].includes(extname(path).toLowerCase()) ? parseYaml(text) : JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`Cannot parse prompt config schema '${path}': ${error.message}`);
+  }
+}
+
+/**
+ * Compile a JSON Schema, inline or from a file, into a validator that
+ * throws a ValidationError listing every mismatch
+ */
+export function createConfigValidator(schema: string | Record<string, unknown>): PromptConfigValidator {
+  const source = typeof schema === 'string' ? loadSchema(schema) : schema;
+
+  let validate;
+  try {
+    validate = new Ajv({ allErrors: true, strict: false }).compile(source);
+  } catch (error: any) {
+    throw new Error(`Invalid prompt config schema: ${error.message}`);
+  }
+
+  return (config: PromptConfig) => {
+    if (validate(config)) {
+      return;
+    }
+    const problems = (validate.errors ?? []).map(error => `${error.instancePath || '/'} ${error.message}`);
+    throw new ValidationError('config', `Config does not match the project schema: ${problems.join('; ')}`);
+  };
+}
@@ -0,0 +1,422 @@
+// Server configuration loading, validation and hot reload
+
+import { existsSync, readFileSync, watch, FSWatcher } from 'node:fs';
+import { homedir } from 'node:os';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { LINT_RULES, LINT_SEVERITIES } from './prompt-lint.js';
+
+// Config file names searched for, in order of preference
+export const CONFIG_FILE_NAMES = [
+  'langfuse-mcp.config.json',
+  'langfuse-mcp.config.yaml',
+  'langfuse-mcp.config.yml',
+];
+
+// Booleans may come from interpolated strings
+const booleanSchema = z.preprocess(
+  value => (value === 'true' ? true : value === 'false' ? false : value),
+  z.boolean()
+);
+
+// File system paths, with ~ expanded to the home directory and relative
+// paths resolved against the base directory when one is given
+const createPathSchema = (baseDir?: string) => z.string()
+  .min(1)
+  .transform(path => {
+    const expanded = path.startsWith('~/') ? join(homedir(), path.slice(2)) : path;
+    return baseDir ? resolve(baseDir, expanded) : expanded;
+  });
+
+/**
+ * Configuration schema. Relative paths in a config file are resolved against
+ * its directory, so they do not depend on where the server was started.
+ */
+function createConfigSchema(baseDir?: string) {
+  const pathSchema = createPathSchema(baseDir);
+
+  // Project profile schema
+  const projectSchema = z.object({
+    publicKey: z.string().min(1, 'Public key is required'),
+    secretKey: z.string().min(1, 'Secret key is required'),
+    baseUrl: z.string().url().optional().default('https://cloud.langfuse.com'),
+    requestTimeout: z.coerce.number().int().positive().optional().default(30000),
+    maxRetries: z.coerce.number().int().min(0).optional().default(3),
+    retryPolicy: z.object({
+      maxRetries: z.coerce.number().int().min(0),
+      baseDelayMs: z.coerce.number().int().min(0),
+      maxDelayMs: z.coerce.number().int().min(0),
+      jitter: booleanSchema,
+      retryableStatuses: z.array(z.number().int().min(400).max(599)),
+      idempotentMethods: z.array(z.string().transform(method => method.toUpperCase())),
+      maxRetryAfterMs: z.coerce.number().int().min(0),
+      circuitBreaker: z.object({
+        failureThreshold: z.coerce.number().int().positive(),
+        resetTimeoutMs: z.coerce.number().int().min(0),
+      }).partial(),
+    }).partial().optional(),
+    rateLimit: z.object({
+      requestsPerMinute: z.coerce.number().positive(),
+      burst: z.coerce.number().int().positive(),
+      maxConcurrency: z.coerce.number().int().positive(),
+    }).partial().optional(),
+    promptConfigSchema: z.union([pathSchema, z.record(z.unknown())]).optional(),
+  });
+
+  // Full server configuration schema
+  return z.object({
+    projects: z.record(projectSchema).refine(
+      projects => Object.keys(projects).length > 0,
+      'At least one project must be configured'
+    ),
+    defaultProject: z.string().optional(),
+    cache: z.object({
+      promptTtl: z.coerce.number().positive().optional().default(300),
+      listTtl: z.coerce.number().positive().optional().default(60),
+      backend: z.enum(['memory', 'file']).optional().default('memory'),
+      directory: pathSchema.optional().default(join(homedir(), '.cache', 'langfuse-mcp')),
+      staleWhileRevalidate: booleanSchema.optional().default(false),
+      staleTtl: z.coerce.number().positive().optional().default(86400),
+    }).optional().default({}),
+    tools: z.object({
+      enabled: z.array(z.string()).optional(),
+      disabled: z.array(z.string()).optional().default([]),
+    }).optional().default({}),
+    fallback: z.object({
+      snapshotDirectory: pathSchema.optional(),
+      fallbackFile: pathSchema.optional(),
+    }).optional().default({}),
+    labelJournal: z.object({
+      file: pathSchema.optional().default(join(homedir(), '.cache', 'langfuse-mcp', 'label-journal.jsonl')),
+    }).optional().default({}),
+    cassette: z.object({
+      mode: z.enum(['off', 'record', 'replay']).optional().default('off'),
+      directory: pathSchema.optional().default('cassettes'),
+    }).optional().default({}),
+    policies: z.object({
+      readOnly: booleanSchema.optional().default(false),
+    }).optional().default({}),
+    // Model prices in USD per million tokens, merged over the built-in table
+    pricing: z.record(z.object({
+      input: z.coerce.number().min(0),
+      output: z.coerce.number().min(0).optional(),
+      contextWindow: z.coerce.number().int().positive().optional(),
+    })).optional().default({}),
+    lint: z.object({
+      rules: z.record(z.enum(LINT_RULES), z.enum(LINT_SEVERITIES)).optional().default({}),
+    }).optional().default({}),
+    // Root directory for file paths passed to tools, file access is disabled without it
+    files: z.object({
+      root: pathSchema.optional(),
+    }).optional().default({}),
+  }).refine(
+    config => !config.defaultProject || config.defaultProject in config.projects,
+    config => ({
+      message: `Default project '${config.defaultProject}' is not configured`,
+      path: ['defaultProject'],
+    })
+  );
+}
+
+// Schema of configuration from environment variables, paths stay relative to the working directory
+export const configSchema = createConfigSchema();
+
+export type ServerConfig = z.infer<typeof configSchema>;
+
+/**
+ * Replace ${VAR} and ${VAR:-default} references in all string values
+ */
+export function interpolateEnv(value: unknown, env: NodeJS.ProcessEnv = process.env): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (_match, name, fallback) => {
+      const resolved = env[name];
+      if (resolved !== undefined && resolved !== '') {
+        return resolved;
+      }
+      if (fallback !== undefined) {
+        return fallback;
+      }
+      throw new Error(`Environment variable '${name}' referenced in config is not set`);
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => interpolateEnv(item, env));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateEnv(item, env)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Interpolate a raw config file, leaving inline prompt config JSON Schemas
+ * alone since their patterns and descriptions may contain ${...} themselves
+ */
+function interpolateConfig(raw: unknown, env: NodeJS.ProcessEnv): unknown {
+  const projects = (raw as { projects?: unknown } | null)?.projects;
+  if (!projects || typeof projects !== 'object' || Array.isArray(projects)) {
+    return interpolateEnv(raw, env);
+  }
+
+  const inlineSchemas = new Map<string, unknown>();
+  const stripped = Object.fromEntries(Object.entries(projects).map(([name, project]) => {
+    const schema = (project as { promptConfigSchema?: unknown } | null)?.promptConfigSchema;
+    if (!schema || typeof schema !== 'object') {
+      return [name, project];
+    }
+    inlineSchemas.set(name, schema);
+    const { promptConfigSchema: _schema, ...rest } = project as Record<string, unknown>;
+    return [name, rest];
+  }));
+
+  const interpolated = interpolateEnv({ ...(raw as object), projects: stripped }, env) as {
+    projects: Record<string, Record<string, unknown>>;
+  };
+  for (const [name, schema] of inlineSchemas) {
+    interpolated.projects[name].promptConfigSchema = schema;
+  }
+  return interpolated;
+}
+
+/**
+ * Validate a raw configuration object against the schema, resolving
+ * relative paths against baseDir when given
+ */
+export function validateConfig(raw: unknown, source: string, baseDir?: string): ServerConfig {
+  const result = (baseDir ? createConfigSchema(baseDir) : configSchema).safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid configuration in ${source}: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Load and validate a JSON or YAML config file
+ */
+export function loadConfigFile(path: string, env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const text = readFileSync(path, 'utf-8');
+  const extension = extname(path).toLowerCase();
+
+  let raw: unknown;
+  try {
+    raw = extension === '.yaml' || extension === '.yml' ? parseYaml(text) : JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`Failed to parse config file ${path}: ${error.message}`);
+  }
+
+  return validateConfig(interpolateConfig(raw, env), path, dirname(resolve(path)));
+}
+
+/**
+ * Build configuration from environment variables
+ */
+export function loadConfigFromEnv(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const projectNames = (env.LANGFUSE_PROJECTS || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  const readProject = (prefix: string) => ({
+    publicKey: env[`${prefix}PUBLIC_KEY`] || '',
+    secretKey: env[`${prefix}SECRET_KEY`] || '',
+    baseUrl: env[`${prefix}BASEURL`] || undefined,
+    requestTimeout: env[`${prefix}REQUEST_TIMEOUT`] || undefined,
+    maxRetries: env[`${prefix}MAX_RETRIES`] || undefined,
+  });
+
+  const projects: Record<string, ReturnType<typeof readProject>> = {};
+  if (projectNames.length === 0) {
+    // Single project configured through the unprefixed variables
+    projects.default = readProject('LANGFUSE_');
+  } else {
+    for (const name of projectNames) {
+      const envName = name.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+      projects[name] = readProject(`LANGFUSE_${envName}_`);
+    }
+  }
+
+  return validateConfig({
+    projects,
+    defaultProject: env.LANGFUSE_DEFAULT_PROJECT || undefined,
+    cache: {
+      backend: env.LANGFUSE_CACHE_BACKEND || undefined,
+      directory: env.LANGFUSE_CACHE_DIR || undefined,
+      staleWhileRevalidate: env.LANGFUSE_CACHE_STALE_WHILE_REVALIDATE || undefined,
+    },
+    fallback: {
+      snapshotDirectory: env.LANGFUSE_SNAPSHOT_DIR || undefined,
+      fallbackFile: env.LANGFUSE_FALLBACK_FILE || undefined,
+    },
+    labelJournal: {
+      file: env.LANGFUSE_LABEL_JOURNAL || undefined,
+    },
+    cassette: {
+      mode: env.LANGFUSE_CASSETTE_MODE || undefined,
+      directory: env.LANGFUSE_CASSETTE_DIR || undefined,
+    },
+    files: {
+      root: env.LANGFUSE_FILES_ROOT || undefined,
+    },
+  }, 'environment variables');
+}
+
+/**
+ * Find the config file to use: an explicit path, LANGFUSE_MCP_CONFIG,
+ * or the first known file name in the working or home directory
+ */
+export function findConfigFile(
+  explicitPath?: string,
+  env: NodeJS.ProcessEnv = process.env,
+  searchDirs: string[] = [process.cwd(), join(homedir(), '.config', 'langfuse-mcp')]
+): string | undefined {
+  const configuredPath = explicitPath || env.LANGFUSE_MCP_CONFIG;
+  if (configuredPath) {
+    const path = resolve(configuredPath);
+    if (!existsSync(path)) {
+      throw new Error(`Config file not found: ${path}`);
+    }
+    return path;
+  }
+
+  for (const dir of searchDirs) {
+    for (const fileName of CONFIG_FILE_NAMES) {
+      const path = join(dir, fileName);
+      if (existsSync(path)) {
+        return path;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+type ConfigListener = (config: ServerConfig, previous: ServerConfig) => void;
+
+/**
+ * Holds the current configuration and reloads it when the config file changes
+ */
+export class ConfigManager {
+  private config: ServerConfig;
+  private listeners: ConfigListener[] = [];
+  private watcher?: FSWatcher;
+  private reloadTimer?: NodeJS.Timeout;
+
+  constructor(
+    public readonly path?: string,
+    private env: NodeJS.ProcessEnv = process.env
+  ) {
+    this.config = path ? loadConfigFile(path, env) : loadConfigFromEnv(env);
+  }
+
+  /**
+   * Get the current configuration
+   */
+  get(): ServerConfig {
+    return this.config;
+  }
+
+  /**
+   * Register a listener called after each successful reload
+   */
+  onChange(listener: ConfigListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Reload the config file. Invalid files are reported and the
+   * previous configuration stays active. When a listener fails to apply
+   * the new configuration, the previous one is restored and passed to
+   * every listener again.
+   */
+  reload(): boolean {
+    if (!this.path) {
+      return false;
+    }
+
+    let next: ServerConfig;
+    try {
+      next = loadConfigFile(this.path, this.env);
+    } catch (error: any) {
+      console.error('Config reload failed, keeping previous configuration:', error.message);
+      return false;
+    }
+
+    const previous = this.config;
+    this.config = next;
+    try {
+      this.notify(next, previous);
+      return true;
+    } catch (error: any) {
+      console.error('Config reload failed, restoring previous configuration:', error.message);
+      this.config = previous;
+      try {
+        this.notify(previous, next);
+      } catch (restoreError: any) {
+        console.error('Restoring previous configuration failed:', restoreError.message);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Call every listener, throwing the first error after all have run
+   */
+  private notify(config: ServerConfig, previous: ServerConfig): void {
+    let failure: unknown;
+    for (const listener of this.listeners) {
+      try {
+        listener(config, previous);
+      } catch (error) {
+        failure ??= error;
+      }
+    }
+    if (failure !== undefined) {
+      throw failure;
+    }
+  }
+
+  /**
+   * Watch the config file and reload on change
+   */
+  watch(debounceMs = 200): void {
+    if (!this.path || this.watcher) {
+      return;
+    }
+
+    // Watch the directory since editors often replace the file on save
+    const fileName = basename(this.path);
+    this.watcher = watch(dirname(this.path), (_event, changed) => {
+      if (changed && changed.toString() !== fileName) {
+        return;
+      }
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = setTimeout(() => {
+        if (existsSync(this.path!) && this.reload()) {
+          console.error('Configuration reloaded from', this.path);
+        }
+      }, debounceMs);
+    });
+    this.watcher.unref();
+  }
+
+  /**
+   * Stop watching the config file
+   */
+  close(): void {
+    clearTimeout(this.reloadTimer);
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+}
@@ -0,0 +1,132 @@
+// Dependency graph of composed prompts
+
+import { PromptVersion } from '../types/index.js';
+import { findReferences } from './prompt-composition.js';
+
+export interface DependencyNode {
+  name: string;
+  version: number;
+  labels: string[];
+  // Why the references of this version could not be read, if they could not
+  error?: string;
+}
+
+// A parent version including another prompt, by version or by label
+export interface DependencyEdge {
+  from: string;
+  fromVersion: number;
+  to: string;
+  version?: number;
+  label?: string;
+}
+
+export interface DependencyGraph {
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
+}
+
+// A label that points to another version of a prompt, or to none once removed
+export interface LabelChange {
+  name: string;
+  label: string;
+  fromVersion?: number;
+  toVersion?: number;
+}
+
+export interface ImpactedPrompt {
+  name: string;
+  version: number;
+  labels: string[];
+  // Chain of prompts from the changed one up to this parent
+  path: string[];
+  reason: string;
+}
+
+/**
+ * Build the graph of composition references between the given prompt
+ * versions. Versions with malformed references become error nodes without
+ * edges, so one bad prompt does not hide the rest of the graph.
+ */
+export function buildDependencyGraph(prompts: PromptVersion[]): DependencyGraph {
+  const nodes = new Map<string, DependencyNode>();
+  const edges = new Map<string, DependencyEdge>();
+
+  for (const prompt of prompts) {
+    const id = `${prompt.name}@${prompt.version}`;
+    if (nodes.has(id)) {
+      continue;
+    }
+    const node: DependencyNode = { name: prompt.name, version: prompt.version, labels: prompt.labels };
+    nodes.set(id, node);
+
+    let references;
+    try {
+      references = findReferences(prompt.prompt);
+    } catch (error: any) {
+      node.error = error.message;
+      continue;
+    }
+
+    for (const reference of references) {
+      const edge: DependencyEdge = { from: prompt.name, fromVersion: prompt.version, to: reference.name };
+      if (reference.version !== undefined) {
+        edge.version = reference.version;
+      } else {
+        edge.label = reference.label;
+      }
+      edges.set(`${id}>${reference.name}@${reference.version ?? reference.label}`, edge);
+    }
+  }
+
+  return { nodes: Array.from(nodes.values()), edges: Array.from(edges.values()) };
+}
+
+/**
+ * Find every prompt version whose resolved output changes with the given
+ * label changes: parents that include a moved label directly, then every
+ * prompt that includes one of those parents
+ */
+export function findImpactedPrompts(graph: DependencyGraph, changes: LabelChange[]): ImpactedPrompt[] {
+  const impacted = new Map<string, ImpactedPrompt>();
+  const queue: ImpactedPrompt[] = [];
+
+  const visit = (edge: DependencyEdge, path: string[], reason: string) => {
+    const id = `${edge.from}@${edge.fromVersion}`;
+    if (impacted.has(id)) {
+      return;
+    }
+    const node = graph.nodes.find(n => n.name === edge.from && n.version === edge.fromVersion);
+    const entry = { name: edge.from, version: edge.fromVersion, labels: node?.labels ?? [], path: [...path, edge.from], reason };
+    impacted.set(id, entry);
+    queue.push(entry);
+  };
+
+  for (const change of changes) {
+    if (change.fromVersion === change.toVersion) {
+      continue;
+    }
+    const reason = change.toVersion === undefined
+      ? `'${change.label}' would be removed from ${change.name} version ${change.fromVersion}`
+      : `'${change.label}' of ${change.name} would move to version ${change.toVersion}`;
+    for (const edge of graph.edges) {
+      if (edge.to === change.name && edge.label === change.label) {
+        visit(edge, [change.name], reason);
+      }
+    }
+  }
+
+  // Parents of impacted prompts change as well, however they include them
+  while (queue.length > 0) {
+    const child = queue.shift()!;
+    for (const edge of graph.edges) {
+      const includes = edge.version !== undefined
+        ? edge.version === child.version
+        : child.labels.includes(edge.label!);
+      if (edge.to === child.name && includes) {
+        visit(edge, child.path, child.reason);
+      }
+    }
+  }
+
+  return Array.from(impacted.values());
+}
@@ -0,0 +1,218 @@
+// Structural diffs between prompt versions
+
+import { ChatPromptItem, PromptConfig } from '../types/index.js';
+import { isPlaceholder } from './placeholders.js';
+import { messageText } from './chat-content.js';
+
+type DiffOp<T> =
+  | { type: 'equal'; from: T; to: T; fromIndex: number; toIndex: number }
+  | { type: 'removed'; from: T; fromIndex: number }
+  | { type: 'added'; to: T; toIndex: number };
+
+export interface MessageDiff {
+  status: 'unchanged' | 'added' | 'removed' | 'changed';
+  fromIndex?: number;
+  toIndex?: number;
+  fromRole?: string;
+  toRole?: string;
+  roleChanged?: boolean;
+  contentChanged?: boolean;
+  diff?: string;
+}
+
+export interface ConfigDiff {
+  key: string;
+  change: 'added' | 'removed' | 'changed';
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * Align two sequences by their longest common subsequence
+ */
+function diffSequences<T>(from: T[], to: T[], equals: (a: T, b: T) => boolean): DiffOp<T>[] {
+  // lengths[i][j] is the LCS length of from[i..] and to[j..]
+  const lengths = Array.from({ length: from.length + 1 }, () => new Array<number>(to.length + 1).fill(0));
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      lengths[i][j] = equals(from[i], to[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp<T>[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < from.length || j < to.length) {
+    if (i < from.length && j < to.length && equals(from[i], to[j])) {
+      ops.push({ type: 'equal', from: from[i], to: to[j], fromIndex: i++, toIndex: j++ });
+    } else if (j < to.length && (i === from.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      ops.push({ type: 'added', to: to[j], toIndex: j++ });
+    } else {
+      ops.push({ type: 'removed', from: from[i], fromIndex: i++ });
+    }
+  }
+
+  // Within each changed run, list removals before additions like diff(1)
+  const ordered: DiffOp<T>[] = [];
+  let run: DiffOp<T>[] = [];
+  for (const op of [...ops, null]) {
+    if (op && op.type !== 'equal') {
+      run.push(op);
+      continue;
+    }
+    ordered.push(...run.filter(o => o.type === 'removed'), ...run.filter(o => o.type === 'added'));
+    run = [];
+    if (op) {
+      ordered.push(op);
+    }
+  }
+  return ordered;
+}
+
+/**
+ * Line-level unified diff of two texts, empty when they are equal
+ */
+export function unifiedDiff(
+  from: string,
+  to: string,
+  options: { fromLabel?: string; toLabel?: string; context?: number } = {}
+): string {
+  const { fromLabel = 'from', toLabel = 'to', context = 3 } = options;
+  const ops = diffSequences(from.split('\n'), to.split('\n'), (a, b) => a === b);
+  if (ops.every(op => op.type === 'equal')) {
+    return '';
+  }
+
+  const lines = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  let index = 0;
+  while (index < ops.length) {
+    // Find the next change and extend the hunk while changes are close together
+    const firstChange = ops.findIndex((op, i) => i >= index && op.type !== 'equal');
+    if (firstChange === -1) {
+      break;
+    }
+    const start = Math.max(index, firstChange - context);
+    let end = firstChange;
+    for (let i = firstChange; i < ops.length; i++) {
+      if (ops[i].type !== 'equal') {
+        end = i;
+      } else if (i - end > context * 2) {
+        break;
+      }
+    }
+    end = Math.min(ops.length, end + context + 1);
+
+    const hunk = ops.slice(start, end);
+    const fromLines = hunk.filter(op => op.type !== 'added').length;
+    const toLines = hunk.filter(op => op.type !== 'removed').length;
+    const fromStart = countBefore(ops, start, 'added') + (fromLines > 0 ? 1 : 0);
+    const toStart = countBefore(ops, start, 'removed') + (toLines > 0 ? 1 : 0);
+
+    lines.push(`@@ -${fromStart},${fromLines} +${toStart},${toLines} @@`);
+    for (const op of hunk) {
+      if (op.type === 'equal') {
+        lines.push(` ${op.from}`);
+      } else if (op.type === 'removed') {
+        lines.push(`-${op.from}`);
+      } else {
+        lines.push(`+${op.to}`);
+      }
+    }
+    index = end;
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Count the lines of one side before an operation index
+ */
+function countBefore<T>(ops: DiffOp<T>[], index: number, otherSide: 'added' | 'removed'): number {
+  return ops.slice(0, index).filter(op => op.type !== otherSide).length;
+}
+
+// Placeholders are compared as messages with role 'placeholder' and their name as content
+interface ComparedMessage {
+  role: string;
+  content: string;
+}
+
+function toComparedMessage(item: ChatPromptItem): ComparedMessage {
+  return isPlaceholder(item) ? { role: 'placeholder', content: item.name } : { role: item.role, content: messageText(item) };
+}
+
+/**
+ * Per-message diff of two chat prompts. Unmatched messages at the same
+ * position are reported as changed, the rest as added or removed.
+ */
+export function diffMessages(fromItems: ChatPromptItem[], toItems: ChatPromptItem[]): MessageDiff[] {
+  const from = fromItems.map(toComparedMessage);
+  const to = toItems.map(toComparedMessage);
+  const ops = diffSequences(from, to, (a, b) => a.role === b.role && a.content === b.content);
+  const result: MessageDiff[] = [];
+
+  let removed: Extract<DiffOp<ComparedMessage>, { type: 'removed' }>[] = [];
+  let added: Extract<DiffOp<ComparedMessage>, { type: 'added' }>[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let i = 0; i < paired; i++) {
+      const before = removed[i].from;
+      const after = added[i].to;
+      result.push({
+        status: 'changed',
+        fromIndex: removed[i].fromIndex,
+        toIndex: added[i].toIndex,
+        fromRole: before.role,
+        toRole: after.role,
+        roleChanged: before.role !== after.role,
+        contentChanged: before.content !== after.content,
+        ...(before.content !== after.content && { diff: unifiedDiff(before.content, after.content) }),
+      });
+    }
+    for (const op of removed.slice(paired)) {
+      result.push({ status: 'removed', fromIndex: op.fromIndex, fromRole: op.from.role });
+    }
+    for (const op of added.slice(paired)) {
+      result.push({ status: 'added', toIndex: op.toIndex, toRole: op.to.role });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const op of ops) {
+    if (op.type === 'removed') {
+      removed.push(op);
+    } else if (op.type === 'added') {
+      added.push(op);
+    } else {
+      flush();
+      result.push({ status: 'unchanged', fromIndex: op.fromIndex, toIndex: op.toIndex, fromRole: op.from.role, toRole: op.to.role });
+    }
+  }
+  flush();
+
+  return result;
+}
+
+/**
+ * Key-by-key diff of two prompt configs
+ */
+export function diffConfig(from: PromptConfig = {}, to: PromptConfig = {}): ConfigDiff[] {
+  const before = from as Record<string, unknown>;
+  const after = to as Record<string, unknown>;
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+  const changes: ConfigDiff[] = [];
+  for (const key of keys) {
+    if (!(key in before)) {
+      changes.push({ key, change: 'added', to: after[key] });
+    } else if (!(key in after)) {
+      changes.push({ key, change: 'removed', from: before[key] });
+    } else if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changes.push({ key, change: 'changed', from: before[key], to: after[key] });
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,89 @@
+// File-backed cache storage that survives server restarts
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { CacheBackend, CacheEntry } from '../types/index.js';
+
+/**
+ * Keeps entries in memory and writes them through to a JSON file.
+ * An unreadable or corrupt file is treated as an empty cache.
+ */
+export class FileCacheBackend<T> implements CacheBackend<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+
+  constructor(private filePath: string) {
+    this.load();
+  }
+
+  /**
+   * Create a backend storing the named cache in the given directory
+   */
+  static forCache<T>(directory: string, name: string): FileCacheBackend<T> {
+    return new FileCacheBackend<T>(join(directory, `${encodeURIComponent(name)}.json`));
+  }
+
+  get(key: string): CacheEntry<T> | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, entry: CacheEntry<T>): void {
+    this.entries.set(key, entry);
+    this.persist();
+  }
+
+  delete(key: string): boolean {
+    const deleted = this.entries.delete(key);
+    if (deleted) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  clear(): void {
+    if (this.entries.size > 0) {
+      this.entries.clear();
+      this.persist();
+    }
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Load entries from disk
+   */
+  private load(): void {
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const stored = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+      for (const [key, entry] of Object.entries(stored.entries || {})) {
+        this.entries.set(key, entry as CacheEntry<T>);
+      }
+    } catch (error: any) {
+      console.error(`Ignoring unreadable cache file ${this.filePath}:`, error.message);
+    }
+  }
+
+  /**
+   * Write entries to disk atomically
+   */
+  private persist(): void {
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      writeFileSync(tempPath, JSON.stringify({ entries: Object.fromEntries(this.entries) }));
+      renameSync(tempPath, this.filePath);
+    } catch (error: any) {
+      // The in-memory entries stay valid, only persistence is lost
+      console.error(`Failed to write cache file ${this.filePath}:`, error.message);
+    }
+  }
+}
@@ -0,0 +1,58 @@
+// Sandbox root for file system paths passed to tools
+
+import { existsSync, realpathSync } from 'node:fs';
+import { dirname, isAbsolute, relative, resolve, sep } from 'node:path';
+import { ValidationError } from '../types/index.js';
+
+function isInside(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+}
+
+/**
+ * Resolve a path through symbolic links, for its longest existing part
+ */
+function realPath(path: string): string {
+  let existing = path;
+  const rest: string[] = [];
+  while (!existsSync(existing) && dirname(existing) !== existing) {
+    rest.unshift(existing.slice(dirname(existing).length).replace(/^[\\/]/, ''));
+    existing = dirname(existing);
+  }
+  return resolve(realpathSync(existing), ...rest);
+}
+
+/**
+ * Keeps tool file access below one configured root directory. Without a
+ * root, tools cannot read or write files at all.
+ */
+export class FileSandbox {
+  private root?: string;
+
+  constructor(root?: string) {
+    this.configure(root);
+  }
+
+  /**
+   * Replace the root, e.g. after a configuration reload
+   */
+  configure(root?: string): void {
+    this.root = root ? resolve(root) : undefined;
+  }
+
+  /**
+   * Resolve a path relative to the root, rejecting paths that leave it,
+   * also through symbolic links
+   */
+  resolve(path: string): string {
+    if (!this.root) {
+      throw new ValidationError('path', 'File access is disabled, set files.root in the config to allow it');
+    }
+
+    const resolved = resolve(this.root, path);
+    if (!isInside(this.root, resolved) || (existsSync(this.root) && !isInside(realPath(this.root), realPath(resolved)))) {
+      throw new ValidationError('path', `Path '${path}' is outside of the files root ${this.root}`);
+    }
+    return resolved;
+  }
+}
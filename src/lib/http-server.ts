@@ -0,0 +1,198 @@
+// HTTP transport for serving the MCP server to several clients at once
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { HttpTransportOptions } from '../types/index.js';
+
+type Session =
+  | { type: 'streamable'; transport: StreamableHTTPServerTransport; server: McpServer; idleTimer?: NodeJS.Timeout }
+  | { type: 'sse'; transport: SSEServerTransport; server: McpServer };
+
+export interface HttpServerHandle {
+  server: Server;
+  // End all sessions, then stop the server
+  close(): Promise<void>;
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const body = Buffer.concat(chunks).toString('utf-8');
+  return body ? JSON.parse(body) : undefined;
+}
+
+/**
+ * Write a JSON-RPC error response
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  }));
+}
+
+/**
+ * Start an HTTP server exposing MCP over Streamable HTTP, with the legacy
+ * HTTP+SSE transport as a fallback for older clients.
+ *
+ * Every client session gets its own McpServer instance from the factory.
+ * Streamable HTTP sessions without requests for sessionIdleTimeoutMs are
+ * closed, since clients may go away without ending their session. Legacy
+ * SSE sessions end with their connection.
+ */
+export async function startHttpServer(
+  serverFactory: () => Promise<McpServer>,
+  options: HttpTransportOptions
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+
+  const closeSession = (session: Session): Promise<void> => {
+    if (session.type === 'streamable') {
+      clearTimeout(session.idleTimer);
+    }
+    return session.transport.close().catch(() => undefined);
+  };
+
+  // Restart the idle timer of a session on each request
+  const touch = (id: string, session: Session): void => {
+    if (session.type !== 'streamable' || options.sessionIdleTimeoutMs <= 0) {
+      return;
+    }
+    clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(() => {
+      sessions.delete(id);
+      void closeSession(session);
+    }, options.sessionIdleTimeoutMs);
+    session.idleTimer.unref();
+  };
+
+  const handleStreamableRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || session.type !== 'streamable') {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      touch(sessionId, session);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const server = await serverFactory();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        const session: Session = { type: 'streamable', transport, server };
+        sessions.set(id, session);
+        touch(id, session);
+      },
+    });
+
+    transport.onclose = () => {
+      const session = transport.sessionId ? sessions.get(transport.sessionId) : undefined;
+      if (session?.type === 'streamable') {
+        clearTimeout(session.idleTimer);
+        sessions.delete(transport.sessionId!);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseConnect = async (res: ServerResponse): Promise<void> => {
+    const server = await serverFactory();
+    const transport = new SSEServerTransport(options.messagesPath, res);
+    sessions.set(transport.sessionId, { type: 'sse', transport, server });
+
+    res.on('close', () => {
+      sessions.delete(transport.sessionId);
+    });
+
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> => {
+    const sessionId = url.searchParams.get('sessionId') || '';
+    const session = sessions.get(sessionId);
+    if (!session || session.type !== 'sse') {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    await session.transport.handlePostMessage(req, res, body);
+  };
+
+  const httpServer = createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+      if (url.pathname === options.path) {
+        await handleStreamableRequest(req, res);
+      } else if (url.pathname === options.ssePath && req.method === 'GET') {
+        await handleSseConnect(res);
+      } else if (url.pathname === options.messagesPath && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        res.writeHead(404).end();
+      }
+    } catch (error: any) {
+      console.error('Error handling HTTP request:', error.message);
+      if (!res.headersSent) {
+        const isParseError = error instanceof SyntaxError;
+        sendJsonRpcError(
+          res,
+          isParseError ? 400 : 500,
+          isParseError ? -32700 : -32603,
+          isParseError ? 'Parse error' : 'Internal server error'
+        );
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return {
+    server: httpServer,
+    // Sessions end first, since open event streams would otherwise keep
+    // the server from ever closing
+    close: async () => {
+      const closing = Array.from(sessions.values(), closeSession);
+      sessions.clear();
+      const closed = new Promise<void>((resolve, reject) => {
+        httpServer.close(error => (error ? reject(error) : resolve()));
+      });
+      await Promise.all(closing);
+      // Connections of the ended streams only become idle now
+      httpServer.closeIdleConnections();
+      await closed;
+    },
+  };
+}
@@ -0,0 +1,80 @@
+// Journal of label moves made through this server, used to find rollback targets
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+export interface LabelMove {
+  timestamp: string;
+  project: string;
+  name: string;
+  label: string;
+  fromVersion?: number;
+  toVersion: number;
+  reason: 'promote' | 'rollback';
+}
+
+/**
+ * Append-only JSONL log of label moves. Langfuse does not keep a history of
+ * labels, so this is the only record of which version held a label before.
+ */
+export class LabelJournal {
+  constructor(private filePath?: string) {}
+
+  /**
+   * Change the journal file, e.g. after a configuration reload
+   */
+  configure(filePath?: string): void {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Append a label move
+   */
+  record(move: Omit<LabelMove, 'timestamp'>): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      appendFileSync(this.filePath, JSON.stringify({ timestamp: new Date().toISOString(), ...move }) + '\n');
+    } catch (error: any) {
+      console.error(`Failed to write label journal ${this.filePath}:`, error.message);
+    }
+  }
+
+  /**
+   * Find the last promotion that moved a label onto a version. Rollbacks are
+   * skipped so repeated rollbacks keep walking back instead of toggling.
+   */
+  findPromotion(project: string, name: string, label: string, toVersion: number): LabelMove | undefined {
+    return this.read()
+      .filter(move =>
+        move.project === project &&
+        move.name === name &&
+        move.label === label &&
+        move.toVersion === toVersion &&
+        move.reason === 'promote'
+      )
+      .pop();
+  }
+
+  private read(): LabelMove[] {
+    if (!this.filePath || !existsSync(this.filePath)) {
+      return [];
+    }
+
+    const moves: LabelMove[] = [];
+    for (const line of readFileSync(this.filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        moves.push(JSON.parse(line));
+      } catch {
+        // Skip lines torn by an interrupted write
+      }
+    }
+    return moves;
+  }
+}
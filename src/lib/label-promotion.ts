@@ -0,0 +1,148 @@
+// Moving a label between prompt versions with verification and rollback
+
+import { LangfuseAPIClient } from './langfuse-client.js';
+import { APIError, PromptVersion } from '../types/index.js';
+
+// Labels maintained by Langfuse itself, never written by the server
+const MANAGED_LABELS = ['latest'];
+
+export interface LabelChange {
+  version: number;
+  before: string[];
+  after: string[];
+}
+
+export interface LabelPromotion {
+  name: string;
+  label: string;
+  version: number;
+  previousVersion?: number;
+  changes: LabelChange[];
+}
+
+/**
+ * Get the version currently holding a label, if any
+ */
+async function findLabelHolder(
+  client: LangfuseAPIClient,
+  name: string,
+  label: string
+): Promise<PromptVersion | undefined> {
+  try {
+    return await client.getPrompt({ name, label });
+  } catch (error) {
+    if (error instanceof APIError && error.status === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Labels to write back for a version, without duplicates or managed labels
+ */
+function writableLabels(labels: string[]): string[] {
+  return Array.from(new Set(labels.filter(label => !MANAGED_LABELS.includes(label))));
+}
+
+/**
+ * Move a label to the given version, keeping all other labels of both
+ * versions. The result is checked afterwards, and label changes made so
+ * far are reverted when any step fails.
+ */
+export async function promoteLabel(
+  client: LangfuseAPIClient,
+  params: { name: string; version: number; label: string }
+): Promise<LabelPromotion> {
+  const { name, version, label } = params;
+  const [target, holder] = await Promise.all([
+    client.getPrompt({ name, version }),
+    findLabelHolder(client, name, label),
+  ]);
+
+  const promotion: LabelPromotion = { name, label, version, previousVersion: holder?.version, changes: [] };
+  if (holder?.version === version) {
+    return promotion;
+  }
+
+  // Add the label first and remove it from the old version second, so the
+  // label never points nowhere
+  const planned: LabelChange[] = [{
+    version,
+    before: writableLabels(target.labels),
+    after: writableLabels([...target.labels, label]),
+  }];
+  if (holder) {
+    planned.push({
+      version: holder.version,
+      before: writableLabels(holder.labels),
+      after: writableLabels(holder.labels.filter(l => l !== label)),
+    });
+  }
+
+  const applied: LabelChange[] = [];
+  try {
+    for (const change of planned) {
+      await client.updatePromptLabels({ name, version: change.version, newLabels: change.after });
+      applied.push(change);
+    }
+    await verifyLabels(client, name, label, planned);
+  } catch (error: any) {
+    // Langfuse moves a label off other versions when it is added, so once
+    // anything was written every planned version is restored
+    await revertLabels(client, name, applied.length > 0 ? planned : [], error);
+    const outcome = applied.length > 0 ? 'failed and was rolled back' : 'failed';
+    throw new Error(`Promotion of '${label}' to version ${version} ${outcome}: ${error.message}`);
+  }
+
+  promotion.changes = applied;
+  return promotion;
+}
+
+/**
+ * Check that every version has its expected labels and the label
+ * resolves to the promoted version
+ */
+async function verifyLabels(
+  client: LangfuseAPIClient,
+  name: string,
+  label: string,
+  changes: LabelChange[]
+): Promise<void> {
+  const versions = await client.getPromptVersions(name, changes.map(change => change.version));
+
+  for (const change of changes) {
+    const actual = versions.find(prompt => prompt.version === change.version);
+    const missing = change.after.filter(l => !actual?.labels.includes(l));
+    const removed = change.before.filter(l => !change.after.includes(l) && actual?.labels.includes(l));
+    if (!actual || missing.length > 0 || removed.length > 0) {
+      throw new Error(`Version ${change.version} has labels [${actual?.labels.join(', ') ?? ''}], expected [${change.after.join(', ')}]`);
+    }
+  }
+
+  const holder = await findLabelHolder(client, name, label);
+  if (holder?.version !== changes[0].version) {
+    throw new Error(`Label '${label}' resolves to version ${holder?.version ?? 'none'}, expected ${changes[0].version}`);
+  }
+}
+
+/**
+ * Restore the labels of changed versions in reverse order
+ */
+async function revertLabels(
+  client: LangfuseAPIClient,
+  name: string,
+  changes: LabelChange[],
+  cause: Error
+): Promise<void> {
+  for (const change of [...changes].reverse()) {
+    try {
+      await client.updatePromptLabels({ name, version: change.version, newLabels: change.before });
+    } catch (error: any) {
+      const manual = changes.map(c => `version ${c.version}: [${c.before.join(', ')}]`).join('; ');
+      throw new Error(
+        `${cause.message}. Rolling back failed (${error.message}), restore labels manually: ${manual}`
+      );
+    }
+  }
+}
@@ -5,20 +5,40 @@ import {
   APIError,
   AuthenticationError,
   RateLimitError,
+  CircuitOpenError,
+  CassetteError,
+  RetryPolicy,
+  RequestOptions,
+  SchedulerStats,
   PaginatedResponse,
   PromptListItem,
   PromptVersion,
   CreatePromptParams,
   UpdatePromptLabelsParams,
 } from '../types/index.js';
+import {
+  CircuitBreaker,
+  CircuitState,
+  DEFAULT_RETRY_POLICY,
+  computeBackoff,
+  isRetryable,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from './retry.js';
+import { RequestScheduler } from './scheduler.js';
+import { Cassette } from './cassette.js';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 export class LangfuseAPIClient {
   private auth: string;
   private baseUrl: string;
   private requestTimeout: number;
-  private maxRetries: number;
+  private retryPolicy: RetryPolicy;
+  private circuitBreaker: CircuitBreaker;
+  private scheduler: RequestScheduler;
 
-  constructor(config: LangfuseConfig) {
+  constructor(config: LangfuseConfig, private cassette?: Cassette) {
     if (!config.publicKey || !config.secretKey) {
       throw new AuthenticationError('Missing Langfuse API credentials');
     }
@@ -27,18 +47,37 @@ export class LangfuseAPIClient {
     this.auth = Buffer.from(`${config.publicKey}:${config.secretKey}`).toString('base64');
     this.baseUrl = config.baseUrl || 'https://cloud.langfuse.com';
     this.requestTimeout = config.requestTimeout || 30000;
-    this.maxRetries = config.maxRetries || 3;
+    this.retryPolicy = resolveRetryPolicy({
+      maxRetries: config.maxRetries ?? DEFAULT_RETRY_POLICY.maxRetries,
+      ...config.retryPolicy,
+    });
+    this.circuitBreaker = new CircuitBreaker(this.retryPolicy.circuitBreaker);
+    this.scheduler = new RequestScheduler(config.rateLimit);
   }
 
   /**
-   * Make an authenticated request to the Langfuse API
+   * Get the current circuit breaker state
    */
-  private async request<T>(
-    method: string,
-    path: string,
-    data?: any,
-    retryCount = 0
-  ): Promise<T> {
+  getCircuitState(): CircuitState {
+    return this.circuitBreaker.getState();
+  }
+
+  /**
+   * Get request queue depth and rate limit statistics
+   */
+  getSchedulerStats(): SchedulerStats {
+    return this.scheduler.getStats();
+  }
+
+  /**
+   * Send a single request with timeout, recording or replaying it when a
+   * cassette is attached
+   */
+  private async send(method: string, path: string, data?: any): Promise<Response> {
+    if (this.cassette?.mode === 'replay') {
+      return this.cassette.replay(method, path, data);
+    }
+
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), this.requestTimeout);
 
@@ -53,13 +92,76 @@ export class LangfuseAPIClient {
         body: data ? JSON.stringify(data) : undefined,
         signal: controller.signal,
       });
-
+      return this.cassette ? await this.cassette.record(method, path, data, response) : response;
+    } finally {
       clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Make an authenticated request to the Langfuse API, retrying according
+   * to the retry policy
+   */
+  private async request<T>(
+    method: string,
+    path: string,
+    data?: any,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const policy = this.retryPolicy;
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < policy.maxRetries;
+
+      // Fail fast while Langfuse is known to be down
+      if (!this.circuitBreaker.canRequest()) {
+        throw new CircuitOpenError(this.circuitBreaker.getRetryAt());
+      }
+
+      let response: Response;
+      try {
+        // Every attempt waits for its turn in the shared rate limit
+        response = await this.scheduler.schedule(
+          () => this.send(method, path, data),
+          options.priority
+        );
+      } catch (error: any) {
+        // Replay mismatches are test failures, not outages
+        if (error instanceof CassetteError) {
+          this.circuitBreaker.releaseTrial();
+          throw error;
+        }
+
+        // Network errors and timeouts
+        this.circuitBreaker.recordFailure();
+        const failure = error.name === 'AbortError' ? new APIError(408, 'Request timeout') : error;
 
-      // Handle rate limiting
+        if (canRetry && isRetryable(policy, method, { networkError: true })) {
+          await sleep(computeBackoff(attempt, policy));
+          continue;
+        }
+        throw failure;
+      }
+
+      // Server errors count towards the circuit breaker, anything else shows Langfuse is up
+      if (response.status >= 500) {
+        this.circuitBreaker.recordFailure();
+      } else {
+        this.circuitBreaker.recordSuccess();
+      }
+
+      if (response.ok) {
+        return response.json();
+      }
+
+      // Handle rate limiting, waiting out Retry-After when it is reasonable
       if (response.status === 429) {
-        const retryAfter = parseInt(response.headers.get('Retry-After') || '60');
-        throw new RateLimitError(retryAfter);
+        const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+        if (canRetry && (retryAfterMs ?? 0) <= policy.maxRetryAfterMs) {
+          await sleep(retryAfterMs ?? computeBackoff(attempt, policy));
+          continue;
+        }
+        throw new RateLimitError(Math.ceil((retryAfterMs ?? 60000) / 1000));
       }
 
       // Handle authentication errors
@@ -68,37 +170,20 @@ export class LangfuseAPIClient {
       }
 
       // Handle other errors
-      if (!response.ok) {
-        const errorText = await response.text();
-        let errorDetails;
-        try {
-          errorDetails = JSON.parse(errorText);
-        } catch {
-          errorDetails = errorText;
-        }
-        throw new APIError(response.status, `API request failed`, errorDetails);
+      if (canRetry && isRetryable(policy, method, { status: response.status })) {
+        await response.body?.cancel();
+        await sleep(computeBackoff(attempt, policy));
+        continue;
       }
 
-      return response.json();
-    } catch (error: any) {
-      clearTimeout(timeout);
-
-      // Handle timeout
-      if (error.name === 'AbortError') {
-        throw new APIError(408, 'Request timeout');
-      }
-
-      // Retry on network errors or 5xx errors
-      if (
-        retryCount < this.maxRetries &&
-        (error.name === 'FetchError' || (error instanceof APIError && error.status >= 500))
-      ) {
-        const delay = Math.pow(2, retryCount) * 1000; // Exponential backoff
-        await new Promise(resolve => setTimeout(resolve, delay));
-        return this.request<T>(method, path, data, retryCount + 1);
+      const errorText = await response.text();
+      let errorDetails;
+      try {
+        errorDetails = JSON.parse(errorText);
+      } catch {
+        errorDetails = errorText;
       }
-
-      throw error;
+      throw new APIError(response.status, `API request failed`, errorDetails);
     }
   }
 
@@ -111,7 +196,7 @@ export class LangfuseAPIClient {
     tag?: string;
     page?: number;
     limit?: number;
-  }): Promise<PaginatedResponse<PromptListItem>> {
+  }, options?: RequestOptions): Promise<PaginatedResponse<PromptListItem>> {
     const queryParams = new URLSearchParams();
     
     if (params.name) queryParams.append('name', params.name);
@@ -123,7 +208,7 @@ export class LangfuseAPIClient {
     const queryString = queryParams.toString();
     const path = `/prompts${queryString ? `?${queryString}` : ''}`;
 
-    return this.request<PaginatedResponse<PromptListItem>>('GET', path);
+    return this.request<PaginatedResponse<PromptListItem>>('GET', path, undefined, options);
   }
 
   /**
@@ -133,7 +218,7 @@ export class LangfuseAPIClient {
     name: string;
     version?: number;
     label?: string;
-  }): Promise<PromptVersion> {
+  }, options?: RequestOptions): Promise<PromptVersion> {
     const { name, version, label } = params;
     
     // URL encode the name to handle special characters like "/"
@@ -147,13 +232,59 @@ export class LangfuseAPIClient {
       path += `?label=${encodeURIComponent(label)}`;
     }
 
-    return this.request<PromptVersion>('GET', path);
+    return this.request<PromptVersion>('GET', path, undefined, options);
+  }
+
+  /**
+   * List the version numbers of a prompt in ascending order
+   */
+  async listPromptVersions(name: string, options?: RequestOptions): Promise<number[]> {
+    const response = await this.listPrompts({ name, limit: 100 }, options);
+    const item = response.data.find(p => p.name === name);
+    if (!item) {
+      throw new APIError(404, `Prompt '${name}' not found`);
+    }
+
+    // Older servers only report the latest version number
+    const versions = item.versions ?? Array.from({ length: item.latestVersion }, (_, i) => i + 1);
+    return [...versions].sort((a, b) => a - b);
+  }
+
+  /**
+   * Get the given versions of a prompt in ascending order, skipping
+   * versions that no longer exist
+   */
+  async getPromptVersions(
+    name: string,
+    versions: number[],
+    options?: RequestOptions
+  ): Promise<PromptVersion[]> {
+    const prompts = await Promise.all(versions.map(version =>
+      this.getPrompt({ name, version }, options).catch(error => {
+        if (error instanceof APIError && error.status === 404) {
+          return null;
+        }
+        throw error;
+      })
+    ));
+
+    return prompts
+      .filter((prompt): prompt is PromptVersion => prompt !== null)
+      .sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Get every version of a prompt in ascending order
+   */
+  async getPromptHistory(name: string, options?: RequestOptions): Promise<PromptVersion[]> {
+    const versions = await this.listPromptVersions(name, options);
+    return this.getPromptVersions(name, versions, options);
   }
 
   /**
    * Create a new prompt or version
    */
-  async createPrompt(params: CreatePromptParams): Promise<PromptVersion> {
+  async createPrompt(params: CreatePromptParams, options?: RequestOptions): Promise<PromptVersion> {
     // Validate prompt content matches type
     if (params.type === 'chat' && !Array.isArray(params.prompt)) {
       throw new Error('Chat prompts must be an array of messages');
@@ -162,20 +293,20 @@ export class LangfuseAPIClient {
       throw new Error('Text prompts must be a string');
     }
 
-    return this.request<PromptVersion>('POST', '/prompts', params);
+    return this.request<PromptVersion>('POST', '/prompts', params, options);
   }
 
   /**
    * Update labels for a specific prompt version
    */
-  async updatePromptLabels(params: UpdatePromptLabelsParams): Promise<PromptVersion> {
+  async updatePromptLabels(params: UpdatePromptLabelsParams, options?: RequestOptions): Promise<PromptVersion> {
     const { name, version, newLabels } = params;
     
     // URL encode the name
     const encodedName = encodeURIComponent(name);
     const path = `/prompts/${encodedName}/versions/${version}`;
 
-    return this.request<PromptVersion>('PATCH', path, { labels: newLabels });
+    return this.request<PromptVersion>('PATCH', path, { labels: newLabels }, options);
   }
 
   /**
@@ -194,18 +325,9 @@ export class LangfuseAPIClient {
    * Batch update labels for multiple prompt versions
    */
   async batchUpdateLabels(updates: UpdatePromptLabelsParams[]): Promise<PromptVersion[]> {
-    // Execute updates in parallel with controlled concurrency
-    const concurrency = 5;
-    const results: PromptVersion[] = [];
-    
-    for (let i = 0; i < updates.length; i += concurrency) {
-      const batch = updates.slice(i, i + concurrency);
-      const batchResults = await Promise.all(
-        batch.map(update => this.updatePromptLabels(update))
-      );
-      results.push(...batchResults);
-    }
-    
-    return results;
+    // Concurrency and rate are bounded by the shared scheduler
+    return Promise.all(
+      updates.map(update => this.updatePromptLabels(update, { priority: 'bulk' }))
+    );
   }
 }
\ No newline at end of file
@@ -0,0 +1,147 @@
+// Model price table and prompt cost estimates
+
+import { ChatPromptItem } from '../types/index.js';
+import { countPromptTokens } from './tokenizer.js';
+
+// Prices in USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output?: number;
+  contextWindow?: number;
+}
+
+// List prices at the time of writing, override them with the pricing config
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10, contextWindow: 128000 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, contextWindow: 128000 },
+  'gpt-4.1': { input: 2, output: 8, contextWindow: 1047576 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, contextWindow: 1047576 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4, contextWindow: 1047576 },
+  'o3': { input: 2, output: 8, contextWindow: 200000 },
+  'o4-mini': { input: 1.1, output: 4.4, contextWindow: 200000 },
+  'claude-opus-4': { input: 15, output: 75, contextWindow: 200000 },
+  'claude-sonnet-4': { input: 3, output: 15, contextWindow: 200000 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, contextWindow: 200000 },
+  'gemini-2.5-pro': { input: 1.25, output: 10, contextWindow: 1048576 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, contextWindow: 1048576 },
+};
+
+export interface CostEstimate {
+  model?: string;
+  pricedAs?: string;
+  family: string;
+  tokenizer: string;
+  exactTokenizer: boolean;
+  inputTokens: number;
+  messages: number;
+  images: number;
+  maxOutputTokens?: number;
+  contextWindow?: number;
+  fitsContextWindow?: boolean;
+  inputCost?: number;
+  maxOutputCost?: number;
+  maxTotalCost?: number;
+  currency: 'USD';
+  warnings: string[];
+}
+
+const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+// Suffixes naming a snapshot of a model rather than another model: dates
+// such as 2024-08-06, 20250514 or 0613, revisions such as 001 or v1:0, and latest
+const SNAPSHOT_SUFFIX_REGEX = /^(\d{4}-\d{2}-\d{2}|\d{8}|\d{3,4}|v\d+(?:[.:]\d+)*|latest)$/;
+
+/**
+ * Price table of the configured prices on top of the defaults
+ */
+export class ModelPricing {
+  private prices: Record<string, ModelPrice> = {};
+
+  constructor(prices: Record<string, ModelPrice> = {}) {
+    this.configure(prices);
+  }
+
+  /**
+   * Replace the configured prices, e.g. after a configuration reload
+   */
+  configure(prices: Record<string, ModelPrice> = {}): void {
+    this.prices = { ...DEFAULT_MODEL_PRICES, ...prices };
+  }
+
+  /**
+   * Find the price of a model by exact name, or by the name it extends with
+   * a date or version suffix, so gpt-4o-2024-08-06 matches gpt-4o. Other
+   * variants such as o3-mini are different models and have no price.
+   */
+  find(model: string): { name: string; price: ModelPrice } | undefined {
+    if (this.prices[model]) {
+      return { name: model, price: this.prices[model] };
+    }
+    const name = Object.keys(this.prices)
+      .filter(candidate =>
+        model.startsWith(`${candidate}-`) && SNAPSHOT_SUFFIX_REGEX.test(model.slice(candidate.length + 1))
+      )
+      .sort((a, b) => b.length - a.length)[0];
+    return name ? { name, price: this.prices[name] } : undefined;
+  }
+
+  /**
+   * Estimate the token count and cost of a compiled prompt. Output cost is
+   * an upper bound from maxTokens.
+   */
+  estimate(prompt: string | ChatPromptItem[], model?: string, maxOutputTokens?: number): CostEstimate {
+    const count = countPromptTokens(prompt, model);
+    const warnings: string[] = [];
+    const estimate: CostEstimate = {
+      model,
+      family: count.family,
+      tokenizer: count.tokenizer,
+      exactTokenizer: count.exact,
+      inputTokens: count.tokens,
+      messages: count.messages,
+      images: count.images,
+      maxOutputTokens,
+      currency: 'USD',
+      warnings,
+    };
+
+    if (!model) {
+      warnings.push('No model in config or input, tokens are counted with o200k_base and cost is unknown');
+      return estimate;
+    }
+    if (!count.exact) {
+      warnings.push(`No local tokenizer for ${model}, tokens are approximated with ${count.tokenizer}`);
+    }
+    if (count.images > 0) {
+      warnings.push(`Images are counted as ${count.images} fixed-size image(s), actual tokens depend on their size`);
+    }
+
+    const found = this.find(model);
+    if (!found) {
+      warnings.push(`No price for model '${model}', add it to the pricing config`);
+      return estimate;
+    }
+    const { price } = found;
+    estimate.pricedAs = found.name;
+    estimate.inputCost = round(count.tokens * price.input / 1e6);
+
+    if (maxOutputTokens !== undefined && price.output !== undefined) {
+      estimate.maxOutputCost = round(maxOutputTokens * price.output / 1e6);
+      estimate.maxTotalCost = round(estimate.inputCost + estimate.maxOutputCost);
+    } else if (maxOutputTokens === undefined) {
+      warnings.push('Config has no maxTokens, output cost is not bounded');
+    }
+
+    if (price.contextWindow !== undefined) {
+      estimate.contextWindow = price.contextWindow;
+      estimate.fitsContextWindow = count.tokens + (maxOutputTokens ?? 0) <= price.contextWindow;
+      if (!estimate.fitsContextWindow) {
+        warnings.push(
+          `${count.tokens} input tokens${maxOutputTokens !== undefined ? ` plus maxTokens ${maxOutputTokens}` : ''} ` +
+          `exceed the ${price.contextWindow} token context window of ${found.name}`
+        );
+      }
+    }
+    return estimate;
+  }
+}
@@ -0,0 +1,476 @@
+// Mustache template engine for prompt compilation
+
+import { TemplateError, ValidationError } from '../types/index.js';
+
+// Valid variable names: identifiers, optionally dotted (user.name)
+export const VARIABLE_NAME_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z_][a-zA-Z0-9_]*)*$/;
+
+interface TextNode {
+  type: 'text';
+  value: string;
+}
+
+interface TagNode {
+  type: '#' | '^' | '/' | '!' | '>' | '=' | '&' | 'name';
+  value: string;
+  source: string;
+  start: number;
+  indent?: string;
+}
+
+interface SectionNode {
+  type: '#' | '^';
+  value: string;
+  source: string;
+  start: number;
+  children: TemplateNode[];
+}
+
+// Tags that stay in the parsed tree, sections become SectionNodes
+type LeafNode = TagNode & { type: 'name' | '&' | '>' };
+
+type TemplateNode = TextNode | LeafNode | SectionNode;
+
+export interface RenderOptions {
+  // Fail on missing arguments and on arguments the templates do not use
+  strict?: boolean;
+  // Templates available to {{> name}} tags
+  partials?: Record<string, string>;
+  // Escaping of {{name}} output; {{{name}}} and {{&name}} are never escaped
+  escape?: 'none' | 'html';
+}
+
+// Partials including partials deeper than this most likely include themselves
+export const MAX_PARTIAL_DEPTH = 32;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Split a template into text and tag tokens. Section, comment, partial and
+ * delimiter tags that stand alone on a line remove that line, as in the
+ * Mustache spec.
+ */
+function tokenize(template: string): (TextNode | TagNode)[] {
+  let open = '{{';
+  let close = '}}';
+  const tokens: ((TextNode | TagNode) | undefined)[] = [];
+
+  // Per-line state for standalone tags
+  let spaces: number[] = [];
+  let lineTags: TagNode[] = [];
+  let hasTag = false;
+  let nonSpace = false;
+
+  const endLine = () => {
+    if (hasTag && !nonSpace && lineTags.length === 1) {
+      for (const index of spaces) {
+        tokens[index] = undefined;
+      }
+    } else {
+      // Partials only keep their indentation when standalone
+      for (const tag of lineTags) {
+        delete tag.indent;
+      }
+    }
+    spaces = [];
+    lineTags = [];
+    hasTag = false;
+    nonSpace = false;
+  };
+
+  let pos = 0;
+  while (pos < template.length) {
+    const tagStart = template.indexOf(open, pos);
+    const textEnd = tagStart === -1 ? template.length : tagStart;
+
+    for (let i = pos; i < textEnd; i++) {
+      const char = template[i];
+      if (/\s/.test(char)) {
+        spaces.push(tokens.length);
+      } else {
+        nonSpace = true;
+      }
+      tokens.push({ type: 'text', value: char });
+      if (char === '\n') {
+        endLine();
+      }
+    }
+    if (tagStart === -1) {
+      break;
+    }
+
+    let contentStart = tagStart + open.length;
+    const marker = template[contentStart];
+    let type: TagNode['type'] = 'name';
+    let closeTag = close;
+    if (marker === '{') {
+      // Triple mustache is the unescaped form, like {{&name}}
+      type = '&';
+      closeTag = `}${close}`;
+      contentStart++;
+    } else if (marker !== undefined && '#^/!>=&'.includes(marker)) {
+      type = marker as TagNode['type'];
+      closeTag = marker === '=' ? `=${close}` : close;
+      contentStart++;
+    }
+
+    const contentEnd = template.indexOf(closeTag, contentStart);
+    if (contentEnd === -1) {
+      throw new TemplateError(`Unclosed tag at position ${tagStart}`, tagStart);
+    }
+    const value = template.slice(contentStart, contentEnd).trim();
+    const end = contentEnd + closeTag.length;
+
+    if (type !== '!' && !value) {
+      throw new TemplateError(`Empty tag at position ${tagStart}`, tagStart);
+    }
+
+    const tag: TagNode = { type, value, source: template.slice(tagStart, end), start: tagStart };
+    if (type === 'name' || type === '&') {
+      nonSpace = true;
+    } else {
+      hasTag = true;
+      lineTags.push(tag);
+    }
+
+    if (type === '>' && !nonSpace) {
+      tag.indent = spaces.map(index => (tokens[index] as TextNode).value).join('');
+    }
+
+    if (type === '=') {
+      const delimiters = value.split(/\s+/);
+      if (delimiters.length !== 2) {
+        throw new TemplateError(`Invalid delimiters '${value}' at position ${tagStart}`, tagStart);
+      }
+      [open, close] = delimiters;
+    }
+
+    tokens.push(tag);
+    pos = end;
+  }
+  endLine();
+
+  // Merge adjacent text characters
+  const merged: (TextNode | TagNode)[] = [];
+  for (const token of tokens) {
+    if (!token) {
+      continue;
+    }
+    const last = merged[merged.length - 1];
+    if (token.type === 'text' && last?.type === 'text') {
+      last.value += token.value;
+    } else {
+      merged.push(token.type === 'text' ? { ...token } : token);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Parse a template into a tree of text, tags and sections
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const sections: SectionNode[] = [];
+  let collector = root;
+
+  for (const token of tokenize(template)) {
+    if (token.type === '#' || token.type === '^') {
+      const section: SectionNode = {
+        type: token.type,
+        value: token.value,
+        source: token.source,
+        start: token.start,
+        children: [],
+      };
+      collector.push(section);
+      sections.push(section);
+      collector = section.children;
+    } else if (token.type === '/') {
+      const section = sections.pop();
+      if (!section) {
+        throw new TemplateError(`Unopened section '${token.value}' at position ${token.start}`, token.start);
+      }
+      if (section.value !== token.value) {
+        throw new TemplateError(`Unclosed section '${section.value}' at position ${section.start}`, section.start);
+      }
+      collector = sections.length > 0 ? sections[sections.length - 1].children : root;
+    } else if (token.type === 'text' || token.type === 'name' || token.type === '&' || token.type === '>') {
+      collector.push(token as TextNode | LeafNode);
+    }
+  }
+
+  const unclosed = sections.pop();
+  if (unclosed) {
+    throw new TemplateError(`Unclosed section '${unclosed.value}' at position ${unclosed.start}`, unclosed.start);
+  }
+  return root;
+}
+
+/**
+ * Read a malformed template the way plain variable substitution would:
+ * {{name}} tags with a valid name are variables, anything else is text
+ */
+function parsePlainTemplate(template: string): TemplateNode[] {
+  const nodes: TemplateNode[] = [];
+  const regex = /\{\{([^{}]+)\}\}/g;
+  let pos = 0;
+  let match;
+  while ((match = regex.exec(template)) !== null) {
+    const name = match[1].trim();
+    if (!VARIABLE_NAME_REGEX.test(name)) {
+      continue;
+    }
+    if (match.index > pos) {
+      nodes.push({ type: 'text', value: template.slice(pos, match.index) });
+    }
+    nodes.push({ type: 'name', value: name, source: match[0], start: match.index });
+    pos = match.index + match[0].length;
+  }
+  if (pos < template.length) {
+    nodes.push({ type: 'text', value: template.slice(pos) });
+  }
+  return nodes;
+}
+
+/**
+ * Check that a template is well-formed, throwing a TemplateError otherwise
+ */
+export function validateTemplate(template: string): void {
+  parseTemplate(template);
+}
+
+/**
+ * Context stack used to resolve names, innermost view first
+ */
+class Context {
+  constructor(readonly view: unknown, readonly parent?: Context) {}
+
+  lookup(name: string): { found: boolean; value?: unknown } {
+    if (name === '.') {
+      return { found: true, value: this.view };
+    }
+
+    // The first part of a dotted name is resolved up the stack, the rest strictly
+    const [first, ...rest] = name.split('.');
+    let context: Context | undefined = this;
+    while (context && !hasProperty(context.view, first)) {
+      context = context.parent;
+    }
+    if (!context) {
+      return { found: false };
+    }
+
+    let value = (context.view as Record<string, unknown>)[first];
+    for (const part of rest) {
+      if (!hasProperty(value, part)) {
+        return { found: false };
+      }
+      value = (value as Record<string, unknown>)[part];
+    }
+    return { found: true, value };
+  }
+}
+
+function hasProperty(value: unknown, key: string): boolean {
+  return value !== null && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, key);
+}
+
+function isFalsy(value: unknown): boolean {
+  return !value || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Render several templates that share one set of arguments, such as the
+ * messages of a chat prompt. Without strict mode unknown variables and
+ * partials are left in place so prompts can be compiled partially, and
+ * malformed templates only have their plain {{name}} variables replaced.
+ */
+export function renderTemplates(
+  templates: string[],
+  view: Record<string, unknown>,
+  options: RenderOptions = {}
+): string[] {
+  const parse = (template: string): TemplateNode[] => {
+    try {
+      return parseTemplate(template);
+    } catch (error) {
+      if (options.strict || !(error instanceof TemplateError)) {
+        throw error;
+      }
+      return parsePlainTemplate(template);
+    }
+  };
+
+  const partials = new Map<string, TemplateNode[]>();
+  const getPartial = (name: string): TemplateNode[] | undefined => {
+    const source = options.partials?.[name];
+    if (source === undefined) {
+      return undefined;
+    }
+    if (!partials.has(name)) {
+      partials.set(name, parse(source));
+    }
+    return partials.get(name);
+  };
+
+  const missing = new Set<string>();
+  const missingPartials = new Set<string>();
+  const escape = (text: string) =>
+    options.escape === 'html' ? text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]) : text;
+
+  const render = (nodes: TemplateNode[], context: Context, depth = 0): string => {
+    let output = '';
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          output += node.value;
+          break;
+
+        case 'name':
+        case '&': {
+          const { found, value } = context.lookup(node.value);
+          if (!found) {
+            missing.add(node.value);
+            output += node.source;
+          } else if (value !== undefined && value !== null) {
+            output += node.type === 'name' ? escape(String(value)) : String(value);
+          }
+          break;
+        }
+
+        case '#':
+        case '^': {
+          const { found, value } = context.lookup(node.value);
+          if (!found) {
+            missing.add(node.value);
+          }
+          if (node.type === '^') {
+            output += isFalsy(value) ? render(node.children, context, depth) : '';
+          } else if (Array.isArray(value)) {
+            output += value.map(item => render(node.children, new Context(item, context), depth)).join('');
+          } else if (!isFalsy(value)) {
+            output += render(node.children, new Context(value, context), depth);
+          }
+          break;
+        }
+
+        case '>': {
+          const partial = getPartial(node.value);
+          if (!partial) {
+            missingPartials.add(node.value);
+            output += (node.indent ?? '') + node.source;
+            break;
+          }
+          if (depth >= MAX_PARTIAL_DEPTH) {
+            throw new TemplateError(`Partial '${node.value}' is nested more than ${MAX_PARTIAL_DEPTH} levels deep`, node.start);
+          }
+          const rendered = render(partial, context, depth + 1);
+          output += node.indent ? rendered.replace(/^(?=.)/gm, node.indent) : rendered;
+          break;
+        }
+      }
+    }
+    return output;
+  };
+
+  const root = new Context(view);
+  const results = templates.map(template => render(parse(template), root));
+
+  if (options.strict) {
+    const used = new Set(templates.flatMap(template => collectNames(parseTemplate(template), getPartial)));
+    const problems: string[] = [];
+    if (missing.size > 0) {
+      problems.push(`Missing arguments: ${Array.from(missing).join(', ')}`);
+    }
+    if (missingPartials.size > 0) {
+      problems.push(`Missing partials: ${Array.from(missingPartials).join(', ')}`);
+    }
+    const unexpected = Object.keys(view).filter(name => !used.has(name));
+    if (unexpected.length > 0) {
+      problems.push(`Unexpected arguments: ${unexpected.join(', ')}`);
+    }
+    if (problems.length > 0) {
+      throw new ValidationError('arguments', problems.join('; '));
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Render a single template
+ */
+export function renderTemplate(
+  template: string,
+  view: Record<string, unknown>,
+  options: RenderOptions = {}
+): string {
+  return renderTemplates([template], view, options)[0];
+}
+
+/**
+ * Collect the root names of all tags, including those inside sections and partials
+ */
+function collectNames(
+  nodes: TemplateNode[],
+  getPartial: (name: string) => TemplateNode[] | undefined,
+  seen = new Set<string>()
+): string[] {
+  const names: string[] = [];
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      continue;
+    }
+    if (node.type === '>') {
+      const partial = getPartial(node.value);
+      if (partial && !seen.has(node.value)) {
+        seen.add(node.value);
+        names.push(...collectNames(partial, getPartial, seen));
+      }
+      continue;
+    }
+    if (node.value !== '.') {
+      names.push(node.value.split('.')[0]);
+    }
+    if (node.type === '#' || node.type === '^') {
+      names.push(...collectNames(node.children, getPartial, seen));
+    }
+  }
+  return names;
+}
+
+/**
+ * Get the arguments a template expects: variables and sections outside of
+ * any section, by their root name. Names inside sections may be resolved
+ * from the section's own value and are not listed.
+ */
+export function templateVariables(template: string, partials: Record<string, string> = {}): string[] {
+  const variables = new Set<string>();
+
+  const visit = (nodes: TemplateNode[], seen: Set<string>) => {
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        continue;
+      }
+      if (node.type === '>') {
+        if (partials[node.value] !== undefined && !seen.has(node.value)) {
+          visit(parseTemplate(partials[node.value]), new Set([...seen, node.value]));
+        }
+        continue;
+      }
+      if (VARIABLE_NAME_REGEX.test(node.value)) {
+        variables.add(node.value.split('.')[0]);
+      }
+    }
+  };
+
+  visit(parseTemplate(template), new Set());
+  return Array.from(variables);
+}
@@ -0,0 +1,76 @@
+// Chat message placeholders, filled with message lists at compile time
+
+import { ChatMessage, ChatPlaceholder, ChatPromptItem, ValidationError } from '../types/index.js';
+import { CHAT_ROLES } from './chat-content.js';
+
+// Placeholder names are plain identifiers
+export const PLACEHOLDER_NAME_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+export function isPlaceholder(item: ChatPromptItem): item is ChatPlaceholder {
+  return item.type === 'placeholder';
+}
+
+/**
+ * Get the messages of a chat prompt, without its placeholders
+ */
+export function chatMessages(prompt: ChatPromptItem[]): ChatMessage[] {
+  return prompt.filter((item): item is ChatMessage => !isPlaceholder(item));
+}
+
+/**
+ * Get the placeholder names of a prompt, in order of appearance
+ */
+export function extractPlaceholders(prompt: string | ChatPromptItem[]): string[] {
+  if (typeof prompt === 'string') {
+    return [];
+  }
+  return Array.from(new Set(prompt.filter(isPlaceholder).map(item => item.name)));
+}
+
+/**
+ * Read the messages passed for a placeholder. MCP prompt arguments are
+ * strings, so a JSON encoded array is accepted as well.
+ */
+function parsePlaceholderValue(name: string, value: unknown): ChatMessage[] {
+  let messages = value;
+  if (typeof value === 'string') {
+    try {
+      messages = JSON.parse(value);
+    } catch {
+      throw new ValidationError('arguments', `Placeholder '${name}' must be an array of messages or its JSON encoding`);
+    }
+  }
+
+  const valid = Array.isArray(messages) && messages.every(message =>
+    message !== null &&
+    typeof message === 'object' &&
+    CHAT_ROLES.includes(message.role) &&
+    (typeof message.content === 'string' || Array.isArray(message.content))
+  );
+  if (!valid) {
+    throw new ValidationError('arguments', `Placeholder '${name}' must be an array of {role, content} messages`);
+  }
+  return messages as ChatMessage[];
+}
+
+/**
+ * Replace placeholders with the messages given for them. Placeholders
+ * without messages are kept, and reported as missing.
+ */
+export function fillPlaceholders(
+  prompt: ChatPromptItem[],
+  variables: Record<string, unknown>
+): { prompt: ChatPromptItem[]; missing: string[] } {
+  const missing = new Set<string>();
+  const filled = prompt.flatMap<ChatPromptItem>(item => {
+    if (!isPlaceholder(item)) {
+      return [item];
+    }
+    if (variables[item.name] === undefined) {
+      missing.add(item.name);
+      return [item];
+    }
+    return parsePlaceholderValue(item.name, variables[item.name]);
+  });
+  return { prompt: filled, missing: Array.from(missing) };
+}
@@ -0,0 +1,99 @@
+// Registry of named Langfuse project profiles and their API clients
+
+import { LangfuseAPIClient } from './langfuse-client.js';
+import { Cassette } from './cassette.js';
+import { createConfigValidator, PromptConfigValidator } from './config-schema.js';
+import { CassetteOptions, LangfuseConfig, ValidationError } from '../types/index.js';
+
+export interface ProjectClient {
+  project: string;
+  client: LangfuseAPIClient;
+  // Checks prompt configs against the project's JSON Schema, if it has one
+  validateConfig?: PromptConfigValidator;
+}
+
+export class ProjectRegistry {
+  private clients = new Map<string, LangfuseAPIClient>();
+  private configValidators = new Map<string, PromptConfigValidator>();
+  private defaultProject = '';
+
+  constructor(
+    profiles: Record<string, LangfuseConfig>,
+    defaultProject?: string,
+    cassette?: CassetteOptions
+  ) {
+    this.update(profiles, defaultProject, cassette);
+  }
+
+  /**
+   * Replace all project profiles, e.g. after a configuration reload
+   */
+  update(
+    profiles: Record<string, LangfuseConfig>,
+    defaultProject?: string,
+    cassette?: CassetteOptions
+  ): void {
+    const names = Object.keys(profiles);
+    if (names.length === 0) {
+      throw new Error('At least one Langfuse project must be configured');
+    }
+
+    const resolvedDefault = defaultProject || names[0];
+    if (!names.includes(resolvedDefault)) {
+      throw new Error(`Default project '${resolvedDefault}' is not configured`);
+    }
+
+    const clients = new Map<string, LangfuseAPIClient>();
+    const configValidators = new Map<string, PromptConfigValidator>();
+    for (const name of names) {
+      clients.set(name, new LangfuseAPIClient(
+        profiles[name],
+        cassette && Cassette.forProject(cassette, name)
+      ));
+
+      const schema = profiles[name].promptConfigSchema;
+      if (schema) {
+        try {
+          configValidators.set(name, createConfigValidator(schema));
+        } catch (error: any) {
+          throw new Error(`Project '${name}': ${error.message}`);
+        }
+      }
+    }
+
+    this.clients = clients;
+    this.configValidators = configValidators;
+    this.defaultProject = resolvedDefault;
+  }
+
+  /**
+   * Resolve a project name to its client, falling back to the default project
+   */
+  resolve(project?: string): ProjectClient {
+    const name = project || this.defaultProject;
+    const client = this.clients.get(name);
+
+    if (!client) {
+      throw new ValidationError(
+        'project',
+        `Unknown project '${name}'. Available projects: ${this.listProjects().join(', ')}`
+      );
+    }
+
+    return { project: name, client, validateConfig: this.configValidators.get(name) };
+  }
+
+  /**
+   * Get the name of the default project
+   */
+  getDefaultProject(): string {
+    return this.defaultProject;
+  }
+
+  /**
+   * List all configured project names
+   */
+  listProjects(): string[] {
+    return Array.from(this.clients.keys());
+  }
+}
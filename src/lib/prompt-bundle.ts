@@ -0,0 +1,237 @@
+// Prompt exports written to and read from files, directories and archives
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'node:fs';
+import { dirname, extname, join, relative, sep } from 'node:path';
+import { ArchiveEntry, ArchiveType, archiveType, readTarGz, readZip, writeTarGz, writeZip } from './archive.js';
+import { ExportEntry, FormatOptions, PromptFormat, formatPrompts, parsePrompts } from './prompt-formats.js';
+import { promptNamePath } from './prompt-files.js';
+import { ValidationError } from '../types/index.js';
+
+export type BundleTarget = 'file' | 'directory' | ArchiveType;
+
+export const MANIFEST_FILE = 'manifest.json';
+
+export const FORMAT_EXTENSIONS: Record<PromptFormat, string> = {
+  json: '.json',
+  jsonl: '.jsonl',
+  yaml: '.yaml',
+  markdown: '.md',
+  csv: '.csv',
+};
+
+export interface ManifestFile {
+  path: string;
+  sha256: string;
+  bytes: number;
+  prompts: number;
+}
+
+export interface Manifest {
+  format: PromptFormat;
+  createdAt: string;
+  files: ManifestFile[];
+}
+
+export interface WriteSummary {
+  path: string;
+  target: BundleTarget;
+  format: PromptFormat;
+  files: number;
+  bytes: number;
+  // Checksum of a single file or archive
+  sha256?: string;
+}
+
+export interface ReadResult {
+  target: BundleTarget;
+  files: number;
+  // Whether checksums were verified against a manifest
+  verified: boolean;
+  records: Record<string, unknown>[];
+}
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Get the format of a file from its extension
+ */
+export function formatFromPath(path: string): PromptFormat | undefined {
+  const extension = extname(path).toLowerCase();
+  if (extension === '.yml') {
+    return 'yaml';
+  }
+  return (Object.keys(FORMAT_EXTENSIONS) as PromptFormat[]).find(format => FORMAT_EXTENSIONS[format] === extension);
+}
+
+/**
+ * Tell from a path what to write or read: an archive, a single file in one
+ * of the formats, or otherwise a directory
+ */
+export function bundleTarget(path: string): BundleTarget {
+  return archiveType(path) ?? (formatFromPath(path) ? 'file' : 'directory');
+}
+
+function writeAtomic(path: string, data: Buffer): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const tempPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tempPath, data);
+  renameSync(tempPath, path);
+}
+
+/**
+ * Lay out exported prompts as one file per prompt name plus a manifest
+ * with the export metadata and the checksum of every file
+ */
+export function bundleEntries(entries: ExportEntry[], format: PromptFormat, options: FormatOptions = {}): ArchiveEntry[] {
+  const byName = new Map<string, ExportEntry[]>();
+  for (const entry of entries) {
+    byName.set(entry.name, [...(byName.get(entry.name) ?? []), entry]);
+  }
+
+  const files: ArchiveEntry[] = [];
+  const manifest: Manifest = { ...options.metadata, format, createdAt: new Date().toISOString(), files: [] };
+  for (const [name, versions] of byName) {
+    const path = promptNamePath(name).split(sep).join('/') + FORMAT_EXTENSIONS[format];
+    if (path === MANIFEST_FILE) {
+      throw new ValidationError('name', `Prompt name '${name}' clashes with the manifest file`);
+    }
+    const data = Buffer.from(formatPrompts(versions, format, { csvRows: options.csvRows }));
+    files.push({ path, data });
+    manifest.files.push({ path, sha256: sha256(data), bytes: data.length, prompts: versions.length });
+  }
+
+  return [{ path: MANIFEST_FILE, data: Buffer.from(JSON.stringify(manifest, null, 2)) }, ...files];
+}
+
+/**
+ * Write exported prompts to a file, a directory or an archive
+ */
+export function writeBundle(
+  path: string,
+  entries: ExportEntry[],
+  format: PromptFormat,
+  options: FormatOptions = {}
+): WriteSummary {
+  const target = bundleTarget(path);
+
+  if (target === 'file') {
+    const data = Buffer.from(formatPrompts(entries, format, options));
+    writeAtomic(path, data);
+    return { path, target, format, files: 1, bytes: data.length, sha256: sha256(data) };
+  }
+
+  const files = bundleEntries(entries, format, options);
+  if (target === 'directory') {
+    for (const file of files) {
+      writeAtomic(join(path, ...file.path.split('/')), file.data);
+    }
+    return { path, target, format, files: files.length - 1, bytes: files.reduce((sum, file) => sum + file.data.length, 0) };
+  }
+
+  const data = target === 'zip' ? writeZip(files) : writeTarGz(files);
+  writeAtomic(path, data);
+  return { path, target, format, files: files.length - 1, bytes: data.length, sha256: sha256(data) };
+}
+
+/**
+ * Read the files below a directory, skipping hidden ones
+ */
+function readDirectory(directory: string): ArchiveEntry[] {
+  const files: ArchiveEntry[] = [];
+  const visit = (dir: string) => {
+    for (const entry of readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+      const fullPath = join(dir, entry.name);
+      if (entry.name.startsWith('.')) {
+        continue;
+      }
+      if (entry.isDirectory()) {
+        visit(fullPath);
+      } else if (entry.isFile()) {
+        files.push({ path: relative(directory, fullPath).split(sep).join('/'), data: readFileSync(fullPath) });
+      }
+    }
+  };
+  visit(directory);
+  return files;
+}
+
+/**
+ * Read the prompt files of a directory or archive. With a manifest only its
+ * files are read and each checksum must match, otherwise every file in one
+ * of the formats is read.
+ */
+function readBundleEntries(files: ArchiveEntry[], format?: PromptFormat): { records: Record<string, unknown>[]; files: number; verified: boolean } {
+  const manifestEntry = files.find(file => file.path === MANIFEST_FILE);
+  let selected: { file: ArchiveEntry; format: PromptFormat }[];
+
+  if (manifestEntry) {
+    let manifest: Manifest;
+    try {
+      manifest = JSON.parse(manifestEntry.data.toString('utf8'));
+    } catch (error: any) {
+      throw new ValidationError('manifest', `Cannot parse ${MANIFEST_FILE}: ${error.message}`);
+    }
+    if (!Array.isArray(manifest?.files)) {
+      throw new ValidationError('manifest', `${MANIFEST_FILE} must list the files of the export`);
+    }
+
+    const byPath = new Map(files.map(file => [file.path, file]));
+    selected = manifest.files.map(listed => {
+      const file = byPath.get(listed.path);
+      if (!file) {
+        throw new ValidationError('manifest', `File '${listed.path}' listed in ${MANIFEST_FILE} is missing`);
+      }
+      if (sha256(file.data) !== listed.sha256) {
+        throw new ValidationError('manifest', `Checksum of '${listed.path}' does not match ${MANIFEST_FILE}`);
+      }
+      const fileFormat = format ?? manifest.format ?? formatFromPath(listed.path);
+      if (!fileFormat) {
+        throw new ValidationError('format', `Cannot tell the format of '${listed.path}'`);
+      }
+      return { file, format: fileFormat };
+    });
+  } else {
+    selected = files.flatMap(file => {
+      const fileFormat = formatFromPath(file.path);
+      return fileFormat ? [{ file, format: format ?? fileFormat }] : [];
+    });
+  }
+
+  const records = selected.flatMap(({ file, format: fileFormat }) => {
+    try {
+      return parsePrompts(file.data.toString('utf8'), fileFormat);
+    } catch (error: any) {
+      throw new ValidationError('data', `Cannot read '${file.path}': ${error.message}`);
+    }
+  });
+  return { records, files: selected.length, verified: !!manifestEntry };
+}
+
+/**
+ * Read prompt records from a file, a directory or an archive
+ */
+export function readBundle(path: string, format?: PromptFormat): ReadResult {
+  if (!existsSync(path)) {
+    throw new ValidationError('path', `Import path not found: ${path}`);
+  }
+
+  if (statSync(path).isDirectory()) {
+    return { target: 'directory', ...readBundleEntries(readDirectory(path), format) };
+  }
+
+  const archive = archiveType(path);
+  if (archive) {
+    const data = readFileSync(path);
+    const files = archive === 'zip' ? readZip(data) : readTarGz(data);
+    return { target: archive, ...readBundleEntries(files, format) };
+  }
+
+  const fileFormat = format ?? formatFromPath(path);
+  if (!fileFormat) {
+    throw new ValidationError('format', `Cannot tell the format of '${path}', pass format`);
+  }
+  return { target: 'file', files: 1, verified: false, records: parsePrompts(readFileSync(path, 'utf8'), fileFormat) };
+}
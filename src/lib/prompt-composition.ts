@@ -0,0 +1,155 @@
+// Resolution of Langfuse prompt composition references
+
+import { ChatPromptItem, GetPromptParams, PromptVersion } from '../types/index.js';
+import { chatMessages, isPlaceholder } from './placeholders.js';
+import { mapMessageTexts, messageTexts } from './chat-content.js';
+import { Cache } from './cache.js';
+import { LangfuseAPIClient } from './langfuse-client.js';
+
+// Reference syntax: @@@langfusePrompt:name=NAME|version=N@@@ or |label=LABEL
+export const PROMPT_REFERENCE_REGEX = /@@@langfusePrompt:(.*?)@@@/g;
+
+export const DEFAULT_MAX_REFERENCE_DEPTH = 5;
+
+export interface PromptReference {
+  tag: string;
+  name: string;
+  version?: number;
+  label?: string;
+}
+
+export interface ResolvedDependency {
+  name: string;
+  version: number;
+  label?: string;
+  parent: string;
+  depth: number;
+}
+
+/**
+ * Parse all composition references in a text
+ */
+export function parseReferences(text: string): PromptReference[] {
+  const references: PromptReference[] = [];
+
+  for (const match of text.matchAll(PROMPT_REFERENCE_REGEX)) {
+    const tag = match[0];
+    const fields = new Map<string, string>();
+    for (const part of match[1].split('|')) {
+      const separator = part.indexOf('=');
+      if (separator > 0) {
+        fields.set(part.slice(0, separator).trim(), part.slice(separator + 1).trim());
+      }
+    }
+
+    const name = fields.get('name');
+    if (!name) {
+      throw new Error(`Invalid prompt reference '${tag}': name is required`);
+    }
+
+    const reference: PromptReference = { tag, name };
+    if (fields.has('version')) {
+      reference.version = Number(fields.get('version'));
+      if (!Number.isInteger(reference.version) || reference.version < 1) {
+        throw new Error(`Invalid prompt reference '${tag}': version must be a positive integer`);
+      }
+    } else {
+      // Langfuse resolves references without version or label to production
+      reference.label = fields.get('label') || 'production';
+    }
+    references.push(reference);
+  }
+
+  return references;
+}
+
+/**
+ * Parse the composition references of a text or chat prompt
+ */
+export function findReferences(prompt: string | ChatPromptItem[]): PromptReference[] {
+  const texts = typeof prompt === 'string' ? [prompt] : chatMessages(prompt).flatMap(messageTexts);
+  return texts.flatMap(parseReferences);
+}
+
+/**
+ * Load prompts through the prompt cache, with the cache keys of get-prompt.
+ * onFetch is called for prompts fetched from Langfuse, e.g. to snapshot them.
+ */
+export function createPromptLoader(
+  client: LangfuseAPIClient,
+  cache: Cache<PromptVersion>,
+  onFetch?: (params: GetPromptParams, prompt: PromptVersion) => void
+): (params: GetPromptParams) => Promise<PromptVersion> {
+  return async params => {
+    const cacheKey = `${params.name}:${params.version || 'latest'}:${params.label || ''}`;
+    const cached = cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+    const prompt = await client.getPrompt(params);
+    cache.set(cacheKey, prompt);
+    onFetch?.(params, prompt);
+    return prompt;
+  };
+}
+
+/**
+ * Replace composition references with the referenced text prompts,
+ * recursively, failing on cycles and on nesting deeper than maxDepth
+ */
+export async function resolveReferences(
+  root: PromptVersion,
+  loadPrompt: (params: GetPromptParams) => Promise<PromptVersion>,
+  maxDepth: number = DEFAULT_MAX_REFERENCE_DEPTH
+): Promise<{ prompt: string | ChatPromptItem[]; dependencies: ResolvedDependency[] }> {
+  const dependencies = new Map<string, ResolvedDependency>();
+
+  const resolveText = async (text: string, path: string[]): Promise<string> => {
+    const references = parseReferences(text);
+    if (references.length === 0) {
+      return text;
+    }
+    if (path.length > maxDepth) {
+      throw new Error(`Prompt references are nested deeper than ${maxDepth} levels: ${path.join(' -> ')}`);
+    }
+
+    let resolved = text;
+    for (const reference of references) {
+      if (path.includes(reference.name)) {
+        throw new Error(`Circular prompt reference: ${[...path, reference.name].join(' -> ')}`);
+      }
+
+      const prompt = await loadPrompt({ name: reference.name, version: reference.version, label: reference.label });
+      if (typeof prompt.prompt !== 'string') {
+        throw new Error(`Referenced prompt '${reference.name}' must be a text prompt`);
+      }
+
+      const parent = path[path.length - 1];
+      dependencies.set(`${parent}>${prompt.name}@${prompt.version}`, {
+        name: prompt.name,
+        version: prompt.version,
+        label: reference.label,
+        parent,
+        depth: path.length,
+      });
+
+      const content = await resolveText(prompt.prompt, [...path, reference.name]);
+      resolved = resolved.split(reference.tag).join(content);
+    }
+    return resolved;
+  };
+
+  const path = [root.name];
+  const prompt = typeof root.prompt === 'string'
+    ? await resolveText(root.prompt, path)
+    : await Promise.all(root.prompt.map(async message => {
+        if (isPlaceholder(message)) {
+          return message;
+        }
+        const texts = await Promise.all(messageTexts(message).map(text => resolveText(text, path)));
+        let index = 0;
+        return mapMessageTexts(message, () => texts[index++]);
+      }));
+
+  return { prompt, dependencies: Array.from(dependencies.values()) };
+}
@@ -0,0 +1,187 @@
+// Offline fallback for prompts: local snapshots and a bundled fallback file
+
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'node:fs';
+import { dirname, extname, join } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import {
+  APIError,
+  CircuitOpenError,
+  FallbackOptions,
+  GetPromptParams,
+  PromptSource,
+  PromptVersion,
+  RateLimitError,
+} from '../types/index.js';
+
+export interface RecoveredPrompt {
+  prompt: PromptVersion;
+  source: Extract<PromptSource, 'snapshot' | 'fallback'>;
+  ageSeconds?: number;
+}
+
+/**
+ * Check whether an error means Langfuse could not be reached, as opposed to
+ * the request itself being wrong (unknown prompt, bad credentials, ...)
+ */
+export function isUnavailableError(error: any): boolean {
+  if (error instanceof CircuitOpenError || error instanceof RateLimitError) {
+    return true;
+  }
+  if (error instanceof APIError) {
+    return error.status === 408 || error.status >= 500;
+  }
+  // Native fetch reports network failures as TypeError
+  return error instanceof TypeError;
+}
+
+/**
+ * Describe which version of a prompt was requested, used as snapshot key
+ */
+function selectorFor(params: GetPromptParams): string {
+  if (params.version !== undefined) {
+    return `version-${params.version}`;
+  }
+  return params.label ? `label-${params.label}` : 'default';
+}
+
+export class PromptFallback {
+  private options: FallbackOptions = {};
+  private fallbackPrompts?: { prompts: any[]; mtimeMs: number };
+
+  constructor(options: FallbackOptions = {}) {
+    this.configure(options);
+  }
+
+  /**
+   * Replace the fallback options, e.g. after a configuration reload
+   */
+  configure(options: FallbackOptions): void {
+    if (options.fallbackFile !== this.options.fallbackFile) {
+      this.fallbackPrompts = undefined;
+    }
+    this.options = options;
+  }
+
+  /**
+   * Store a successfully fetched prompt as last-known-good snapshot
+   */
+  saveSnapshot(project: string, params: GetPromptParams, prompt: PromptVersion): void {
+    if (!this.options.snapshotDirectory) {
+      return;
+    }
+
+    const path = this.snapshotPath(project, params);
+    try {
+      mkdirSync(dirname(path), { recursive: true });
+      const tempPath = `${path}.${process.pid}.tmp`;
+      writeFileSync(tempPath, JSON.stringify({ savedAt: Date.now(), prompt }, null, 2));
+      renameSync(tempPath, path);
+    } catch (error: any) {
+      console.error(`Failed to write prompt snapshot ${path}:`, error.message);
+    }
+  }
+
+  /**
+   * Recover a prompt from the snapshot directory, then the fallback file
+   */
+  recover(project: string, params: GetPromptParams): RecoveredPrompt | null {
+    return this.loadSnapshot(project, params) || this.loadFallback(project, params);
+  }
+
+  private snapshotPath(project: string, params: GetPromptParams): string {
+    return join(
+      this.options.snapshotDirectory!,
+      encodeURIComponent(project),
+      encodeURIComponent(params.name),
+      `${selectorFor(params)}.json`
+    );
+  }
+
+  private loadSnapshot(project: string, params: GetPromptParams): RecoveredPrompt | null {
+    if (!this.options.snapshotDirectory) {
+      return null;
+    }
+
+    const path = this.snapshotPath(project, params);
+    if (!existsSync(path)) {
+      return null;
+    }
+
+    try {
+      const snapshot = JSON.parse(readFileSync(path, 'utf-8'));
+      return {
+        prompt: snapshot.prompt,
+        source: 'snapshot',
+        ageSeconds: Math.floor((Date.now() - snapshot.savedAt) / 1000),
+      };
+    } catch (error: any) {
+      console.error(`Ignoring unreadable prompt snapshot ${path}:`, error.message);
+      return null;
+    }
+  }
+
+  private loadFallback(project: string, params: GetPromptParams): RecoveredPrompt | null {
+    const prompts = this.readFallbackFile();
+    if (!prompts) {
+      return null;
+    }
+
+    const candidates = prompts.prompts.filter(p =>
+      p.name === params.name && (!p.project || p.project === project)
+    );
+    const match = candidates.find(p =>
+      params.version !== undefined
+        ? p.version === params.version
+        : params.label
+          ? p.labels?.includes(params.label)
+          : p.labels?.includes('production')
+    ) || (params.version === undefined ? candidates[0] : undefined);
+
+    if (!match) {
+      return null;
+    }
+
+    return {
+      prompt: {
+        version: 0,
+        labels: [],
+        tags: [],
+        createdAt: '',
+        updatedAt: '',
+        variables: [],
+        ...match,
+      },
+      source: 'fallback',
+      ageSeconds: Math.floor((Date.now() - prompts.mtimeMs) / 1000),
+    };
+  }
+
+  /**
+   * Read the fallback file, which uses the export-prompts JSON format or a
+   * YAML equivalent, reloading it when it changes
+   */
+  private readFallbackFile(): { prompts: any[]; mtimeMs: number } | null {
+    const path = this.options.fallbackFile;
+    if (!path || !existsSync(path)) {
+      return null;
+    }
+
+    try {
+      const { mtimeMs } = statSync(path);
+      if (!this.fallbackPrompts || this.fallbackPrompts.mtimeMs !== mtimeMs) {
+        const text = readFileSync(path, 'utf-8');
+        const extension = extname(path).toLowerCase();
+        const parsed = extension === '.yaml' || extension === '.yml' ? parseYaml(text) : JSON.parse(text);
+        const prompts = Array.isArray(parsed) ? parsed : parsed?.prompts;
+        if (!Array.isArray(prompts)) {
+          throw new Error('Expected an array of prompts or an object with a prompts array');
+        }
+        this.fallbackPrompts = { prompts, mtimeMs };
+      }
+      return this.fallbackPrompts;
+    } catch (error: any) {
+      console.error(`Ignoring unreadable fallback prompt file ${path}:`, error.message);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,164 @@
+// Prompt files of a local prompts directory: Markdown for text, YAML for chat
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname, extname, join, relative, sep } from 'node:path';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { ChatPromptItem, PromptConfig, ValidationError } from '../types/index.js';
+
+// Text prompts are Markdown with front matter, chat prompts YAML
+export const TEXT_PROMPT_EXTENSION = '.md';
+export const CHAT_PROMPT_EXTENSIONS = ['.yaml', '.yml'];
+
+const FRONT_MATTER_REGEX = /^---\r?\n([\s\S]*?\r?\n)?---(?:\r?\n|$)/;
+
+export interface PromptFile {
+  // Prompt name, the file path relative to the prompts directory without extension
+  name: string;
+  type: 'text' | 'chat';
+  // Version the file was pulled from or last pushed as, undefined for new prompts
+  version?: number;
+  prompt: string | ChatPromptItem[];
+  config?: PromptConfig;
+  labels: string[];
+  tags: string[];
+}
+
+/**
+ * Map a slash-separated prompt name to a relative path, without extension
+ */
+export function promptNamePath(name: string): string {
+  const segments = name.split('/');
+  if (segments.some(segment => segment === '' || segment === '.' || segment === '..')) {
+    throw new ValidationError('name', `Prompt name '${name}' cannot be mapped to a file path`);
+  }
+  return join(...segments);
+}
+
+/**
+ * Get the path of a prompt's file relative to the prompts directory
+ */
+export function promptFilePath(name: string, type: 'text' | 'chat'): string {
+  return promptNamePath(name) + (type === 'text' ? TEXT_PROMPT_EXTENSION : CHAT_PROMPT_EXTENSIONS[0]);
+}
+
+/**
+ * Serialize a prompt to the content of its file
+ */
+export function serializePromptFile(file: PromptFile): string {
+  const meta = {
+    version: file.version,
+    labels: file.labels,
+    tags: file.tags,
+    ...(file.config && Object.keys(file.config).length > 0 && { config: file.config }),
+  };
+
+  if (file.type === 'text') {
+    return `---\n${stringifyYaml(meta)}---\n${file.prompt as string}`;
+  }
+  return stringifyYaml({ ...meta, messages: file.prompt });
+}
+
+function readMeta(path: string, meta: any): Pick<PromptFile, 'version' | 'config' | 'labels' | 'tags'> {
+  if (meta === null || meta === undefined) {
+    meta = {};
+  }
+  if (typeof meta !== 'object' || Array.isArray(meta)) {
+    throw new ValidationError('file', `${path} must start with a mapping of prompt fields`);
+  }
+  if (meta.version !== undefined && (!Number.isInteger(meta.version) || meta.version < 1)) {
+    throw new ValidationError('file', `${path} has an invalid version, expected a positive integer`);
+  }
+  const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+  if (meta.labels !== undefined && !isStringList(meta.labels)) {
+    throw new ValidationError('file', `${path} has invalid labels, expected a list of strings`);
+  }
+  if (meta.tags !== undefined && !isStringList(meta.tags)) {
+    throw new ValidationError('file', `${path} has invalid tags, expected a list of strings`);
+  }
+  if (meta.config !== undefined && (typeof meta.config !== 'object' || meta.config === null || Array.isArray(meta.config))) {
+    throw new ValidationError('file', `${path} has an invalid config, expected a mapping`);
+  }
+  return { version: meta.version, config: meta.config, labels: meta.labels ?? [], tags: meta.tags ?? [] };
+}
+
+/**
+ * Parse the content of a prompt file, given its path relative to the
+ * prompts directory
+ */
+export function parsePromptFile(path: string, content: string): PromptFile {
+  const extension = extname(path).toLowerCase();
+  const name = path.slice(0, -extension.length).split(sep).join('/');
+
+  try {
+    if (extension === TEXT_PROMPT_EXTENSION) {
+      const match = FRONT_MATTER_REGEX.exec(content);
+      if (!match) {
+        throw new ValidationError('file', `${path} must start with a --- front matter block`);
+      }
+      return {
+        name,
+        type: 'text',
+        ...readMeta(path, parseYaml(match[1] ?? '')),
+        prompt: content.slice(match[0].length),
+      };
+    }
+
+    if (CHAT_PROMPT_EXTENSIONS.includes(extension)) {
+      const data = parseYaml(content);
+      if (!Array.isArray(data?.messages)) {
+        throw new ValidationError('file', `${path} must have a messages list`);
+      }
+      return { name, type: 'chat', ...readMeta(path, data), prompt: data.messages };
+    }
+  } catch (error: any) {
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    throw new ValidationError('file', `Cannot parse ${path}: ${error.message}`);
+  }
+
+  throw new ValidationError('file', `${path} is not a prompt file, expected .md, .yaml or .yml`);
+}
+
+/**
+ * Read all prompt files below a directory. Hidden files and directories
+ * are skipped.
+ */
+export function readPromptDirectory(directory: string): { path: string; file: PromptFile }[] {
+  if (!existsSync(directory)) {
+    throw new Error(`Prompts directory not found: ${directory}`);
+  }
+
+  const files: { path: string; file: PromptFile }[] = [];
+  const visit = (dir: string) => {
+    for (const entry of readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith('.')) {
+        continue;
+      }
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        visit(fullPath);
+        continue;
+      }
+      const extension = extname(entry.name).toLowerCase();
+      if (entry.isFile() && (extension === TEXT_PROMPT_EXTENSION || CHAT_PROMPT_EXTENSIONS.includes(extension))) {
+        const path = relative(directory, fullPath);
+        files.push({ path, file: parsePromptFile(path, readFileSync(fullPath, 'utf8')) });
+      }
+    }
+  };
+  visit(directory);
+  return files;
+}
+
+/**
+ * Write a prompt file below a directory, returning its relative path
+ */
+export function writePromptFile(directory: string, file: PromptFile, path = promptFilePath(file.name, file.type)): string {
+  const fullPath = join(directory, path);
+  mkdirSync(dirname(fullPath), { recursive: true });
+  const tempPath = `${fullPath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, serializePromptFile(file));
+  renameSync(tempPath, fullPath);
+  return path;
+}
@@ -0,0 +1,419 @@
+// Export and import formats of prompt collections
+
+import { parse as parseYaml, parseAllDocuments, stringify as stringifyYaml } from 'yaml';
+import { ChatMessage, ChatPromptItem, PromptConfig, ValidationError } from '../types/index.js';
+import { CHAT_ROLES } from './chat-content.js';
+import { isPlaceholder } from './placeholders.js';
+
+export const PROMPT_FORMATS = ['json', 'jsonl', 'yaml', 'markdown', 'csv'] as const;
+
+export type PromptFormat = typeof PROMPT_FORMATS[number];
+
+// CSV has one row per prompt, or one per chat message
+export type CsvRows = 'prompt' | 'message';
+
+export interface ExportedPrompt {
+  name: string;
+  version?: number;
+  type: 'text' | 'chat';
+  prompt: string | ChatPromptItem[];
+  config?: PromptConfig;
+  labels?: string[];
+  tags?: string[];
+  commitMessage?: string;
+  createdAt?: string;
+}
+
+// Prompts that could not be exported
+export interface ExportError {
+  name: string;
+  error: string;
+}
+
+export type ExportEntry = ExportedPrompt | ExportError;
+
+export interface FormatOptions {
+  csvRows?: CsvRows;
+  // Wrapper fields of the json format
+  metadata?: Record<string, unknown>;
+}
+
+// Fields of a prompt in file order, shared by all formats
+const PROMPT_FIELDS = ['name', 'version', 'type', 'labels', 'tags', 'config', 'commitMessage', 'createdAt'] as const;
+
+const CSV_PROMPT_COLUMNS = [...PROMPT_FIELDS, 'prompt'];
+const CSV_MESSAGE_COLUMNS = [...PROMPT_FIELDS, 'index', 'role', 'content', 'extra'];
+
+// Markdown headings of chat messages: "## user", "## assistant (json)" or "## placeholder history"
+const HEADING_REGEX = new RegExp(`^## (${[...CHAT_ROLES, 'placeholder'].join('|')})(?: (.+))?$`, 'gm');
+const SEPARATOR_LINE_REGEX = /^---$/m;
+
+function isError(entry: ExportEntry): entry is ExportError {
+  return 'error' in entry;
+}
+
+/**
+ * Copy the prompt fields that are set, in file order
+ */
+function promptFields(entry: ExportEntry): Record<string, unknown> {
+  if (isError(entry)) {
+    return { name: entry.name, error: entry.error };
+  }
+  return Object.fromEntries(
+    PROMPT_FIELDS.filter(field => entry[field] !== undefined).map(field => [field, entry[field]])
+  );
+}
+
+// Markdown
+
+/**
+ * Whether a message must be written as JSON to read back identically
+ */
+function needsJson(message: ChatMessage): boolean {
+  if (typeof message.content !== 'string' || Object.keys(message).some(key => key !== 'role' && key !== 'content')) {
+    return true;
+  }
+  HEADING_REGEX.lastIndex = 0;
+  return HEADING_REGEX.test(message.content) || SEPARATOR_LINE_REGEX.test(message.content);
+}
+
+function toMarkdownSection(item: ChatPromptItem): string {
+  if (isPlaceholder(item)) {
+    return `## placeholder ${item.name}\n`;
+  }
+  const { role, ...rest } = item;
+  if (needsJson(item)) {
+    return `## ${role} (json)\n\n\`\`\`json\n${JSON.stringify(rest, null, 2)}\n\`\`\`\n`;
+  }
+  return `## ${role}\n\n${rest.content}\n`;
+}
+
+function toMarkdown(entries: ExportEntry[]): string {
+  return entries.map(entry => {
+    const meta = promptFields(entry);
+    let body = '';
+    if (!isError(entry)) {
+      if (typeof entry.prompt === 'string') {
+        // Text with separator lines stays in the front matter
+        if (SEPARATOR_LINE_REGEX.test(entry.prompt)) {
+          meta.prompt = entry.prompt;
+        } else {
+          body = entry.prompt;
+        }
+      } else {
+        body = entry.prompt.map(toMarkdownSection).join('\n');
+      }
+    }
+    return `---\n${stringifyYaml(meta)}---\n${body}\n`;
+  }).join('');
+}
+
+function parseMarkdownChat(name: string, body: string): ChatPromptItem[] {
+  HEADING_REGEX.lastIndex = 0;
+  const headings = Array.from(body.matchAll(HEADING_REGEX));
+  if (headings.length === 0 && body.trim() !== '') {
+    throw new ValidationError('data', `Chat prompt '${name}' has text outside of "## role" headings`);
+  }
+  if (headings.length > 0 && body.slice(0, headings[0].index).trim() !== '') {
+    throw new ValidationError('data', `Chat prompt '${name}' has text before its first heading`);
+  }
+
+  return headings.map((heading, i) => {
+    const [line, role, suffix] = heading;
+    if (role === 'placeholder') {
+      if (!suffix) {
+        throw new ValidationError('data', `Placeholder heading in '${name}' needs a name`);
+      }
+      return { type: 'placeholder', name: suffix };
+    }
+
+    const last = i === headings.length - 1;
+    let content = body.slice(heading.index! + line.length, last ? body.length : headings[i + 1].index);
+    // Undo the blank line after the heading and the line breaks between sections
+    content = content.replace(/^\n\n?/, '');
+    content = content.replace(last ? /\n$/ : /\n\n?$/, '');
+
+    if (suffix === '(json)') {
+      const json = /^```json\n([\s\S]*)\n```$/.exec(content);
+      try {
+        return { role, ...JSON.parse(json ? json[1] : content) };
+      } catch (error: any) {
+        throw new ValidationError('data', `Message ${i} of '${name}' is not valid JSON: ${error.message}`);
+      }
+    }
+    if (suffix) {
+      throw new ValidationError('data', `Unknown heading '${line}' in '${name}'`);
+    }
+    return { role, content };
+  }) as ChatPromptItem[];
+}
+
+function parseMarkdown(data: string): Record<string, unknown>[] {
+  // Find the front matter blocks, a mapping with a name between two --- lines
+  const blocks: { start: number; end: number; meta: Record<string, any> }[] = [];
+  const separators = Array.from(data.matchAll(/^---$/gm)).map(match => match.index!);
+  for (let i = 0; i < separators.length - 1; i++) {
+    const start = separators[i];
+    const close = separators[i + 1];
+    let meta: unknown;
+    try {
+      meta = parseYaml(data.slice(start + 4, close));
+    } catch {
+      continue;
+    }
+    if (meta && typeof meta === 'object' && !Array.isArray(meta) && typeof (meta as any).name === 'string') {
+      blocks.push({ start, end: Math.min(close + 4, data.length), meta: meta as Record<string, any> });
+      i++;
+    }
+  }
+  if (blocks.length === 0 || data.slice(0, blocks[0].start).trim() !== '') {
+    throw new ValidationError('data', 'Markdown data must start with a --- front matter block with the prompt name');
+  }
+
+  return blocks.map((block, i) => {
+    const body = data.slice(block.end, i + 1 < blocks.length ? blocks[i + 1].start : data.length).replace(/\n$/, '');
+    const record: Record<string, unknown> = { ...block.meta };
+    if (record.error === undefined && record.prompt === undefined) {
+      record.prompt = record.type === 'chat' ? parseMarkdownChat(block.meta.name, body) : body;
+    }
+    return record;
+  });
+}
+
+// CSV
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function csvValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function toCsv(entries: ExportEntry[], rows: CsvRows): string {
+  const columns = rows === 'message' ? [...CSV_MESSAGE_COLUMNS] : [...CSV_PROMPT_COLUMNS];
+  if (entries.some(isError)) {
+    columns.push('error');
+  }
+
+  const records: Record<string, unknown>[] = [];
+  for (const entry of entries) {
+    const fields = promptFields(entry);
+    if (isError(entry) || rows === 'prompt') {
+      records.push({ ...fields, ...(!isError(entry) && { prompt: entry.prompt }) });
+    } else if (typeof entry.prompt === 'string') {
+      records.push({ ...fields, content: entry.prompt });
+    } else if (entry.prompt.length === 0) {
+      records.push(fields);
+    } else {
+      entry.prompt.forEach((item, index) => {
+        if (isPlaceholder(item)) {
+          records.push({ ...fields, index, role: 'placeholder', content: item.name });
+          return;
+        }
+        const { role, content, ...extra } = item;
+        if (typeof content !== 'string') {
+          Object.assign(extra, { content });
+        }
+        records.push({
+          ...fields,
+          index,
+          role,
+          content: typeof content === 'string' ? content : undefined,
+          extra: Object.keys(extra).length > 0 ? extra : undefined,
+        });
+      });
+    }
+  }
+
+  const lines = [columns, ...records.map(record => columns.map(column => csvValue(record[column])))];
+  return lines.map(line => line.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Split CSV text into rows of cells, with quoted cells spanning lines
+ */
+function parseCsvRows(data: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let i = 0;
+
+  while (i < data.length) {
+    const char = data[i];
+    if (quoted) {
+      if (char === '"' && data[i + 1] === '"') {
+        cell += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+      if (char === '\r' && data[i + 1] === '\n') {
+        i++;
+      }
+    } else {
+      cell += char;
+    }
+    i++;
+  }
+  if (quoted) {
+    throw new ValidationError('data', 'CSV data has an unclosed quoted cell');
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(value => value !== ''));
+}
+
+function parseCsvJson(value: string, column: string, line: number): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new ValidationError('data', `Column '${column}' of CSV line ${line} is not valid JSON`);
+  }
+}
+
+function parseCsv(data: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsvRows(data);
+  if (!header?.includes('name')) {
+    throw new ValidationError('data', "CSV data must start with a header row including a 'name' column");
+  }
+
+  // Read the prompt fields of each row
+  const perMessage = header.includes('role');
+  const records = rows.map((cells, i) => {
+    const line = i + 2;
+    const row: Record<string, string> = Object.fromEntries(header.map((column, j) => [column, cells[j] ?? '']));
+    const record: Record<string, unknown> = {};
+    for (const field of PROMPT_FIELDS) {
+      const value = row[field];
+      if (value === undefined || value === '') {
+        continue;
+      }
+      if (field === 'version') {
+        record.version = Number(value);
+      } else if (field === 'labels' || field === 'tags' || field === 'config') {
+        record[field] = parseCsvJson(value, field, line);
+      } else {
+        record[field] = value;
+      }
+    }
+    if (row.error) {
+      record.error = row.error;
+    }
+    return { line, row, record };
+  });
+
+  if (!perMessage) {
+    return records.map(({ line, row, record }) => {
+      if (record.error === undefined) {
+        record.prompt = record.type === 'chat' ? parseCsvJson(row.prompt ?? '', 'prompt', line) : (row.prompt ?? '');
+      }
+      return record;
+    });
+  }
+
+  // Group the message rows of each prompt version
+  const prompts: Record<string, unknown>[] = [];
+  let current: { key: string; record: Record<string, unknown>; messages: ChatPromptItem[] } | undefined;
+  for (const { line, row, record } of records) {
+    const key = `${record.name}\u0000${record.version ?? ''}`;
+    if (record.error !== undefined || record.type !== 'chat') {
+      prompts.push(record.error !== undefined ? record : { ...record, prompt: row.content ?? '' });
+      current = undefined;
+      continue;
+    }
+    if (!current || current.key !== key) {
+      current = { key, record: { ...record, prompt: [] }, messages: [] };
+      current.record.prompt = current.messages;
+      prompts.push(current.record);
+    }
+    if (row.role === '') {
+      continue;
+    }
+    if (row.role === 'placeholder') {
+      current.messages.push({ type: 'placeholder', name: row.content });
+      continue;
+    }
+    const extra = row.extra ? parseCsvJson(row.extra, 'extra', line) as Record<string, unknown> : {};
+    current.messages.push({ role: row.role, content: row.content, ...extra } as ChatPromptItem);
+  }
+  return prompts;
+}
+
+/**
+ * Serialize exported prompts in one of the export formats
+ */
+export function formatPrompts(entries: ExportEntry[], format: PromptFormat, options: FormatOptions = {}): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify({ ...options.metadata, prompts: entries }, null, 2);
+    case 'jsonl':
+      return entries.map(entry => JSON.stringify(entry)).join('\n');
+    case 'yaml':
+      return entries
+        .map(entry => stringifyYaml(isError(entry) ? entry : { ...promptFields(entry), prompt: entry.prompt }))
+        .join('---\n');
+    case 'markdown':
+      return toMarkdown(entries);
+    case 'csv':
+      return toCsv(entries, options.csvRows ?? 'prompt');
+  }
+}
+
+/**
+ * Read prompt records from data in one of the export formats. Records are
+ * not validated, that is left to the importer.
+ */
+export function parsePrompts(data: string, format: PromptFormat): Record<string, unknown>[] {
+  switch (format) {
+    case 'json': {
+      const parsed = JSON.parse(data);
+      if (Array.isArray(parsed?.prompts)) {
+        return parsed.prompts;
+      }
+      return Array.isArray(parsed) ? parsed : [parsed];
+    }
+    case 'jsonl':
+      return data.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+    case 'yaml': {
+      const documents = parseAllDocuments(data);
+      if (!Array.isArray(documents)) {
+        return [];
+      }
+      for (const document of documents) {
+        if (document.errors.length > 0) {
+          throw new ValidationError('data', `Invalid YAML: ${document.errors[0].message}`);
+        }
+      }
+      return documents.map(document => document.toJS()).filter(value => value !== null);
+    }
+    case 'markdown':
+      return parseMarkdown(data);
+    case 'csv':
+      return parseCsv(data);
+  }
+}
@@ -0,0 +1,236 @@
+// Importing prompt versions with content-hash dedupe and merge strategies
+
+import { createHash } from 'node:crypto';
+import { LangfuseAPIClient } from './langfuse-client.js';
+import { mapMessageTexts } from './chat-content.js';
+import { isPlaceholder } from './placeholders.js';
+import { APIError, ChatPromptItem, CreatePromptParams } from '../types/index.js';
+import { canonicalJson } from '../utils.js';
+
+// Labels maintained by Langfuse itself, never written by the server
+const MANAGED_LABELS = ['latest'];
+
+export const IMPORT_STRATEGIES = ['skip-existing', 'new-version-if-changed', 'always-new-version', 'fail-on-conflict'] as const;
+
+export type ImportStrategy = typeof IMPORT_STRATEGIES[number];
+
+// Apply the imported labels, or keep labels where they are in Langfuse
+export const LABEL_MODES = ['apply', 'keep'] as const;
+
+export type LabelMode = typeof LABEL_MODES[number];
+
+export type ImportAction = 'create' | 'new-version' | 'unchanged' | 'skip' | 'conflict' | 'error';
+
+export interface ImportResult {
+  name: string;
+  action: ImportAction;
+  // Version created, or the unchanged latest version
+  version?: number;
+  // Latest version before this prompt was imported
+  previousVersion?: number;
+  // Labels set by the import
+  labels?: string[];
+  reason?: string;
+}
+
+export interface ImportOptions {
+  strategy?: ImportStrategy;
+  labelMode?: LabelMode;
+  // Plan the import without writing anything
+  dryRun?: boolean;
+}
+
+export interface ImportSummary {
+  // Whether fail-on-conflict stopped the import before any write
+  aborted: boolean;
+  results: ImportResult[];
+}
+
+// Latest version of a prompt as far as the import is concerned
+interface LatestVersion {
+  version: number;
+  hash: string;
+  labels: string[];
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\r\n/g, '\n');
+}
+
+/**
+ * Normalize prompt content for comparison: line endings, and the optional
+ * chatmessage type of chat messages
+ */
+function normalizePrompt(prompt: string | ChatPromptItem[]): string | ChatPromptItem[] {
+  if (typeof prompt === 'string') {
+    return normalizeText(prompt);
+  }
+  return prompt.map(item => {
+    if (isPlaceholder(item)) {
+      return item;
+    }
+    const { type: _type, ...message } = mapMessageTexts(item, normalizeText);
+    return message;
+  });
+}
+
+/**
+ * Hash of the type, content and config of a prompt version. Labels, tags
+ * and the commit message are left out, so versions differing only in those
+ * have the same hash.
+ */
+export function promptContentHash(prompt: Pick<CreatePromptParams, 'type' | 'prompt' | 'config'>): string {
+  const content = canonicalJson({
+    type: prompt.type,
+    prompt: normalizePrompt(prompt.prompt),
+    config: prompt.config ?? {},
+  });
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Get the latest version of a prompt, or undefined when it does not exist
+ */
+async function findLatest(client: LangfuseAPIClient, name: string): Promise<LatestVersion | undefined> {
+  try {
+    const prompt = await client.getPrompt({ name, label: 'latest' }, { priority: 'bulk' });
+    return { version: prompt.version, hash: promptContentHash(prompt), labels: prompt.labels };
+  } catch (error) {
+    if (error instanceof APIError && error.status === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Labels to write for a version, without duplicates or managed labels
+ */
+function writableLabels(labels: string[]): string[] {
+  return Array.from(new Set(labels.filter(label => !MANAGED_LABELS.includes(label))));
+}
+
+/**
+ * Choose what to do with an imported version given the latest version.
+ * Strategies decide for prompts that existed before the import; further
+ * versions of a prompt created by the same import are always kept, unless
+ * identical to the version before them.
+ */
+function chooseAction(
+  strategy: ImportStrategy,
+  latest: LatestVersion | undefined,
+  existedBefore: boolean,
+  hash: string
+): ImportAction {
+  if (!latest) {
+    return 'create';
+  }
+  const changed = latest.hash !== hash;
+  if (!existedBefore) {
+    return changed || strategy === 'always-new-version' ? 'new-version' : 'unchanged';
+  }
+  switch (strategy) {
+    case 'skip-existing':
+      return 'skip';
+    case 'always-new-version':
+      return 'new-version';
+    case 'new-version-if-changed':
+      return changed ? 'new-version' : 'unchanged';
+    case 'fail-on-conflict':
+      return changed ? 'conflict' : 'unchanged';
+  }
+}
+
+/**
+ * Import prompt versions in order. Each imported version is compared with
+ * the latest version of its prompt by content hash, and the strategy picks
+ * between skipping it, creating a new version and failing. With
+ * fail-on-conflict nothing is written when any prompt conflicts.
+ */
+export async function importPrompts(
+  client: LangfuseAPIClient,
+  prompts: CreatePromptParams[],
+  options: ImportOptions = {}
+): Promise<ImportSummary> {
+  const strategy = options.strategy ?? 'skip-existing';
+  const labelMode = options.labelMode ?? 'apply';
+
+  // Latest versions before the import, or the error looking them up
+  const names = Array.from(new Set(prompts.map(prompt => prompt.name)));
+  const before = new Map<string, LatestVersion | Error | undefined>(await Promise.all(names.map(async name => {
+    try {
+      return [name, await findLatest(client, name)] as const;
+    } catch (error: any) {
+      return [name, error as Error] as const;
+    }
+  })));
+  const hashes = prompts.map(prompt => promptContentHash(prompt));
+
+  if (strategy === 'fail-on-conflict') {
+    const conflicts = new Set(prompts.flatMap((prompt, index) => {
+      const latest = before.get(prompt.name);
+      return latest && !(latest instanceof Error) && latest.hash !== hashes[index] ? [index] : [];
+    }));
+    if (conflicts.size > 0) {
+      return {
+        aborted: true,
+        results: prompts.map((prompt, index) => {
+          const latest = before.get(prompt.name);
+          const previousVersion = latest && !(latest instanceof Error) ? latest.version : undefined;
+          return conflicts.has(index)
+            ? { name: prompt.name, action: 'conflict', previousVersion, reason: `Content differs from version ${previousVersion}` }
+            : { name: prompt.name, action: 'skip', previousVersion, reason: 'Import aborted because of conflicts' };
+        }),
+      };
+    }
+  }
+
+  const latestByName = new Map<string, LatestVersion | undefined>();
+  const results: ImportResult[] = [];
+  for (const [index, prompt] of prompts.entries()) {
+    const { name } = prompt;
+    const existing = before.get(name);
+    if (existing instanceof Error) {
+      results.push({ name, action: 'error', reason: existing.message });
+      continue;
+    }
+
+    const latest = latestByName.has(name) ? latestByName.get(name) : existing;
+    const hash = hashes[index];
+    const action = chooseAction(strategy, latest, existing !== undefined, hash);
+    const result: ImportResult = { name, action, previousVersion: latest?.version };
+
+    try {
+      if (action === 'create' || action === 'new-version') {
+        // New prompts always get their labels, new versions only when applying them
+        const labels = action === 'create' || labelMode === 'apply' ? prompt.labels ?? [] : [];
+        const created = options.dryRun
+          ? { version: (latest?.version ?? 0) + 1, labels }
+          : await client.createPrompt({ ...prompt, labels }, { priority: 'bulk' });
+        latestByName.set(name, { version: created.version, hash, labels: created.labels });
+        Object.assign(result, { version: created.version, labels });
+      } else if (action === 'unchanged' && latest) {
+        result.version = latest.version;
+        // Move imported labels the latest version does not have yet onto it
+        const missing = writableLabels(prompt.labels ?? []).filter(label => !latest.labels.includes(label));
+        if (labelMode === 'apply' && missing.length > 0) {
+          const labels = writableLabels([...latest.labels, ...missing]);
+          if (!options.dryRun) {
+            await client.updatePromptLabels({ name, version: latest.version, newLabels: labels }, { priority: 'bulk' });
+          }
+          latestByName.set(name, { ...latest, labels });
+          result.labels = missing;
+        }
+      } else if (action === 'skip') {
+        result.reason = 'Prompt already exists';
+      } else if (action === 'conflict') {
+        result.reason = `Content differs from version ${latest?.version}`;
+      }
+    } catch (error: any) {
+      Object.assign(result, { action: 'error', reason: error.message });
+    }
+    results.push(result);
+  }
+
+  return { aborted: false, results };
+}
@@ -0,0 +1,243 @@
+// Prompt linting with configurable rule severities
+
+import { ChatMessage, ChatPromptItem } from '../types/index.js';
+import { MUSTACHE_REGEX, MULTILINE_VARIABLE_REGEX, UNCLOSED_VARIABLE_REGEX, isValidVariableName } from '../utils.js';
+import { templateVariables } from './mustache.js';
+import { isPlaceholder } from './placeholders.js';
+
+export const LINT_RULES = [
+  'unclosed-variable',
+  'multiline-variable',
+  'invalid-variable-name',
+  'system-not-first',
+  'empty-message',
+  'duplicate-role',
+  'unfilled-variable',
+] as const;
+
+export type LintRule = typeof LINT_RULES[number];
+
+export const LINT_SEVERITIES = ['error', 'warning', 'info', 'off'] as const;
+
+export type LintSeverity = typeof LINT_SEVERITIES[number];
+
+export const DEFAULT_LINT_SEVERITIES: Record<LintRule, LintSeverity> = {
+  'unclosed-variable': 'error',
+  'multiline-variable': 'error',
+  'invalid-variable-name': 'error',
+  'system-not-first': 'warning',
+  'empty-message': 'warning',
+  'duplicate-role': 'warning',
+  'unfilled-variable': 'warning',
+};
+
+export interface LintIssue {
+  rule: LintRule;
+  severity: Exclude<LintSeverity, 'off'>;
+  message: string;
+  // Position of the item in a chat prompt, undefined for text prompts
+  messageIndex?: number;
+  // Content part of a multimodal message
+  partIndex?: number;
+  // Character offsets in the message or part text
+  start?: number;
+  end?: number;
+}
+
+export interface LintResult {
+  // False when any issue has error severity
+  valid: boolean;
+  errorCount: number;
+  warningCount: number;
+  issues: LintIssue[];
+}
+
+export interface LintOptions {
+  // Severity overrides for this run
+  rules?: Partial<Record<LintRule, LintSeverity>>;
+  // Sample arguments, enables the unfilled-variable rule
+  arguments?: Record<string, unknown>;
+}
+
+type Location = Pick<LintIssue, 'messageIndex' | 'partIndex'>;
+
+interface TextSegment extends Location {
+  text: string;
+}
+
+// Tag sigils that precede the variable name
+const TAG_SIGILS = /^[#^/&{]/;
+
+/**
+ * Get the text segments of a prompt with their location
+ */
+function textSegments(prompt: string | ChatPromptItem[]): TextSegment[] {
+  if (typeof prompt === 'string') {
+    return [{ text: prompt }];
+  }
+  return prompt.flatMap((item, messageIndex): TextSegment[] => {
+    if (isPlaceholder(item)) {
+      return [];
+    }
+    if (typeof item.content === 'string') {
+      return [{ text: item.content, messageIndex }];
+    }
+    return item.content.flatMap((part, partIndex) =>
+      part.type === 'text' ? [{ text: part.text, messageIndex, partIndex }] : []
+    );
+  });
+}
+
+/**
+ * Find the variable tags of a text with the names they reference
+ */
+function variableTags(text: string): { name: string; start: number; end: number }[] {
+  return Array.from(text.matchAll(MUSTACHE_REGEX)).flatMap(match => {
+    const content = match[1].trim();
+    // Comments, partials and delimiter changes do not reference variables
+    if (!content || content === '.' || /^[!>=]/.test(content)) {
+      return [];
+    }
+    return [{
+      name: content.replace(TAG_SIGILS, '').trim(),
+      start: match.index!,
+      end: match.index! + match[0].length,
+    }];
+  });
+}
+
+function isEmptyMessage(message: ChatMessage): boolean {
+  if (message.toolCalls && message.toolCalls.length > 0) {
+    return false;
+  }
+  if (typeof message.content === 'string') {
+    return message.content.trim() === '';
+  }
+  return message.content.every(part => part.type === 'text' && part.text.trim() === '');
+}
+
+function describe(location: Location): string {
+  if (location.messageIndex === undefined) {
+    return '';
+  }
+  return location.partIndex === undefined
+    ? ` in message ${location.messageIndex}`
+    : ` in message ${location.messageIndex}, part ${location.partIndex}`;
+}
+
+/**
+ * Format an issue as one line for error messages
+ */
+export function formatLintIssue(issue: LintIssue): string {
+  const offset = issue.start !== undefined ? ` at offset ${issue.start}` : '';
+  return `${issue.rule}: ${issue.message}${offset}`;
+}
+
+/**
+ * Lints prompts against the configured rule severities
+ */
+export class PromptLinter {
+  private severities: Record<LintRule, LintSeverity> = { ...DEFAULT_LINT_SEVERITIES };
+
+  constructor(rules: Partial<Record<LintRule, LintSeverity>> = {}) {
+    this.configure(rules);
+  }
+
+  /**
+   * Replace the configured severities, e.g. after a configuration reload
+   */
+  configure(rules: Partial<Record<LintRule, LintSeverity>> = {}): void {
+    this.severities = { ...DEFAULT_LINT_SEVERITIES, ...rules };
+  }
+
+  /**
+   * Lint a text or chat prompt. Issues are ordered by message and offset.
+   */
+  lint(prompt: string | ChatPromptItem[], options: LintOptions = {}): LintResult {
+    const severities = { ...this.severities, ...options.rules };
+    const issues: LintIssue[] = [];
+    const report = (rule: LintRule, message: string, location: Location, start?: number, end?: number) => {
+      const severity = severities[rule];
+      if (severity !== 'off') {
+        issues.push({ rule, severity, message: `${message}${describe(location)}`, ...location, start, end });
+      }
+    };
+
+    const args = options.arguments;
+    for (const { text, ...location } of textSegments(prompt)) {
+      for (const match of text.matchAll(UNCLOSED_VARIABLE_REGEX)) {
+        // The regex stops at the third brace of a closed {{{name}}}
+        if (text[match.index! + 2] === '{' && /^{{[^{]*}}/.test(text.slice(match.index! + 1))) {
+          continue;
+        }
+        report('unclosed-variable', "Unclosed '{{'", location, match.index, match.index! + 2);
+      }
+
+      for (const match of text.matchAll(MULTILINE_VARIABLE_REGEX)) {
+        report('multiline-variable', 'Variable spans several lines', location, match.index, match.index! + match[0].length);
+      }
+
+      const tags = variableTags(text);
+      for (const tag of tags) {
+        if (!tag.name.includes('\n') && !isValidVariableName(tag.name)) {
+          report('invalid-variable-name', `Invalid variable name '${tag.name}'`, location, tag.start, tag.end);
+        }
+      }
+
+      if (args) {
+        let variables: string[] = [];
+        try {
+          variables = templateVariables(text);
+        } catch {
+          // Malformed templates are reported by the other rules
+        }
+        for (const name of variables.filter(variable => args[variable] === undefined)) {
+          const tag = tags.find(candidate => candidate.name.split('.')[0] === name);
+          report('unfilled-variable', `Variable '${name}' is not filled by the arguments`, location, tag?.start, tag?.end);
+        }
+      }
+    }
+
+    if (typeof prompt === 'string') {
+      if (prompt.trim() === '') {
+        report('empty-message', 'Prompt is empty', {});
+      }
+    } else {
+      let previous: ChatMessage | undefined;
+      prompt.forEach((item, messageIndex) => {
+        if (isPlaceholder(item)) {
+          if (args && args[item.name] === undefined) {
+            report('unfilled-variable', `Placeholder '${item.name}' is not filled by the arguments`, { messageIndex });
+          }
+          previous = undefined;
+          return;
+        }
+        if (item.role === 'system' && messageIndex > 0) {
+          report('system-not-first', 'System message is not the first message', { messageIndex });
+        }
+        if (isEmptyMessage(item)) {
+          report('empty-message', 'Message is empty', { messageIndex });
+        }
+        // Several tool results in a row answer parallel tool calls
+        if (previous?.role === item.role && item.role !== 'tool') {
+          report('duplicate-role', `Consecutive ${item.role} messages`, { messageIndex });
+        }
+        previous = item;
+      });
+    }
+
+    const order = (issue: LintIssue) => [issue.messageIndex ?? -1, issue.partIndex ?? -1, issue.start ?? -1];
+    issues.sort((a, b) => {
+      const [x, y] = [order(a), order(b)];
+      return x[0] - y[0] || x[1] - y[1] || x[2] - y[2];
+    });
+
+    const errorCount = issues.filter(issue => issue.severity === 'error').length;
+    return {
+      valid: errorCount === 0,
+      errorCount,
+      warningCount: issues.filter(issue => issue.severity === 'warning').length,
+      issues,
+    };
+  }
+}
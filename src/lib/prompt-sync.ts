@@ -0,0 +1,278 @@
+// Two-way sync between Langfuse prompts and a local prompts directory
+
+import { existsSync, readFileSync, unlinkSync } from 'node:fs';
+import { join } from 'node:path';
+import { LangfuseAPIClient } from './langfuse-client.js';
+import { PromptFile, parsePromptFile, promptFilePath, readPromptDirectory, writePromptFile } from './prompt-files.js';
+import { PromptConfigValidator } from './config-schema.js';
+import { validatePromptConfig, validatePromptContent, validatePromptName } from './validation.js';
+import { APIError, PromptVersion } from '../types/index.js';
+import { canonicalJson } from '../utils.js';
+
+// Labels maintained by Langfuse itself, never pushed
+const MANAGED_LABELS = ['latest'];
+
+export type PullAction = 'create' | 'update' | 'unchanged' | 'conflict' | 'error';
+
+export type PushAction = 'create' | 'update' | 'unchanged' | 'outdated' | 'conflict' | 'error';
+
+export interface PullResult {
+  name: string;
+  path?: string;
+  action: PullAction;
+  version?: number;
+  reason?: string;
+}
+
+// Labels of a file that differ from the version it is based on
+export interface LabelDifference {
+  added: string[];
+  removed: string[];
+}
+
+export interface PushResult {
+  name: string;
+  path: string;
+  action: PushAction;
+  baseVersion?: number;
+  remoteVersion?: number;
+  // Version created by the push, and the labels set on it
+  version?: number;
+  labels?: string[];
+  // Label edits in the file, which are reported but never pushed
+  labelDifference?: LabelDifference;
+  reason?: string;
+}
+
+export interface PullOptions {
+  // Prompts to pull, all prompts when not given
+  names?: string[];
+  // Label of the version to pull
+  label?: string;
+  // Overwrite files with local changes
+  force?: boolean;
+  dryRun?: boolean;
+}
+
+export interface PushOptions {
+  // Prompts to push, all files when not given
+  names?: string[];
+  // Labels to set on created versions. Labels listed in files are not
+  // pushed, so a pull of production followed by a push never moves it.
+  labels?: string[];
+  commitMessage?: string;
+  dryRun?: boolean;
+  // JSON Schema check of the project
+  validateConfig?: PromptConfigValidator;
+}
+
+/**
+ * Get a prompt version, or undefined when it does not exist
+ */
+async function findPrompt(
+  client: LangfuseAPIClient,
+  params: { name: string; version?: number; label?: string }
+): Promise<PromptVersion | undefined> {
+  try {
+    return await client.getPrompt(params, { priority: 'bulk' });
+  } catch (error) {
+    if (error instanceof APIError && error.status === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get the names of all prompts of a project
+ */
+async function listAllPromptNames(client: LangfuseAPIClient): Promise<string[]> {
+  const first = await client.listPrompts({ limit: 100 }, { priority: 'bulk' });
+  const names = first.data.map(prompt => prompt.name);
+  for (let page = 2; page <= first.meta.totalPages; page++) {
+    const next = await client.listPrompts({ page, limit: 100 }, { priority: 'bulk' });
+    names.push(...next.data.map(prompt => prompt.name));
+  }
+  return names;
+}
+
+/**
+ * Whether a file and a prompt version have the same type, content and config
+ */
+function sameContent(file: PromptFile, prompt: PromptVersion): boolean {
+  return file.type === prompt.type &&
+    canonicalJson(file.prompt) === canonicalJson(prompt.prompt) &&
+    canonicalJson(file.config ?? {}) === canonicalJson(prompt.config ?? {});
+}
+
+/**
+ * Compare the labels of a file with those of the version it is based on
+ */
+function labelDifference(file: PromptFile, base?: PromptVersion): LabelDifference | undefined {
+  const baseLabels = (base?.labels ?? []).filter(label => !MANAGED_LABELS.includes(label));
+  const fileLabels = file.labels.filter(label => !MANAGED_LABELS.includes(label));
+  const added = fileLabels.filter(label => !baseLabels.includes(label));
+  const removed = base ? baseLabels.filter(label => !fileLabels.includes(label)) : [];
+  return added.length > 0 || removed.length > 0 ? { added, removed } : undefined;
+}
+
+function toPromptFile(prompt: PromptVersion): PromptFile {
+  return {
+    name: prompt.name,
+    type: prompt.type,
+    version: prompt.version,
+    prompt: prompt.prompt,
+    config: prompt.config,
+    labels: prompt.labels.filter(label => !MANAGED_LABELS.includes(label)),
+    tags: prompt.tags,
+  };
+}
+
+/**
+ * Read the existing file of a prompt, looking for both prompt types
+ */
+function readExistingFile(directory: string, name: string): { path: string; file: PromptFile } | undefined {
+  for (const type of ['text', 'chat'] as const) {
+    const path = promptFilePath(name, type);
+    if (existsSync(join(directory, path))) {
+      return { path, file: parsePromptFile(path, readFileSync(join(directory, path), 'utf8')) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Mirror prompts from Langfuse into a directory. Files changed since the
+ * version they were pulled from are left alone unless forced.
+ */
+export async function pullPrompts(
+  client: LangfuseAPIClient,
+  directory: string,
+  options: PullOptions = {}
+): Promise<PullResult[]> {
+  const label = options.label ?? 'latest';
+  const names = options.names ?? await listAllPromptNames(client);
+
+  return Promise.all(names.map(async (name): Promise<PullResult> => {
+    try {
+      const remote = await client.getPrompt({ name, label }, { priority: 'bulk' });
+      const path = promptFilePath(name, remote.type);
+      const existing = readExistingFile(directory, name);
+
+      let action: PullAction = 'create';
+      if (existing) {
+        if (existing.file.version === remote.version && sameContent(existing.file, remote)) {
+          return { name, path: existing.path, action: 'unchanged', version: remote.version };
+        }
+        // Only files that still match their base version are safe to overwrite
+        const base = existing.file.version === undefined
+          ? undefined
+          : existing.file.version === remote.version
+            ? remote
+            : await findPrompt(client, { name, version: existing.file.version });
+        const modified = !base || !sameContent(existing.file, base);
+        if (modified && !options.force) {
+          return {
+            name,
+            path: existing.path,
+            action: 'conflict',
+            version: remote.version,
+            reason: `${existing.path} has local changes since version ${existing.file.version ?? '(none)'}, push them or pull with force`,
+          };
+        }
+        action = 'update';
+      }
+
+      if (!options.dryRun) {
+        writePromptFile(directory, toPromptFile(remote), path);
+        // A prompt that changed type moves to the other file format
+        if (existing && existing.path !== path) {
+          unlinkSync(join(directory, existing.path));
+        }
+      }
+      return { name, path, action, version: remote.version };
+    } catch (error: any) {
+      return { name, action: 'error', reason: error.message };
+    }
+  }));
+}
+
+/**
+ * Create new versions for the files of a directory that differ from the
+ * version they are based on. Files whose prompt moved ahead in Langfuse are
+ * reported as conflicts when they were changed locally too. Created versions
+ * only get the labels passed in the options; label edits in files are
+ * reported as differences instead of being applied.
+ */
+export async function pushPrompts(
+  client: LangfuseAPIClient,
+  directory: string,
+  options: PushOptions = {}
+): Promise<PushResult[]> {
+  const files = readPromptDirectory(directory)
+    .filter(({ file }) => !options.names || options.names.includes(file.name));
+
+  return Promise.all(files.map(async ({ path, file }): Promise<PushResult> => {
+    const result: PushResult = { name: file.name, path, action: 'unchanged', baseVersion: file.version };
+    try {
+      validatePromptName(file.name);
+      validatePromptContent(file.type, file.prompt);
+      if (file.config) {
+        validatePromptConfig(file.config);
+      }
+      options.validateConfig?.(file.config ?? {});
+
+      const remote = await findPrompt(client, { name: file.name, label: 'latest' });
+      result.remoteVersion = remote?.version;
+
+      if (!remote) {
+        if (file.version !== undefined) {
+          return { ...result, action: 'conflict', reason: `'${file.name}' no longer exists in Langfuse` };
+        }
+        result.action = 'create';
+        result.labelDifference = labelDifference(file);
+      } else if (file.version === undefined) {
+        return { ...result, action: 'conflict', reason: `'${file.name}' already exists in Langfuse, pull it first` };
+      } else if (remote.version === file.version) {
+        result.labelDifference = labelDifference(file, remote);
+        if (sameContent(file, remote)) {
+          return result;
+        }
+        result.action = 'update';
+      } else {
+        const base = await findPrompt(client, { name: file.name, version: file.version });
+        result.labelDifference = labelDifference(file, base);
+        if (base && sameContent(file, base)) {
+          return { ...result, action: 'outdated', reason: `Langfuse is at version ${remote.version}, pull to update the file` };
+        }
+        return {
+          ...result,
+          action: 'conflict',
+          reason: `Langfuse moved from version ${file.version} to ${remote.version} and the file was changed too, pull with force or merge by hand`,
+        };
+      }
+
+      result.labels = (options.labels ?? []).filter(label => !MANAGED_LABELS.includes(label));
+      if (options.dryRun) {
+        return result;
+      }
+
+      const created = await client.createPrompt({
+        name: file.name,
+        type: file.type,
+        prompt: file.prompt,
+        config: file.config,
+        labels: result.labels,
+        tags: file.tags,
+        commitMessage: options.commitMessage ?? `Pushed from ${path}`,
+      }, { priority: 'bulk' });
+
+      // Record the new base version and its actual labels in the file
+      const labels = created.labels.filter(label => !MANAGED_LABELS.includes(label));
+      writePromptFile(directory, { ...file, version: created.version, labels }, path);
+      return { ...result, version: created.version };
+    } catch (error: any) {
+      return { ...result, action: 'error', reason: error.message };
+    }
+  }));
+}
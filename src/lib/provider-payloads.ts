@@ -0,0 +1,345 @@
+// Provider-specific request bodies for compiled prompts
+
+import {
+  ChatMessage,
+  ChatPromptItem,
+  ContentPart,
+  PromptConfig,
+  ValidationError,
+} from '../types/index.js';
+import { isPlaceholder } from './placeholders.js';
+
+export type Provider = 'openai-chat' | 'openai-responses' | 'anthropic' | 'gemini';
+
+export interface RenderedPayload {
+  provider: Provider;
+  model?: string;
+  payload: Record<string, unknown>;
+  // Config fields the provider has no parameter for, left out of the payload
+  unsupportedFields: string[];
+  warnings: string[];
+}
+
+type SamplingField = 'temperature' | 'maxTokens' | 'topP' | 'frequencyPenalty' | 'presencePenalty' | 'stopSequences';
+
+// Provider parameter names of the sampling fields of PromptConfig
+const SAMPLING_PARAMETERS: Record<Provider, Partial<Record<SamplingField, string>>> = {
+  'openai-chat': {
+    temperature: 'temperature',
+    maxTokens: 'max_completion_tokens',
+    topP: 'top_p',
+    frequencyPenalty: 'frequency_penalty',
+    presencePenalty: 'presence_penalty',
+    stopSequences: 'stop',
+  },
+  'openai-responses': {
+    temperature: 'temperature',
+    maxTokens: 'max_output_tokens',
+    topP: 'top_p',
+  },
+  'anthropic': {
+    temperature: 'temperature',
+    maxTokens: 'max_tokens',
+    topP: 'top_p',
+    stopSequences: 'stop_sequences',
+  },
+  'gemini': {
+    temperature: 'temperature',
+    maxTokens: 'maxOutputTokens',
+    topP: 'topP',
+    frequencyPenalty: 'frequencyPenalty',
+    presencePenalty: 'presencePenalty',
+    stopSequences: 'stopSequences',
+  },
+};
+
+// Native provider parameters that config may carry, passed through as is
+const NATIVE_PARAMETERS: Record<Provider, string[]> = {
+  'openai-chat': [
+    'response_format', 'tools', 'tool_choice', 'parallel_tool_calls', 'seed', 'n', 'logprobs',
+    'top_logprobs', 'logit_bias', 'reasoning_effort', 'user', 'metadata', 'store', 'stream',
+  ],
+  'openai-responses': [
+    'text', 'tools', 'tool_choice', 'parallel_tool_calls', 'reasoning', 'instructions', 'truncation',
+    'user', 'metadata', 'store', 'stream',
+  ],
+  'anthropic': ['tools', 'tool_choice', 'top_k', 'thinking', 'metadata', 'stream'],
+  'gemini': [
+    'tools', 'toolConfig', 'safetySettings', 'cachedContent',
+    'responseMimeType', 'responseSchema', 'topK', 'candidateCount', 'seed', 'thinkingConfig',
+  ],
+};
+
+// Gemini parameters outside of generationConfig
+const GEMINI_TOP_LEVEL = ['tools', 'toolConfig', 'safetySettings', 'cachedContent'];
+
+// Anthropic requires max_tokens
+const DEFAULT_ANTHROPIC_MAX_TOKENS = 4096;
+
+const DATA_URL_REGEX = /^data:([^;,]+);base64,(.*)$/s;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+/**
+ * Read a base64 image from a part, if it has or embeds one
+ */
+function base64Image(part: ContentPart): { mimeType: string; data: string } | undefined {
+  if (part.type === 'image_base64') {
+    return { mimeType: part.mimeType, data: part.data };
+  }
+  if (part.type === 'image_url') {
+    const match = DATA_URL_REGEX.exec(part.url);
+    return match ? { mimeType: match[1], data: match[2] } : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Get an image part as URL, with base64 images as data URL
+ */
+function imageUrl(part: Exclude<ContentPart, { type: 'text' }>): string {
+  return part.type === 'image_url' ? part.url : `data:${part.mimeType};base64,${part.data}`;
+}
+
+function contentParts(message: ChatMessage): ContentPart[] {
+  return typeof message.content === 'string'
+    ? (message.content ? [{ type: 'text', text: message.content }] : [])
+    : message.content;
+}
+
+function textOf(message: ChatMessage): string {
+  return contentParts(message).flatMap(part => part.type === 'text' ? [part.text] : []).join('\n');
+}
+
+function parseToolArguments(id: string, text: string): unknown {
+  try {
+    return JSON.parse(text || '{}');
+  } catch {
+    throw new ValidationError('prompt', `Arguments of tool call '${id}' are not valid JSON`);
+  }
+}
+
+function toOpenAIChatMessage(message: ChatMessage): Record<string, unknown> {
+  const result: Record<string, unknown> = {
+    role: message.role,
+    content: typeof message.content === 'string'
+      ? message.content
+      : message.content.map(part => part.type === 'text'
+          ? { type: 'text', text: part.text }
+          : {
+              type: 'image_url',
+              image_url: { url: imageUrl(part), ...(part.type === 'image_url' && part.detail && { detail: part.detail }) },
+            }),
+  };
+  if (message.toolCalls) {
+    result.tool_calls = message.toolCalls.map(call => ({
+      id: call.id,
+      type: 'function',
+      function: { name: call.name, arguments: call.arguments },
+    }));
+  }
+  if (message.toolCallId) {
+    result.tool_call_id = message.toolCallId;
+  }
+  return result;
+}
+
+function toOpenAIResponsesItems(message: ChatMessage): Record<string, unknown>[] {
+  if (message.role === 'tool') {
+    return [{ type: 'function_call_output', call_id: message.toolCallId, output: textOf(message) }];
+  }
+
+  const items: Record<string, unknown>[] = [];
+  const parts = contentParts(message);
+  if (parts.length > 0) {
+    const textType = message.role === 'assistant' ? 'output_text' : 'input_text';
+    items.push({
+      role: message.role,
+      content: parts.map(part => {
+        if (part.type === 'text') {
+          return { type: textType, text: part.text };
+        }
+        return { type: 'input_image', image_url: imageUrl(part), ...(part.type === 'image_url' && part.detail && { detail: part.detail }) };
+      }),
+    });
+  }
+  for (const call of message.toolCalls ?? []) {
+    items.push({ type: 'function_call', call_id: call.id, name: call.name, arguments: call.arguments });
+  }
+  return items;
+}
+
+function toAnthropicMessage(message: ChatMessage): Record<string, unknown> {
+  if (message.role === 'tool') {
+    return {
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: message.toolCallId, content: textOf(message) }],
+    };
+  }
+
+  const blocks: Record<string, unknown>[] = contentParts(message).map(part => {
+    if (part.type === 'text') {
+      return { type: 'text', text: part.text };
+    }
+    const image = base64Image(part);
+    return image
+      ? { type: 'image', source: { type: 'base64', media_type: image.mimeType, data: image.data } }
+      : { type: 'image', source: { type: 'url', url: imageUrl(part) } };
+  });
+  for (const call of message.toolCalls ?? []) {
+    blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: parseToolArguments(call.id, call.arguments) });
+  }
+
+  const content = blocks.length === 1 && blocks[0].type === 'text' ? blocks[0].text : blocks;
+  return { role: message.role === 'assistant' ? 'assistant' : 'user', content };
+}
+
+function toGeminiContent(
+  message: ChatMessage,
+  toolNames: Map<string, string>,
+  warnings: string[]
+): Record<string, unknown> {
+  if (message.role === 'tool') {
+    const text = textOf(message);
+    // Function responses must be objects
+    let response: unknown;
+    try {
+      response = JSON.parse(text);
+    } catch {
+      response = text;
+    }
+    if (response === null || typeof response !== 'object' || Array.isArray(response)) {
+      response = { content: response };
+    }
+    return {
+      role: 'user',
+      parts: [{ functionResponse: { name: toolNames.get(message.toolCallId ?? '') ?? message.toolCallId, response } }],
+    };
+  }
+
+  const parts: Record<string, unknown>[] = contentParts(message).map(part => {
+    if (part.type === 'text') {
+      return { text: part.text };
+    }
+    const image = base64Image(part);
+    if (image) {
+      return { inlineData: { mimeType: image.mimeType, data: image.data } };
+    }
+    const url = imageUrl(part);
+    const extension = url.split('?')[0].split('.').pop()?.toLowerCase() ?? '';
+    const mimeType = IMAGE_MIME_TYPES[extension];
+    if (!mimeType) {
+      warnings.push(`Could not tell the image type of '${url}', assuming image/jpeg`);
+    }
+    return { fileData: { mimeType: mimeType ?? 'image/jpeg', fileUri: url } };
+  });
+  for (const call of message.toolCalls ?? []) {
+    toolNames.set(call.id, call.name);
+    parts.push({ functionCall: { name: call.name, args: parseToolArguments(call.id, call.arguments) } });
+  }
+  return { role: message.role === 'assistant' ? 'model' : 'user', parts };
+}
+
+/**
+ * Build the request body of a provider API from a compiled prompt and its
+ * config. Sampling fields are renamed to the provider's parameters, native
+ * provider parameters in config are passed through and anything else is
+ * reported as unsupported.
+ */
+export function renderPayload(
+  provider: Provider,
+  prompt: string | ChatPromptItem[],
+  config: PromptConfig = {}
+): RenderedPayload {
+  const warnings: string[] = [];
+  const unsupportedFields: string[] = [];
+
+  const items: ChatPromptItem[] = typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : prompt;
+  const messages: ChatMessage[] = [];
+  for (const item of items) {
+    if (isPlaceholder(item)) {
+      warnings.push(`Placeholder '${item.name}' has no messages and was left out`);
+    } else {
+      messages.push(item);
+    }
+  }
+
+  // Map config onto provider parameters
+  const parameters: Record<string, unknown> = {};
+  const model = typeof config.model === 'string' ? config.model : undefined;
+  for (const [field, value] of Object.entries(config)) {
+    if (field === 'model' || value === undefined) {
+      continue;
+    }
+    const parameter = SAMPLING_PARAMETERS[provider][field as SamplingField];
+    if (parameter) {
+      parameters[parameter] = value;
+    } else if (NATIVE_PARAMETERS[provider].includes(field)) {
+      parameters[field] = value;
+    } else {
+      unsupportedFields.push(field);
+    }
+  }
+  if (!model) {
+    warnings.push('Config has no model, set it before sending the request');
+  }
+
+  let payload: Record<string, unknown>;
+  switch (provider) {
+    case 'openai-chat':
+      payload = { model, messages: messages.map(toOpenAIChatMessage), ...parameters };
+      break;
+
+    case 'openai-responses':
+      payload = {
+        model,
+        input: typeof prompt === 'string' ? prompt : messages.flatMap(toOpenAIResponsesItems),
+        ...parameters,
+      };
+      break;
+
+    case 'anthropic': {
+      // System and developer messages become the top-level system prompt
+      const system = messages.filter(m => m.role === 'system' || m.role === 'developer').map(textOf).join('\n\n');
+      if (parameters.max_tokens === undefined) {
+        warnings.push(`Anthropic requires max_tokens, using ${DEFAULT_ANTHROPIC_MAX_TOKENS}`);
+        parameters.max_tokens = DEFAULT_ANTHROPIC_MAX_TOKENS;
+      }
+      payload = {
+        model,
+        ...(system && { system }),
+        messages: messages.filter(m => m.role !== 'system' && m.role !== 'developer').map(toAnthropicMessage),
+        ...parameters,
+      };
+      break;
+    }
+
+    case 'gemini': {
+      // The model is part of the URL, not the body
+      const system = messages.filter(m => m.role === 'system' || m.role === 'developer').map(textOf).join('\n\n');
+      const toolNames = new Map<string, string>();
+      const topLevel = Object.fromEntries(Object.entries(parameters).filter(([key]) => GEMINI_TOP_LEVEL.includes(key)));
+      const generationConfig = Object.fromEntries(Object.entries(parameters).filter(([key]) => !GEMINI_TOP_LEVEL.includes(key)));
+      payload = {
+        ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+        contents: messages
+          .filter(m => m.role !== 'system' && m.role !== 'developer')
+          .map(message => toGeminiContent(message, toolNames, warnings)),
+        ...(Object.keys(generationConfig).length > 0 && { generationConfig }),
+        ...topLevel,
+      };
+      break;
+    }
+  }
+
+  if (unsupportedFields.length > 0) {
+    warnings.push(`Config fields not supported by ${provider} were left out: ${unsupportedFields.join(', ')}`);
+  }
+  return { provider, model, payload, unsupportedFields, warnings };
+}
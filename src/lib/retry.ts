@@ -0,0 +1,170 @@
+// Retry policy helpers and circuit breaker for Langfuse API requests
+
+import { RetryPolicy, RetryPolicyOptions } from '../types/index.js';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: true,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  // PATCH only replaces the label set of a version, so repeating it is safe
+  idempotentMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'PATCH'],
+  maxRetryAfterMs: 60000,
+  circuitBreaker: {
+    failureThreshold: 5,
+    resetTimeoutMs: 30000,
+  },
+};
+
+/**
+ * Merge a partial retry policy over the defaults
+ */
+export function resolveRetryPolicy(policy: RetryPolicyOptions = {}): RetryPolicy {
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...policy,
+    circuitBreaker: {
+      ...DEFAULT_RETRY_POLICY.circuitBreaker,
+      ...policy.circuitBreaker,
+    },
+  };
+}
+
+/**
+ * Check whether a request may be retried after the given failure.
+ * Non-idempotent methods are only retried when the server guarantees the
+ * request was not processed (429), so POSTs never create duplicate versions.
+ */
+export function isRetryable(
+  policy: RetryPolicy,
+  method: string,
+  failure: { status?: number; networkError?: boolean }
+): boolean {
+  const idempotent = policy.idempotentMethods.includes(method.toUpperCase());
+
+  if (failure.status === 429) {
+    return true;
+  }
+  if (!idempotent) {
+    return false;
+  }
+  if (failure.networkError) {
+    return true;
+  }
+  return failure.status !== undefined && policy.retryableStatuses.includes(failure.status);
+}
+
+/**
+ * Exponential backoff delay for a retry attempt (0-based), with full jitter
+ */
+export function computeBackoff(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+  return policy.jitter ? Math.floor(random() * delay) : delay;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker that fails fast after repeated failures and lets a
+ * single trial request through once the reset timeout has passed
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private options: RetryPolicy['circuitBreaker'],
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Get the current circuit state
+   */
+  getState(): CircuitState {
+    if (this.state === 'open' && this.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  /**
+   * Time at which an open circuit will allow a trial request
+   */
+  getRetryAt(): number {
+    return this.openedAt + this.options.resetTimeoutMs;
+  }
+
+  /**
+   * Check whether a request may be sent now
+   */
+  canRequest(): boolean {
+    const state = this.getState();
+    if (state === 'closed') {
+      return true;
+    }
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.state = 'half-open';
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Record a successful request, closing the circuit
+   */
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Give up a trial request that ended without showing whether Langfuse is
+   * up, so the next request can be the trial instead
+   */
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a failed request, opening the circuit at the threshold
+   */
+  recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+}
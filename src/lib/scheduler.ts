@@ -0,0 +1,111 @@
+// Token bucket request scheduler with concurrency limit and priorities
+
+import { RateLimitOptions, RequestPriority, SchedulerStats } from '../types/index.js';
+
+export const DEFAULT_RATE_LIMIT: RateLimitOptions = {
+  requestsPerMinute: 1000, // Langfuse API limit
+  burst: 50,
+  maxConcurrency: 10,
+};
+
+interface QueuedTask {
+  run: () => void;
+}
+
+export class RequestScheduler {
+  private options: RateLimitOptions;
+  private tokens: number;
+  private lastRefill: number;
+  private active = 0;
+  private completed = 0;
+  private queues: Record<RequestPriority, QueuedTask[]> = {
+    interactive: [],
+    bulk: [],
+  };
+  private timer?: NodeJS.Timeout;
+
+  constructor(options: Partial<RateLimitOptions> = {}, private now: () => number = Date.now) {
+    this.options = { ...DEFAULT_RATE_LIMIT, ...options };
+    this.tokens = this.options.burst;
+    this.lastRefill = this.now();
+  }
+
+  /**
+   * Run a task once a rate limit token and a concurrency slot are available.
+   * Interactive tasks always run before queued bulk tasks.
+   */
+  schedule<T>(task: () => Promise<T>, priority: RequestPriority = 'interactive'): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queues[priority].push({
+        run: () => {
+          this.active++;
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.completed++;
+              this.drain();
+            });
+        },
+      });
+      this.drain();
+    });
+  }
+
+  /**
+   * Get queue depth and capacity statistics
+   */
+  getStats(): SchedulerStats {
+    this.refill();
+    return {
+      queued: {
+        interactive: this.queues.interactive.length,
+        bulk: this.queues.bulk.length,
+      },
+      active: this.active,
+      completed: this.completed,
+      availableTokens: Math.floor(this.tokens),
+      requestsPerMinute: this.options.requestsPerMinute,
+      maxConcurrency: this.options.maxConcurrency,
+    };
+  }
+
+  /**
+   * Add tokens for the time elapsed since the last refill
+   */
+  private refill(): void {
+    const now = this.now();
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(
+      this.options.burst,
+      this.tokens + (elapsed * this.options.requestsPerMinute) / 60000
+    );
+    this.lastRefill = now;
+  }
+
+  /**
+   * Start as many queued tasks as tokens and concurrency allow
+   */
+  private drain(): void {
+    this.refill();
+
+    while (this.active < this.options.maxConcurrency && this.tokens >= 1) {
+      const next = this.queues.interactive.shift() || this.queues.bulk.shift();
+      if (!next) {
+        return;
+      }
+      this.tokens--;
+      next.run();
+    }
+
+    // Wait for the next token if tasks are blocked on the rate limit
+    const hasQueued = this.queues.interactive.length > 0 || this.queues.bulk.length > 0;
+    if (hasQueued && this.tokens < 1 && !this.timer) {
+      const waitMs = Math.ceil(((1 - this.tokens) * 60000) / this.options.requestsPerMinute);
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.drain();
+      }, waitMs);
+    }
+  }
+}
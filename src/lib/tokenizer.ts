@@ -0,0 +1,106 @@
+// Local token counting for compiled prompts
+
+import { Tiktoken, getEncoding } from 'js-tiktoken';
+import { ChatPromptItem, ContentPart } from '../types/index.js';
+import { isPlaceholder } from './placeholders.js';
+
+export type TokenizerName = 'o200k_base' | 'cl100k_base';
+
+export interface TokenizerChoice {
+  family: 'openai' | 'anthropic' | 'gemini' | 'other';
+  tokenizer: TokenizerName;
+  // False when the model's own tokenizer is not available locally
+  exact: boolean;
+}
+
+export interface TokenCount extends TokenizerChoice {
+  tokens: number;
+  messages: number;
+  images: number;
+}
+
+// Chat formats add a few tokens around every message and for the reply
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_REPLY = 3;
+
+// Images are priced by size, which is unknown here: a 1024x1024 image at high detail
+const IMAGE_TOKENS = { low: 85, high: 765 };
+
+const encoders = new Map<TokenizerName, Tiktoken>();
+
+function getEncoder(name: TokenizerName): Tiktoken {
+  let encoder = encoders.get(name);
+  if (!encoder) {
+    encoder = getEncoding(name);
+    encoders.set(name, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * Pick the tokenizer for a model. OpenAI models use their own encoding,
+ * other families are approximated with the closest available one.
+ */
+export function tokenizerForModel(model = ''): TokenizerChoice {
+  const name = model.toLowerCase();
+  if (/^(gpt-3\.5|gpt-4(?!o|\.)|text-embedding)/.test(name)) {
+    return { family: 'openai', tokenizer: 'cl100k_base', exact: true };
+  }
+  if (/^(gpt-|o\d|chatgpt-)/.test(name)) {
+    return { family: 'openai', tokenizer: 'o200k_base', exact: true };
+  }
+  if (name.startsWith('claude')) {
+    return { family: 'anthropic', tokenizer: 'cl100k_base', exact: false };
+  }
+  if (name.startsWith('gemini')) {
+    return { family: 'gemini', tokenizer: 'o200k_base', exact: false };
+  }
+  return { family: 'other', tokenizer: 'o200k_base', exact: false };
+}
+
+/**
+ * Count the tokens of a text
+ */
+export function countTextTokens(text: string, tokenizer: TokenizerName = 'o200k_base'): number {
+  // Special token markers in prompts are counted as plain text
+  return getEncoder(tokenizer).encode(text, [], []).length;
+}
+
+function countPartTokens(part: ContentPart, tokenizer: TokenizerName): number {
+  if (part.type === 'text') {
+    return countTextTokens(part.text, tokenizer);
+  }
+  return part.type === 'image_url' && part.detail === 'low' ? IMAGE_TOKENS.low : IMAGE_TOKENS.high;
+}
+
+/**
+ * Count the input tokens of a compiled prompt for a model. Unfilled
+ * placeholders count as empty.
+ */
+export function countPromptTokens(prompt: string | ChatPromptItem[], model?: string): TokenCount {
+  const choice = tokenizerForModel(model);
+  if (typeof prompt === 'string') {
+    return { ...choice, tokens: countTextTokens(prompt, choice.tokenizer), messages: 0, images: 0 };
+  }
+
+  let tokens = TOKENS_PER_REPLY;
+  let messages = 0;
+  let images = 0;
+  for (const item of prompt) {
+    if (isPlaceholder(item)) {
+      continue;
+    }
+    messages++;
+    tokens += TOKENS_PER_MESSAGE + countTextTokens(item.role, choice.tokenizer);
+
+    const parts: ContentPart[] = typeof item.content === 'string' ? [{ type: 'text', text: item.content }] : item.content;
+    for (const part of parts) {
+      images += part.type === 'text' ? 0 : 1;
+      tokens += countPartTokens(part, choice.tokenizer);
+    }
+    for (const call of item.toolCalls ?? []) {
+      tokens += countTextTokens(`${call.name}${call.arguments}`, choice.tokenizer);
+    }
+  }
+  return { ...choice, tokens, messages, images };
+}
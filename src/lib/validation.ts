@@ -1,31 +1,53 @@
 // Validation utilities for prompt management
 
-import { ValidationError, ChatMessage, PromptConfig } from '../types/index.js';
+import { ValidationError, ChatPromptItem, PromptConfig, TemplateError } from '../types/index.js';
+import {
+  RenderOptions,
+  renderTemplate,
+  renderTemplates,
+  VARIABLE_NAME_REGEX,
+  templateVariables,
+  validateTemplate,
+} from './mustache.js';
+import {
+  PLACEHOLDER_NAME_REGEX,
+  chatMessages,
+  extractPlaceholders,
+  fillPlaceholders,
+  isPlaceholder,
+} from './placeholders.js';
+import { CHAT_ROLES, CONTENT_PART_TYPES, mapMessageTexts, messageTexts } from './chat-content.js';
 
 /**
- * Extract mustache variables from a prompt template
+ * Extract mustache variables from a prompt template. Malformed templates
+ * fall back to a plain {{name}} scan, with a warning added to warnings.
  */
-export function extractVariables(prompt: string | ChatMessage[]): string[] {
-  const variables = new Set<string>();
-  const regex = /\{\{([^}]+)\}\}/g;
-
-  if (typeof prompt === 'string') {
-    // Extract from text prompt
-    let match;
-    while ((match = regex.exec(prompt)) !== null) {
-      variables.add(match[1].trim());
-    }
-  } else if (Array.isArray(prompt)) {
-    // Extract from chat messages
-    for (const message of prompt) {
-      let match;
-      while ((match = regex.exec(message.content)) !== null) {
-        variables.add(match[1].trim());
+export function extractVariables(
+  prompt: string | ChatPromptItem[],
+  partials?: Record<string, string>,
+  warnings: string[] = []
+): string[] {
+  const templates = typeof prompt === 'string' ? [prompt] : chatMessages(prompt).flatMap(messageTexts);
+  const variables = templates.flatMap(template => {
+    try {
+      return templateVariables(template, partials);
+    } catch (error) {
+      if (!(error instanceof TemplateError)) {
+        throw error;
       }
+      warnings.push(`Invalid template, variables were found by a plain scan: ${error.message}`);
+      return plainVariables(template);
     }
-  }
+  });
+  return Array.from(new Set(variables));
+}
 
-  return Array.from(variables);
+/**
+ * Find {{name}} variables without parsing the template
+ */
+function plainVariables(template: string): string[] {
+  const names = Array.from(template.matchAll(/\{\{([^{}]+)\}\}/g), match => match[1].trim());
+  return names.filter(name => VARIABLE_NAME_REGEX.test(name)).map(name => name.split('.')[0]);
 }
 
 /**
@@ -59,29 +81,113 @@ export function validatePromptContent(type: string, content: any): void {
     if (typeof content !== 'string') {
       throw new ValidationError('prompt', 'Text prompts must be a string');
     }
+    validatePromptTemplate(content);
   } else if (type === 'chat') {
     if (!Array.isArray(content)) {
       throw new ValidationError('prompt', 'Chat prompts must be an array of messages');
     }
 
     for (const message of content) {
-      if (!message.role || !message.content) {
-        throw new ValidationError('prompt', 'Each chat message must have role and content');
-      }
-
-      if (!['system', 'user', 'assistant'].includes(message.role)) {
-        throw new ValidationError('prompt', 'Message role must be system, user, or assistant');
+      if (message?.type === 'placeholder') {
+        if (typeof message.name !== 'string' || !PLACEHOLDER_NAME_REGEX.test(message.name)) {
+          throw new ValidationError('prompt', 'Placeholder name must start with a letter or underscore and contain only letters, numbers, and underscores');
+        }
+        continue;
       }
 
-      if (typeof message.content !== 'string') {
-        throw new ValidationError('prompt', 'Message content must be a string');
-      }
+      validateChatMessage(message);
     }
   } else {
     throw new ValidationError('type', 'Prompt type must be text or chat');
   }
 }
 
+/**
+ * Validate a chat message: its role, content parts and tool metadata
+ */
+function validateChatMessage(message: any): void {
+  const hasToolCalls = Array.isArray(message.toolCalls) && message.toolCalls.length > 0;
+  if (!message.role || (!message.content && !hasToolCalls)) {
+    throw new ValidationError('prompt', 'Each chat message must have role and content');
+  }
+
+  if (!CHAT_ROLES.includes(message.role)) {
+    throw new ValidationError('prompt', `Message role must be one of: ${CHAT_ROLES.join(', ')}`);
+  }
+
+  if (Array.isArray(message.content)) {
+    for (const part of message.content) {
+      validateContentPart(part);
+    }
+  } else if (typeof message.content !== 'string') {
+    throw new ValidationError('prompt', 'Message content must be a string or an array of content parts');
+  }
+
+  if (message.toolCalls !== undefined) {
+    if (message.role !== 'assistant' || !Array.isArray(message.toolCalls)) {
+      throw new ValidationError('prompt', 'Tool calls must be an array on an assistant message');
+    }
+    for (const call of message.toolCalls) {
+      if (typeof call?.id !== 'string' || typeof call.name !== 'string' || typeof call.arguments !== 'string') {
+        throw new ValidationError('prompt', 'Each tool call must have a string id, name and arguments');
+      }
+    }
+  }
+
+  if (message.role === 'tool' && typeof message.toolCallId !== 'string') {
+    throw new ValidationError('prompt', 'Tool messages must have the toolCallId they answer');
+  }
+
+  for (const template of messageTexts(message)) {
+    validatePromptTemplate(template);
+  }
+}
+
+/**
+ * Validate a text or image content part
+ */
+function validateContentPart(part: any): void {
+  if (!CONTENT_PART_TYPES.includes(part?.type)) {
+    throw new ValidationError('prompt', `Content part type must be one of: ${CONTENT_PART_TYPES.join(', ')}`);
+  }
+
+  if (part.type === 'text' && typeof part.text !== 'string') {
+    throw new ValidationError('prompt', 'Text parts must have a string text');
+  }
+
+  if (part.type === 'image_url') {
+    if (typeof part.url !== 'string' || !/^(https?:|data:image\/)/.test(part.url)) {
+      throw new ValidationError('prompt', 'Image URLs must be http(s) or data:image URLs');
+    }
+    if (part.detail !== undefined && !['auto', 'low', 'high'].includes(part.detail)) {
+      throw new ValidationError('prompt', 'Image detail must be auto, low, or high');
+    }
+  }
+
+  if (part.type === 'image_base64') {
+    if (typeof part.mimeType !== 'string' || !part.mimeType.startsWith('image/')) {
+      throw new ValidationError('prompt', 'Base64 images must have an image mimeType');
+    }
+    if (typeof part.data !== 'string' || !/^[A-Za-z0-9+/]+={0,2}$/.test(part.data)) {
+      throw new ValidationError('prompt', 'Base64 images must have base64 encoded data');
+    }
+  }
+}
+
+/**
+ * Validate that prompt content is a well-formed mustache template
+ */
+function validatePromptTemplate(template: string): void {
+  try {
+    validateTemplate(template);
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      throw new ValidationError('prompt', `Invalid template: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
 /**
  * Validate labels
  */
@@ -143,6 +249,10 @@ export function validateTags(tags: string[]): void {
  * Validate prompt config
  */
 export function validatePromptConfig(config: PromptConfig): void {
+  if (config === null || typeof config !== 'object' || Array.isArray(config)) {
+    throw new ValidationError('config', 'Config must be a JSON object');
+  }
+
   if (config.temperature !== undefined) {
     if (typeof config.temperature !== 'number' || config.temperature < 0 || config.temperature > 2) {
       throw new ValidationError('config.temperature', 'Temperature must be a number between 0 and 2');
@@ -187,31 +297,42 @@ export function validatePromptConfig(config: PromptConfig): void {
 }
 
 /**
- * Compile a prompt with variables
+ * Compile a prompt with variables. Arguments named after a placeholder
+ * replace it with their messages, which are inserted as given.
  */
 export function compilePrompt(
-  prompt: string | ChatMessage[],
-  variables: Record<string, string>
-): string | ChatMessage[] {
+  prompt: string | ChatPromptItem[],
+  variables: Record<string, unknown>,
+  options: RenderOptions = {}
+): string | ChatPromptItem[] {
   if (typeof prompt === 'string') {
-    return replaceVariables(prompt, variables);
-  } else {
-    return prompt.map(message => ({
-      ...message,
-      content: replaceVariables(message.content, variables),
-    }));
+    return renderTemplate(prompt, variables, options);
   }
-}
 
-/**
- * Replace mustache variables in a string
- */
-function replaceVariables(text: string, variables: Record<string, string>): string {
-  return text.replace(/\{\{([^}]+)\}\}/g, (match, varName) => {
-    const trimmedName = varName.trim();
-    if (trimmedName in variables) {
-      return variables[trimmedName];
+  const placeholders = extractPlaceholders(prompt);
+  const view = Object.fromEntries(Object.entries(variables).filter(([name]) => !placeholders.includes(name)));
+  const problems: string[] = [];
+
+  // Messages share the arguments, so strict checks cover the whole prompt
+  let contents: string[] = [];
+  try {
+    contents = renderTemplates(chatMessages(prompt).flatMap(messageTexts), view, options);
+  } catch (error) {
+    if (!(options.strict && error instanceof ValidationError)) {
+      throw error;
     }
-    return match; // Keep original if variable not provided
-  });
-}
\ No newline at end of file
+    problems.push(error.constraint);
+  }
+
+  let index = 0;
+  const rendered = prompt.map(item => isPlaceholder(item) ? item : mapMessageTexts(item, () => contents[index++]));
+  const filled = fillPlaceholders(rendered, variables);
+
+  if (options.strict && filled.missing.length > 0) {
+    problems.push(`Missing placeholders: ${filled.missing.join(', ')}`);
+  }
+  if (problems.length > 0) {
+    throw new ValidationError('arguments', problems.join('; '));
+  }
+  return filled.prompt;
+}
@@ -2,7 +2,7 @@
 
 import { z } from 'zod';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { LangfuseAPIClient } from '../lib/langfuse-client.js';
+import { ProjectRegistry } from '../lib/projects.js';
 import { CacheManager } from '../lib/cache.js';
 import { validatePromptName, validateLabels } from '../lib/validation.js';
 
@@ -16,15 +16,18 @@ const updateItemSchema = z.object({
 // Input schema for the tool
 export const batchUpdateLabelsSchema = z.object({
   updates: z.array(updateItemSchema).min(1).max(50).describe('Array of label updates to perform (max 50)'),
+  project: z.string().optional().describe('Langfuse project profile to use (defaults to the default project)'),
 });
 
 export type BatchUpdateLabelsInput = z.infer<typeof batchUpdateLabelsSchema>;
 
-export async function createBatchUpdateLabelsHandler(client: LangfuseAPIClient) {
+export async function createBatchUpdateLabelsHandler(projects: ProjectRegistry) {
   const cache = CacheManager.getInstance();
 
   return async function batchUpdateLabelsHandler(input: BatchUpdateLabelsInput): Promise<CallToolResult> {
     try {
+      const { project, client } = projects.resolve(input.project);
+
       // Validate all inputs first
       for (const update of input.updates) {
         validatePromptName(update.name);
@@ -35,15 +38,16 @@ export async function createBatchUpdateLabelsHandler(client: LangfuseAPIClient)
       const results = await client.batchUpdateLabels(input.updates);
 
       // Invalidate caches
-      cache.getCache('prompts-list').clear();
-      const promptCache = cache.getCache('prompts');
+      cache.getProjectCache(project, 'prompts-list').clear();
+      const promptCache = cache.getProjectCache(project, 'prompts');
       for (const update of input.updates) {
-        promptCache.invalidatePattern(update.name);
+        promptCache.invalidatePrefix(`${update.name}:`);
       }
 
       // Format results
       const successCount = results.length;
       const summary = {
+        project,
         totalRequested: input.updates.length,
         totalSuccessful: successCount,
         totalFailed: input.updates.length - successCount,
@@ -2,9 +2,9 @@
 
 import { z } from 'zod';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { LangfuseAPIClient } from '../lib/langfuse-client.js';
+import { ProjectRegistry } from '../lib/projects.js';
 import { CacheManager } from '../lib/cache.js';
-import { CreatePromptParams } from '../types/index.js';
+import { CreatePromptParams, ValidationError } from '../types/index.js';
 import {
   validatePromptName,
   validatePromptContent,
@@ -13,13 +13,52 @@ import {
   validatePromptConfig,
   extractVariables,
 } from '../lib/validation.js';
+import { extractPlaceholders } from '../lib/placeholders.js';
+import { LintResult, PromptLinter, formatLintIssue } from '../lib/prompt-lint.js';
+
+// Content part schema for multimodal messages
+const contentPartSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('text'),
+    text: z.string().describe('Text, compiled as a template'),
+  }),
+  z.object({
+    type: z.literal('image_url'),
+    url: z.string().describe('http(s) or data:image URL'),
+    detail: z.enum(['auto', 'low', 'high']).optional().describe('Image detail level'),
+  }),
+  z.object({
+    type: z.literal('image_base64'),
+    data: z.string().describe('Base64 encoded image'),
+    mimeType: z.string().describe("Image MIME type (e.g., 'image/png')"),
+  }),
+]);
+
+// Tool call schema
+const toolCallSchema = z.object({
+  id: z.string().describe('Tool call id'),
+  name: z.string().describe('Tool name'),
+  arguments: z.string().describe('JSON encoded tool arguments'),
+});
 
 // Chat message schema
 const chatMessageSchema = z.object({
-  role: z.enum(['system', 'user', 'assistant']).describe('Message role'),
-  content: z.string().describe('Message content'),
+  type: z.literal('chatmessage').optional(),
+  role: z.enum(['system', 'developer', 'user', 'assistant', 'tool']).describe('Message role'),
+  content: z.union([z.string(), z.array(contentPartSchema)]).describe('Message content, a string or an array of text and image parts'),
+  toolCalls: z.array(toolCallSchema).optional().describe('Tool calls requested by an assistant message'),
+  toolCallId: z.string().optional().describe('Tool call answered by a tool message'),
+});
+
+// Chat placeholder schema, replaced by a list of messages at compile time
+const chatPlaceholderSchema = z.object({
+  type: z.literal('placeholder'),
+  name: z.string().describe('Placeholder name, also the argument that provides its messages'),
 });
 
+// Item of a chat prompt, shared with import-prompts
+export const chatPromptItemSchema = z.union([chatMessageSchema, chatPlaceholderSchema]);
+
 // Prompt config schema
 const promptConfigSchema = z.object({
   model: z.string().optional().describe('Model name'),
@@ -29,7 +68,7 @@ const promptConfigSchema = z.object({
   frequencyPenalty: z.number().min(-2).max(2).optional().describe('Frequency penalty (-2 to 2)'),
   presencePenalty: z.number().min(-2).max(2).optional().describe('Presence penalty (-2 to 2)'),
   stopSequences: z.array(z.string()).optional().describe('Stop sequences'),
-}).optional();
+}).passthrough().optional();
 
 // Input schema for the tool
 export const createPromptSchema = z.object({
@@ -37,23 +76,40 @@ export const createPromptSchema = z.object({
   type: z.enum(['text', 'chat']).describe('Prompt type'),
   prompt: z.union([
     z.string().describe('Text prompt content'),
-    z.array(chatMessageSchema).describe('Chat prompt messages'),
+    z.array(chatPromptItemSchema).describe('Chat prompt messages and placeholders'),
   ]).describe('Prompt content (string for text, array for chat)'),
-  config: promptConfigSchema.describe('Model configuration'),
+  config: promptConfigSchema.describe('Model configuration, other JSON such as response_format or tools is kept as is'),
   labels: z.array(z.string()).optional().describe('Labels to assign'),
   tags: z.array(z.string()).optional().describe('Tags for categorization'),
   commitMessage: z.string().optional().describe('Version commit message'),
+  lint: z.boolean().optional().default(false).describe('Lint the prompt first and refuse it on lint errors'),
+  project: z.string().optional().describe('Langfuse project profile to use (defaults to the default project)'),
 });
 
 export type CreatePromptInput = z.infer<typeof createPromptSchema>;
 
-export async function createCreatePromptHandler(client: LangfuseAPIClient) {
+/**
+ * Lint a prompt before it is stored, throwing on issues with error severity
+ */
+export function lintBeforeCreate(linter: PromptLinter, prompt: CreatePromptParams['prompt']): LintResult {
+  const result = linter.lint(prompt);
+  if (!result.valid) {
+    const errors = result.issues.filter(issue => issue.severity === 'error').map(formatLintIssue);
+    throw new ValidationError('prompt', `Lint errors: ${errors.join('; ')}`);
+  }
+  return result;
+}
+
+export async function createCreatePromptHandler(projects: ProjectRegistry, linter: PromptLinter) {
   const cache = CacheManager.getInstance();
 
   return async function createPromptHandler(input: CreatePromptInput): Promise<CallToolResult> {
     try {
+      const { project, client, validateConfig } = projects.resolve(input.project);
+
       // Validate inputs
       validatePromptName(input.name);
+      const lint = input.lint ? lintBeforeCreate(linter, input.prompt) : undefined;
       validatePromptContent(input.type, input.prompt);
       
       if (input.labels) {
@@ -67,6 +123,7 @@ export async function createCreatePromptHandler(client: LangfuseAPIClient) {
       if (input.config) {
         validatePromptConfig(input.config);
       }
+      validateConfig?.(input.config ?? {});
 
       // Prepare create params
       const params: CreatePromptParams = {
@@ -83,8 +140,8 @@ export async function createCreatePromptHandler(client: LangfuseAPIClient) {
       const createdPrompt = await client.createPrompt(params);
 
       // Invalidate caches
-      cache.getCache('prompts-list').clear(); // Clear list cache
-      cache.getCache('prompts').invalidatePattern(input.name); // Clear specific prompt caches
+      cache.getProjectCache(project, 'prompts-list').clear(); // Clear list cache
+      cache.getProjectCache(project, 'prompts').invalidatePrefix(`${input.name}:`); // Clear specific prompt caches
 
       // Extract variables
       const variables = extractVariables(createdPrompt.prompt);
@@ -92,6 +149,7 @@ export async function createCreatePromptHandler(client: LangfuseAPIClient) {
       // Format the response
       const result = {
         success: true,
+        project,
         prompt: {
           name: createdPrompt.name,
           version: createdPrompt.version,
@@ -101,9 +159,11 @@ export async function createCreatePromptHandler(client: LangfuseAPIClient) {
           labels: createdPrompt.labels,
           tags: createdPrompt.tags,
           variables,
+          placeholders: extractPlaceholders(createdPrompt.prompt),
           createdAt: createdPrompt.createdAt,
           commitMessage: createdPrompt.commitMessage,
         },
+        lintIssues: lint?.issues,
         message: `Successfully created prompt '${input.name}' version ${createdPrompt.version}`,
       };
 
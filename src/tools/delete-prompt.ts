@@ -2,7 +2,7 @@
 
 import { z } from 'zod';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { LangfuseAPIClient } from '../lib/langfuse-client.js';
+import { ProjectRegistry } from '../lib/projects.js';
 import { validatePromptName } from '../lib/validation.js';
 
 // Input schema for the tool
@@ -10,13 +10,16 @@ export const deletePromptSchema = z.object({
   name: z.string().describe('Prompt name'),
   version: z.number().positive().optional().describe('Specific version to delete'),
   deleteAll: z.boolean().optional().describe('Delete all versions of the prompt'),
+  project: z.string().optional().describe('Langfuse project profile to use (defaults to the default project)'),
 });
 
 export type DeletePromptInput = z.infer<typeof deletePromptSchema>;
 
-export async function createDeletePromptHandler(client: LangfuseAPIClient) {
+export async function createDeletePromptHandler(projects: ProjectRegistry) {
   return async function deletePromptHandler(input: DeletePromptInput): Promise<CallToolResult> {
     try {
+      const { client } = projects.resolve(input.project);
+
       // Validate inputs
       validatePromptName(input.name);
 
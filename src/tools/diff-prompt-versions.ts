@@ -0,0 +1,102 @@
+// Diff prompt versions tool implementation
+
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ProjectRegistry } from '../lib/projects.js';
+import { diffConfig, diffMessages, unifiedDiff } from '../lib/diff.js';
+import { isPlaceholder } from '../lib/placeholders.js';
+import { messageText } from '../lib/chat-content.js';
+import { extractVariables, validatePromptName } from '../lib/validation.js';
+import { ChatPromptItem, GetPromptParams, PromptVersion } from '../types/index.js';
+
+const versionSelector = z.union([z.number().int().min(1), z.string().min(1)]);
+
+// Input schema for the tool
+export const diffPromptVersionsSchema = z.object({
+  name: z.string().describe('Name of the prompt'),
+  from: versionSelector.describe('Version number or label to compare from'),
+  to: versionSelector.describe("Version number or label to compare to (e.g., 'production')"),
+  project: z.string().optional().describe('Langfuse project profile to use (defaults to the default project)'),
+});
+
+export type DiffPromptVersionsInput = z.infer<typeof diffPromptVersionsSchema>;
+
+/**
+ * Render a prompt as text, one line per chat message
+ */
+function promptText(prompt: string | ChatPromptItem[]): string {
+  return typeof prompt === 'string'
+    ? prompt
+    : prompt.map(message => isPlaceholder(message)
+      ? `placeholder: ${message.name}`
+      : `${message.role}: ${messageText(message)}`).join('\n');
+}
+
+export async function createDiffPromptVersionsHandler(projects: ProjectRegistry) {
+  return async function diffPromptVersionsHandler(input: DiffPromptVersionsInput): Promise<CallToolResult> {
+    try {
+      validatePromptName(input.name);
+      const { project, client } = projects.resolve(input.project);
+
+      const select = (selector: number | string): GetPromptParams =>
+        typeof selector === 'number'
+          ? { name: input.name, version: selector }
+          : { name: input.name, label: selector };
+
+      const [from, to]: PromptVersion[] = await Promise.all([
+        client.getPrompt(select(input.from)),
+        client.getPrompt(select(input.to)),
+      ]);
+
+      const warnings: string[] = [];
+      const fromVariables = extractVariables(from.prompt, undefined, warnings);
+      const toVariables = extractVariables(to.prompt, undefined, warnings);
+      const fromLabel = `${input.name}@v${from.version}`;
+      const toLabel = `${input.name}@v${to.version}`;
+
+      // Chat prompts are compared message by message, anything else line by line
+      const bothChat = Array.isArray(from.prompt) && Array.isArray(to.prompt);
+      const contentDiff = bothChat
+        ? { messages: diffMessages(from.prompt as ChatPromptItem[], to.prompt as ChatPromptItem[]) }
+        : { text: unifiedDiff(promptText(from.prompt), promptText(to.prompt), { fromLabel, toLabel }) };
+      const config = diffConfig(from.config, to.config);
+      const typeChanged = from.type !== to.type;
+
+      // Different versions can hold the same prompt, so compare what they contain
+      const contentChanged = contentDiff.messages
+        ? contentDiff.messages.some(message => message.status !== 'unchanged')
+        : contentDiff.text !== '';
+
+      const result = {
+        name: input.name,
+        project,
+        from: { version: from.version, labels: from.labels, type: from.type },
+        to: { version: to.version, labels: to.labels, type: to.type },
+        identical: !typeChanged && !contentChanged && config.length === 0,
+        typeChanged,
+        ...contentDiff,
+        config,
+        variables: {
+          added: toVariables.filter(v => !fromVariables.includes(v)),
+          removed: fromVariables.filter(v => !toVariables.includes(v)),
+        },
+        warnings,
+      };
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error diffing prompt versions: ${error.message}`,
+        }],
+        isError: true,
+      };
+    }
+  };
+}
@@ -0,0 +1,100 @@
+// Estimate prompt cost tool implementation
+
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ProjectRegistry } from '../lib/projects.js';
+import { CacheManager } from '../lib/cache.js';
+import { compilePrompt, extractVariables } from '../lib/validation.js';
+import { extractPlaceholders } from '../lib/placeholders.js';
+import { createPromptLoader, resolveReferences } from '../lib/prompt-composition.js';
+import { CostEstimate, ModelPricing } from '../lib/model-pricing.js';
+import { PromptVersion } from '../types/index.js';
+
+// Input schema for the tool
+export const estimatePromptCostSchema = z.object({
+  name: z.string().describe('Prompt name'),
+  version: z.number().optional().describe('Specific version number'),
+  label: z.string().optional().describe("Label to fetch (e.g., 'production', 'latest')"),
+  compareVersion: z.number().optional().describe('Version to compare the estimate with'),
+  compareLabel: z.string().optional().describe('Label of the version to compare the estimate with'),
+  arguments: z.record(z.any()).optional().describe('Sample arguments to compile the prompt with (message arrays fill chat placeholders)'),
+  model: z.string().optional().describe("Model to estimate for (defaults to the model in the prompt's config)"),
+  project: z.string().optional().describe('Langfuse project profile to use (defaults to the default project)'),
+});
+
+export type EstimatePromptCostInput = z.infer<typeof estimatePromptCostSchema>;
+
+interface VersionEstimate extends CostEstimate {
+  version: number;
+  labels: string[];
+  missingArguments: string[];
+}
+
+export async function createEstimatePromptCostHandler(projects: ProjectRegistry, pricing: ModelPricing) {
+  const cacheManager = CacheManager.getInstance();
+
+  return async function estimatePromptCostHandler(input: EstimatePromptCostInput): Promise<CallToolResult> {
+    try {
+      const { project, client } = projects.resolve(input.project);
+      const cache = cacheManager.getProjectCache<PromptVersion>(project, 'prompts', {
+        ttl: 300,
+      });
+      const loadPrompt = createPromptLoader(client, cache);
+      const args = input.arguments || {};
+
+      // Compile with the sample arguments, unfilled variables are counted as written
+      const estimateVersion = async (version?: number, label?: string): Promise<VersionEstimate> => {
+        const prompt = await loadPrompt({ name: input.name, version, label });
+        const resolved = await resolveReferences(prompt, loadPrompt);
+        const compiled = compilePrompt(resolved.prompt, args, { strict: false });
+        const templateWarnings: string[] = [];
+        const missingArguments = [...extractVariables(resolved.prompt, undefined, templateWarnings), ...extractPlaceholders(resolved.prompt)]
+          .filter(name => args[name] === undefined);
+
+        const model = input.model ?? (typeof prompt.config?.model === 'string' ? prompt.config.model : undefined);
+        const estimate = pricing.estimate(compiled, model, prompt.config?.maxTokens);
+        if (missingArguments.length > 0) {
+          estimate.warnings.unshift(`Missing arguments counted as written: ${missingArguments.join(', ')}`);
+        }
+        estimate.warnings.unshift(...templateWarnings);
+        return { version: prompt.version, labels: prompt.labels, ...estimate, missingArguments };
+      };
+
+      const estimate = await estimateVersion(input.version, input.label);
+
+      let comparison;
+      if (input.compareVersion !== undefined || input.compareLabel !== undefined) {
+        const other = await estimateVersion(input.compareVersion, input.compareLabel);
+        comparison = {
+          ...other,
+          inputTokensDelta: estimate.inputTokens - other.inputTokens,
+          inputCostDelta: estimate.inputCost !== undefined && other.inputCost !== undefined
+            ? Math.round((estimate.inputCost - other.inputCost) * 1e6) / 1e6
+            : undefined,
+        };
+      }
+
+      const result = {
+        project,
+        name: input.name,
+        ...estimate,
+        comparison,
+      };
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error estimating prompt cost: ${error.message}`,
+        }],
+        isError: true,
+      };
+    }
+  };
+}
@@ -2,21 +2,29 @@
 
 import { z } from 'zod';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { LangfuseAPIClient } from '../lib/langfuse-client.js';
+import { ProjectRegistry } from '../lib/projects.js';
+import { ExportEntry, PROMPT_FORMATS, formatPrompts } from '../lib/prompt-formats.js';
+import { FileSandbox } from '../lib/file-sandbox.js';
+import { writeBundle } from '../lib/prompt-bundle.js';
 
 // Input schema for the tool
 export const exportPromptsSchema = z.object({
   names: z.array(z.string()).optional().describe('Specific prompt names to export (exports all if not specified)'),
   includeAllVersions: z.boolean().optional().default(false).describe('Export all versions or just latest'),
-  format: z.enum(['json', 'jsonl']).optional().default('json').describe('Export format'),
+  format: z.enum(PROMPT_FORMATS).optional().default('json').describe('Export format: json, jsonl, yaml (one document per prompt), markdown (front matter and body, chat roles as headings) or csv'),
+  csvRows: z.enum(['prompt', 'message']).optional().default('prompt').describe('CSV layout: one row per prompt, or one row per chat message'),
+  outputPath: z.string().optional().describe('Write the export below the files root instead of returning it: a file with a format extension, a .tar.gz/.tgz or .zip archive, or otherwise a directory with one file per prompt and a manifest of checksums'),
+  project: z.string().optional().describe('Langfuse project profile to use (defaults to the default project)'),
 });
 
 export type ExportPromptsInput = z.infer<typeof exportPromptsSchema>;
 
-export async function createExportPromptsHandler(client: LangfuseAPIClient) {
+export async function createExportPromptsHandler(projects: ProjectRegistry, sandbox: FileSandbox) {
   return async function exportPromptsHandler(input: ExportPromptsInput): Promise<CallToolResult> {
     try {
-      const exportData: any[] = [];
+      const { project, client } = projects.resolve(input.project);
+      // Check the path before fetching anything
+      const outputPath = input.outputPath !== undefined ? sandbox.resolve(input.outputPath) : undefined;
       let promptNames: string[] = [];
 
       // Get list of prompts to export
@@ -24,71 +32,74 @@ export async function createExportPromptsHandler(client: LangfuseAPIClient) {
         promptNames = input.names;
       } else {
         // Fetch all prompt names
-        const allPrompts = await client.listPrompts({ limit: 100 });
+        const allPrompts = await client.listPrompts({ limit: 100 }, { priority: 'bulk' });
         promptNames = allPrompts.data.map(p => p.name);
         
         // Handle pagination if needed
         if (allPrompts.meta.totalPages > 1) {
           for (let page = 2; page <= allPrompts.meta.totalPages; page++) {
-            const pageData = await client.listPrompts({ page, limit: 100 });
+            const pageData = await client.listPrompts({ page, limit: 100 }, { priority: 'bulk' });
             promptNames.push(...pageData.data.map(p => p.name));
           }
         }
       }
 
-      // Export each prompt
-      for (const name of promptNames) {
+      // Export each prompt, letting the client's scheduler bound concurrency and rate
+      const exported = await Promise.all(promptNames.map(async (name): Promise<ExportEntry[]> => {
         try {
-          if (input.includeAllVersions) {
-            // Get all versions (would need API support for listing versions)
-            // For now, just get the latest
-            const prompt = await client.getPrompt({ name });
-            exportData.push({
-              name: prompt.name,
-              version: prompt.version,
-              type: prompt.type,
-              prompt: prompt.prompt,
-              config: prompt.config,
-              labels: prompt.labels,
-              tags: prompt.tags,
-              commitMessage: prompt.commitMessage,
-              createdAt: prompt.createdAt,
-            });
-          } else {
-            // Get latest version
-            const prompt = await client.getPrompt({ name, label: 'latest' });
-            exportData.push({
-              name: prompt.name,
-              version: prompt.version,
-              type: prompt.type,
-              prompt: prompt.prompt,
-              config: prompt.config,
-              labels: prompt.labels,
-              tags: prompt.tags,
-              commitMessage: prompt.commitMessage,
-              createdAt: prompt.createdAt,
-            });
-          }
+          // All versions in version order, or just the latest version
+          const versions = input.includeAllVersions
+            ? await client.getPromptHistory(name, { priority: 'bulk' })
+            : [await client.getPrompt({ name, label: 'latest' }, { priority: 'bulk' })];
+          return versions.map(prompt => ({
+            name: prompt.name,
+            version: prompt.version,
+            type: prompt.type,
+            prompt: prompt.prompt,
+            config: prompt.config,
+            labels: prompt.labels,
+            tags: prompt.tags,
+            commitMessage: prompt.commitMessage,
+            createdAt: prompt.createdAt,
+          }));
         } catch (error: any) {
           // Include error in export for failed prompts
-          exportData.push({
+          return [{
             name,
             error: error.message,
-          });
+          }];
         }
+      }));
+      const exportData = exported.flat();
+
+      const totalVersions = exportData.filter(item => !('error' in item)).length;
+      const metadata = {
+        exportedAt: new Date().toISOString(),
+        project,
+        totalPrompts: promptNames.length,
+        totalVersions,
+      };
+
+      // Write to the path and return only a summary
+      if (outputPath) {
+        const written = writeBundle(outputPath, exportData, input.format, { csvRows: input.csvRows, metadata });
+        const summary = {
+          project,
+          ...written,
+          totalPrompts: promptNames.length,
+          totalVersions,
+          failed: exportData.filter(item => 'error' in item).map(item => item.name),
+        };
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(summary, null, 2),
+          }],
+        };
       }
 
       // Format output based on requested format
-      let output: string;
-      if (input.format === 'jsonl') {
-        output = exportData.map(item => JSON.stringify(item)).join('\n');
-      } else {
-        output = JSON.stringify({
-          exportedAt: new Date().toISOString(),
-          totalPrompts: exportData.length,
-          prompts: exportData,
-        }, null, 2);
-      }
+      const output = formatPrompts(exportData, input.format, { csvRows: input.csvRows, metadata });
 
       return {
         content: [{
@@ -2,75 +2,175 @@
 
 import { z } from 'zod';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { LangfuseAPIClient } from '../lib/langfuse-client.js';
+import { ProjectRegistry } from '../lib/projects.js';
 import { CacheManager } from '../lib/cache.js';
-import { PromptVersion } from '../types/index.js';
+import { PromptFallback, isUnavailableError } from '../lib/prompt-fallback.js';
+import { GetPromptParams, PromptSource, PromptVersion } from '../types/index.js';
 import { extractVariables, compilePrompt } from '../lib/validation.js';
+import { extractPlaceholders } from '../lib/placeholders.js';
+import { createPromptLoader, resolveReferences, ResolvedDependency } from '../lib/prompt-composition.js';
 
 // Input schema for the tool
 export const getPromptSchema = z.object({
   name: z.string().describe('Prompt name'),
   version: z.number().optional().describe('Specific version number'),
   label: z.string().optional().describe("Label to fetch (e.g., 'production', 'latest')"),
-  arguments: z.record(z.string()).optional().describe('Arguments to compile the prompt with'),
+  arguments: z.record(z.any()).optional().describe('Arguments to compile the prompt with (lists and objects fill mustache sections, message arrays fill chat placeholders)'),
+  strict: z.boolean().optional().default(false).describe('Fail on missing or unexpected arguments instead of leaving variables in place'),
+  partials: z.record(z.string()).optional().describe('Templates for {{> name}} partial tags, by name'),
+  escape: z.enum(['none', 'html']).optional().default('none').describe('Escaping of {{name}} output: none, or html; {{{name}}} and {{&name}} are never escaped'),
+  resolveReferences: z.boolean().optional().default(true).describe('Replace @@@langfusePrompt:...@@@ references with the referenced prompts'),
+  project: z.string().optional().describe('Langfuse project profile to use (defaults to the default project)'),
 });
 
 export type GetPromptInput = z.infer<typeof getPromptSchema>;
 
-export async function createGetPromptHandler(client: LangfuseAPIClient) {
-  const cache = CacheManager.getInstance().getCache<PromptVersion>('prompts', {
-    ttl: 300, // 5 minutes cache for individual prompts
-  });
+export async function createGetPromptHandler(projects: ProjectRegistry, fallback?: PromptFallback) {
+  const cacheManager = CacheManager.getInstance();
+  const refreshing = new Set<string>();
 
   return async function getPromptHandler(input: GetPromptInput): Promise<CallToolResult> {
     try {
+      const { project, client } = projects.resolve(input.project);
+      const cache = cacheManager.getProjectCache<PromptVersion>(project, 'prompts', {
+        ttl: 300, // 5 minutes cache for individual prompts
+      });
+
       // Create cache key
       const cacheKey = `${input.name}:${input.version || 'latest'}:${input.label || ''}`;
 
-      // Check cache first
-      const cachedPrompt = cache.get(cacheKey);
+      const params = {
+        name: input.name,
+        version: input.version,
+        label: input.label,
+      };
+
+      // Check cache first, including stale entries when stale-while-revalidate is enabled
+      const cached = cache.getWithStatus(cacheKey);
       let prompt: PromptVersion;
+      let source: PromptSource;
+      let ageSeconds: number | undefined = 0;
 
-      if (cachedPrompt) {
-        prompt = cachedPrompt;
+      if (cached) {
+        prompt = cached.data;
+        source = 'cache';
+        ageSeconds = cached.ageSeconds;
+
+        // Answer from the stale entry and refresh it in the background
+        const refreshKey = `${project}/${cacheKey}`;
+        if (cached.stale && !refreshing.has(refreshKey)) {
+          refreshing.add(refreshKey);
+          client.getPrompt(params, { priority: 'bulk' })
+            .then(fresh => {
+              cache.set(cacheKey, fresh);
+              fallback?.saveSnapshot(project, params, fresh);
+            })
+            .catch(error => console.error(`Background refresh of '${input.name}' failed:`, error.message))
+            .finally(() => refreshing.delete(refreshKey));
+        }
       } else {
-        // Fetch from API
-        prompt = await client.getPrompt({
-          name: input.name,
-          version: input.version,
-          label: input.label,
-        });
+        try {
+          // Fetch from API
+          prompt = await client.getPrompt(params);
+          source = 'live';
 
-        // Cache the result
-        cache.set(cacheKey, prompt);
+          // Cache the result and keep it as last-known-good snapshot
+          cache.set(cacheKey, prompt);
+          fallback?.saveSnapshot(project, params, prompt);
+        } catch (error: any) {
+          // Fall back to a local copy only when Langfuse is unreachable
+          const recovered = isUnavailableError(error) ? fallback?.recover(project, params) : null;
+          if (!recovered) {
+            throw error;
+          }
+          console.error(`Langfuse unavailable, serving '${input.name}' from ${recovered.source}:`, error.message);
+          prompt = recovered.prompt;
+          source = recovered.source;
+          ageSeconds = recovered.ageSeconds;
+        }
       }
 
-      // Extract variables
-      const variables = extractVariables(prompt.prompt);
+      // Resolve composition references, sub-prompts share the prompt cache.
+      // While Langfuse is unreachable they come from the local copies too.
+      const warnings: string[] = [];
+      let resolvedPrompt = prompt.prompt;
+      let resolvedDependencies: ResolvedDependency[] = [];
+      if (input.resolveReferences) {
+        const loadLive = createPromptLoader(client, cache, (refParams, referenced) =>
+          fallback?.saveSnapshot(project, refParams, referenced)
+        );
+        let offline = source === 'snapshot' || source === 'fallback';
+        let unavailable: string | undefined;
+        const loadPrompt = async (refParams: GetPromptParams): Promise<PromptVersion> => {
+          if (!offline) {
+            try {
+              return await loadLive(refParams);
+            } catch (error: any) {
+              if (!isUnavailableError(error)) {
+                throw error;
+              }
+              offline = true;
+            }
+          }
+          const recovered = fallback?.recover(project, refParams);
+          if (!recovered) {
+            unavailable = refParams.name;
+            throw new Error(`Referenced prompt '${refParams.name}' is not available while Langfuse is unreachable`);
+          }
+          return recovered.prompt;
+        };
 
-      // Compile prompt if arguments provided
-      let compiledPrompt = prompt.prompt;
-      if (input.arguments && Object.keys(input.arguments).length > 0) {
-        compiledPrompt = compilePrompt(prompt.prompt, input.arguments);
+        try {
+          const resolved = await resolveReferences(prompt, loadPrompt);
+          resolvedPrompt = resolved.prompt;
+          resolvedDependencies = resolved.dependencies;
+        } catch (error: any) {
+          if (unavailable === undefined) {
+            throw error;
+          }
+          warnings.push(`References were not resolved: ${error.message}`);
+        }
+      }
+
+      // Extract variables and chat placeholders, tolerating malformed templates
+      const variables = extractVariables(resolvedPrompt, input.partials, warnings);
+      const placeholders = extractPlaceholders(resolvedPrompt);
+
+      // Compile prompt if arguments or partials provided, strict mode always checks them
+      let compiledPrompt = resolvedPrompt;
+      const hasArguments = input.arguments && Object.keys(input.arguments).length > 0;
+      if (input.strict || hasArguments || input.partials) {
+        compiledPrompt = compilePrompt(resolvedPrompt, input.arguments || {}, {
+          strict: input.strict,
+          partials: input.partials,
+          escape: input.escape,
+        });
       }
 
       // Format the response
       const result = {
+        project,
         name: prompt.name,
         version: prompt.version,
         type: prompt.type,
         prompt: compiledPrompt,
         originalPrompt: prompt.prompt,
+        resolvedDependencies,
         config: prompt.config,
         labels: prompt.labels,
         tags: prompt.tags,
         variables,
+        placeholders,
         providedArguments: input.arguments || {},
-        missingArguments: variables.filter(v => !input.arguments?.[v]),
+        missingArguments: [...variables, ...placeholders].filter(v => input.arguments?.[v] === undefined),
         createdAt: prompt.createdAt,
         updatedAt: prompt.updatedAt,
         commitMessage: prompt.commitMessage,
-        cached: !!cachedPrompt,
+        cached: !!cached,
+        stale: cached?.stale ?? false,
+        source,
+        ageSeconds,
+        warnings,
       };
 
       return {
@@ -0,0 +1,47 @@
+// Get server status tool implementation
+
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ProjectRegistry } from '../lib/projects.js';
+
+// Input schema for the tool
+export const getServerStatusSchema = z.object({
+  project: z.string().optional().describe('Langfuse project profile to report on (defaults to all projects)'),
+});
+
+export type GetServerStatusInput = z.infer<typeof getServerStatusSchema>;
+
+export async function createGetServerStatusHandler(projects: ProjectRegistry) {
+  return async function getServerStatusHandler(input: GetServerStatusInput): Promise<CallToolResult> {
+    try {
+      const names = input.project ? [projects.resolve(input.project).project] : projects.listProjects();
+
+      const result = {
+        defaultProject: projects.getDefaultProject(),
+        projects: names.map(name => {
+          const { client } = projects.resolve(name);
+          return {
+            project: name,
+            circuitState: client.getCircuitState(),
+            scheduler: client.getSchedulerStats(),
+          };
+        }),
+      };
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error getting server status: ${error.message}`,
+        }],
+        isError: true,
+      };
+    }
+  };
+}
@@ -2,9 +2,9 @@
 
 import { z } from 'zod';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { LangfuseAPIClient } from '../lib/langfuse-client.js';
+import { ProjectRegistry } from '../lib/projects.js';
 import { CacheManager } from '../lib/cache.js';
-import { CreatePromptParams } from '../types/index.js';
+import { CreatePromptParams, ValidationError } from '../types/index.js';
 import {
   validatePromptName,
   validatePromptContent,
@@ -12,15 +12,18 @@ import {
   validateTags,
   validatePromptConfig,
 } from '../lib/validation.js';
+import { PromptLinter } from '../lib/prompt-lint.js';
+import { PROMPT_FORMATS, parsePrompts } from '../lib/prompt-formats.js';
+import { FileSandbox } from '../lib/file-sandbox.js';
+import { readBundle } from '../lib/prompt-bundle.js';
+import { IMPORT_STRATEGIES, LABEL_MODES, importPrompts } from '../lib/prompt-import.js';
+import { chatPromptItemSchema, lintBeforeCreate } from './create-prompt.js';
 
 // Schema for imported prompt
 const importedPromptSchema = z.object({
   name: z.string(),
   type: z.enum(['text', 'chat']),
-  prompt: z.union([z.string(), z.array(z.object({
-    role: z.enum(['system', 'user', 'assistant']),
-    content: z.string(),
-  }))]),
+  prompt: z.union([z.string(), z.array(chatPromptItemSchema)]),
   config: z.object({
     model: z.string().optional(),
     temperature: z.number().optional(),
@@ -29,7 +32,7 @@ const importedPromptSchema = z.object({
     frequencyPenalty: z.number().optional(),
     presencePenalty: z.number().optional(),
     stopSequences: z.array(z.string()).optional(),
-  }).optional(),
+  }).passthrough().optional(),
   labels: z.array(z.string()).optional(),
   tags: z.array(z.string()).optional(),
   commitMessage: z.string().optional(),
@@ -37,38 +40,46 @@ const importedPromptSchema = z.object({
 
 // Input schema for the tool
 export const importPromptsSchema = z.object({
-  data: z.string().describe('JSON or JSONL formatted prompt data to import'),
-  overwriteExisting: z.boolean().optional().default(false).describe('Overwrite existing prompts with same name'),
+  data: z.string().optional().describe('Prompt data to import, as written by export-prompts'),
+  inputPath: z.string().optional().describe('Import from a file, .tar.gz/.tgz or .zip archive, or directory below the files root instead of data, verifying manifest checksums'),
+  format: z.enum(PROMPT_FORMATS).optional().describe('Format of the data: json, jsonl, yaml, markdown or csv (defaults to json, falling back to jsonl, or to the file extension or manifest for inputPath)'),
+  strategy: z.enum(IMPORT_STRATEGIES).optional().describe('For prompts that already exist: skip-existing, new-version-if-changed (compares a hash of type, content and config with the latest version), always-new-version or fail-on-conflict (imports nothing if any content differs). Defaults to skip-existing, or always-new-version with overwriteExisting'),
+  labelMode: z.enum(LABEL_MODES).optional().default('apply').describe('apply moves the imported labels onto the imported or unchanged versions, keep leaves labels of existing prompts where they are'),
+  overwriteExisting: z.boolean().optional().default(false).describe('Deprecated, same as strategy always-new-version'),
   dryRun: z.boolean().optional().default(false).describe('Validate without actually importing'),
+  lint: z.boolean().optional().default(false).describe('Lint each prompt first and reject those with lint errors'),
+  project: z.string().optional().describe('Langfuse project profile to use (defaults to the default project)'),
 });
 
 export type ImportPromptsInput = z.infer<typeof importPromptsSchema>;
 
-export async function createImportPromptsHandler(client: LangfuseAPIClient) {
+export async function createImportPromptsHandler(projects: ProjectRegistry, linter: PromptLinter, sandbox: FileSandbox) {
   const cache = CacheManager.getInstance();
 
   return async function importPromptsHandler(input: ImportPromptsInput): Promise<CallToolResult> {
     try {
+      const { project, client, validateConfig } = projects.resolve(input.project);
+
+      if ((input.data === undefined) === (input.inputPath === undefined)) {
+        throw new ValidationError('data', 'Provide either data or inputPath');
+      }
+
       // Parse import data
       let prompts: any[] = [];
-      
-      // Try to parse as JSON first
-      try {
-        const parsed = JSON.parse(input.data);
-        if (parsed.prompts && Array.isArray(parsed.prompts)) {
-          prompts = parsed.prompts;
-        } else if (Array.isArray(parsed)) {
-          prompts = parsed;
-        } else {
-          prompts = [parsed];
-        }
-      } catch {
-        // Try JSONL format
-        const lines = input.data.trim().split('\n');
-        for (const line of lines) {
-          if (line.trim()) {
-            prompts.push(JSON.parse(line));
-          }
+      let source: { path: string; target: string; files: number; verified: boolean } | undefined;
+      if (input.inputPath !== undefined) {
+        const path = sandbox.resolve(input.inputPath);
+        const { records, ...read } = readBundle(path, input.format);
+        prompts = records;
+        source = { path, ...read };
+      } else if (input.format) {
+        prompts = parsePrompts(input.data!, input.format);
+      } else {
+        // Try to parse as JSON first, then as JSONL
+        try {
+          prompts = parsePrompts(input.data!, 'json');
+        } catch {
+          prompts = parsePrompts(input.data!, 'jsonl');
         }
       }
 
@@ -81,16 +92,21 @@ export async function createImportPromptsHandler(client: LangfuseAPIClient) {
       for (const prompt of prompts) {
         try {
           const parsed = importedPromptSchema.parse(prompt);
+          // Exports carry the 'latest' label Langfuse maintains itself
+          parsed.labels = parsed.labels?.filter(label => label !== 'latest');
           validatePromptName(parsed.name);
+          const lint = input.lint ? lintBeforeCreate(linter, parsed.prompt) : undefined;
           validatePromptContent(parsed.type, parsed.prompt);
           if (parsed.labels) validateLabels(parsed.labels);
           if (parsed.tags) validateTags(parsed.tags);
           if (parsed.config) validatePromptConfig(parsed.config);
+          validateConfig?.(parsed.config ?? {});
           
           validationResults.push({
             name: parsed.name,
             valid: true,
             data: parsed,
+            lintIssues: lint?.issues,
           });
         } catch (error: any) {
           validationResults.push({
@@ -105,86 +121,70 @@ export async function createImportPromptsHandler(client: LangfuseAPIClient) {
       const validPrompts = validationResults.filter(r => r.valid);
       const invalidPrompts = validationResults.filter(r => !r.valid);
 
+      const strategy = input.strategy ?? (input.overwriteExisting ? 'always-new-version' : 'skip-existing');
+      const params = validPrompts.map((validPrompt): CreatePromptParams => ({
+        name: validPrompt.data.name,
+        type: validPrompt.data.type,
+        prompt: validPrompt.data.prompt,
+        config: validPrompt.data.config,
+        labels: validPrompt.data.labels || [],
+        tags: validPrompt.data.tags || [],
+        commitMessage: validPrompt.data.commitMessage || 'Imported prompt',
+      }));
+
       if (input.dryRun) {
+        // Plan what the import would do, without writing
+        const plan = await importPrompts(client, params, { strategy, labelMode: input.labelMode, dryRun: true });
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               dryRun: true,
+              source,
+              strategy,
+              labelMode: input.labelMode,
               totalPrompts: prompts.length,
               validPrompts: validPrompts.length,
               invalidPrompts: invalidPrompts.length,
+              aborted: plan.aborted,
               validationResults: validationResults.map(r => ({
                 name: r.name,
                 valid: r.valid,
                 error: r.error,
+                lintIssues: r.lintIssues,
               })),
+              plannedResults: plan.results,
             }, null, 2),
           }],
         };
       }
 
-      // Import valid prompts
-      const importResults: any[] = [];
-      for (const validPrompt of validPrompts) {
-        try {
-          // Check if prompt exists
-          let shouldCreate = true;
-          if (!input.overwriteExisting) {
-            try {
-              await client.getPrompt({ name: validPrompt.data.name });
-              shouldCreate = false;
-              importResults.push({
-                name: validPrompt.data.name,
-                success: false,
-                skipped: true,
-                reason: 'Prompt already exists (use overwriteExisting to replace)',
-              });
-            } catch {
-              // Prompt doesn't exist, proceed with creation
-            }
-          }
-
-          if (shouldCreate) {
-            const params: CreatePromptParams = {
-              name: validPrompt.data.name,
-              type: validPrompt.data.type,
-              prompt: validPrompt.data.prompt,
-              config: validPrompt.data.config,
-              labels: validPrompt.data.labels || [],
-              tags: validPrompt.data.tags || [],
-              commitMessage: validPrompt.data.commitMessage || 'Imported prompt',
-            };
-
-            const created = await client.createPrompt(params);
-            importResults.push({
-              name: created.name,
-              success: true,
-              version: created.version,
-            });
-          }
-        } catch (error: any) {
-          importResults.push({
-            name: validPrompt.data.name,
-            success: false,
-            error: error.message,
-          });
-        }
-      }
+      // Import valid prompts, deduplicating by content hash according to the strategy
+      const { aborted, results } = await importPrompts(client, params, { strategy, labelMode: input.labelMode });
 
       // Clear caches
-      cache.getCache('prompts-list').clear();
-      cache.getCache('prompts').clear();
+      if (!aborted) {
+        cache.getProjectCache(project, 'prompts-list').clear();
+        cache.getProjectCache(project, 'prompts').clear();
+      }
 
       // Summary
+      const count = (action: string) => results.filter(r => r.action === action).length;
       const summary = {
+        project,
+        source,
         totalProcessed: prompts.length,
         totalValid: validPrompts.length,
         totalInvalid: invalidPrompts.length,
-        totalImported: importResults.filter(r => r.success && !r.skipped).length,
-        totalSkipped: importResults.filter(r => r.skipped).length,
-        totalFailed: importResults.filter(r => !r.success && !r.skipped).length,
-        results: importResults,
+        strategy,
+        labelMode: input.labelMode,
+        aborted,
+        totalImported: count('create') + count('new-version'),
+        totalUnchanged: count('unchanged'),
+        totalSkipped: count('skip'),
+        totalConflicts: count('conflict'),
+        totalFailed: count('error'),
+        results,
       };
 
       return {
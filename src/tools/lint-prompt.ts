@@ -0,0 +1,71 @@
+// Lint prompt tool implementation
+
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ProjectRegistry } from '../lib/projects.js';
+import { CacheManager } from '../lib/cache.js';
+import { createPromptLoader } from '../lib/prompt-composition.js';
+import { LINT_RULES, LINT_SEVERITIES, PromptLinter } from '../lib/prompt-lint.js';
+import { ChatPromptItem, PromptVersion, ValidationError } from '../types/index.js';
+import { chatPromptItemSchema } from './create-prompt.js';
+
+// Input schema for the tool
+export const lintPromptSchema = z.object({
+  name: z.string().optional().describe('Name of a stored prompt to lint'),
+  version: z.number().optional().describe('Specific version number'),
+  label: z.string().optional().describe("Label to fetch (e.g., 'production', 'latest')"),
+  prompt: z.union([
+    z.string().describe('Text prompt content'),
+    z.array(chatPromptItemSchema).describe('Chat prompt messages and placeholders'),
+  ]).optional().describe('Prompt content to lint instead of a stored prompt'),
+  arguments: z.record(z.any()).optional().describe('Sample arguments, reports variables and placeholders they do not fill'),
+  rules: z.record(z.enum(LINT_RULES), z.enum(LINT_SEVERITIES)).optional().describe(`Severity per rule (error, warning, info or off), overrides the configured ones. Rules: ${LINT_RULES.join(', ')}`),
+  project: z.string().optional().describe('Langfuse project profile to use (defaults to the default project)'),
+});
+
+export type LintPromptInput = z.infer<typeof lintPromptSchema>;
+
+export async function createLintPromptHandler(projects: ProjectRegistry, linter: PromptLinter) {
+  const cacheManager = CacheManager.getInstance();
+
+  return async function lintPromptHandler(input: LintPromptInput): Promise<CallToolResult> {
+    try {
+      if ((input.name === undefined) === (input.prompt === undefined)) {
+        throw new ValidationError('name', 'Provide either the name of a stored prompt or the prompt content');
+      }
+
+      let source: { project: string; name: string; version: number } | undefined;
+      let prompt: string | ChatPromptItem[] | undefined = input.prompt;
+      if (prompt === undefined) {
+        const { project, client } = projects.resolve(input.project);
+        const cache = cacheManager.getProjectCache<PromptVersion>(project, 'prompts', {
+          ttl: 300,
+        });
+        const stored = await createPromptLoader(client, cache)({
+          name: input.name!,
+          version: input.version,
+          label: input.label,
+        });
+        source = { project, name: stored.name, version: stored.version };
+        prompt = stored.prompt;
+      }
+
+      const lint = linter.lint(prompt, { rules: input.rules, arguments: input.arguments });
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ ...source, ...lint }, null, 2),
+        }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error linting prompt: ${error.message}`,
+        }],
+        isError: true,
+      };
+    }
+  };
+}
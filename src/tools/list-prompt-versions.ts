@@ -0,0 +1,67 @@
+// List prompt versions tool implementation
+
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ProjectRegistry } from '../lib/projects.js';
+
+// Input schema for the tool
+export const listPromptVersionsSchema = z.object({
+  name: z.string().describe('Name of the prompt'),
+  page: z.number().min(1).optional().describe('Page number for pagination'),
+  limit: z.number().min(1).max(100).optional().describe('Number of versions per page (default: 20, max: 100)'),
+  project: z.string().optional().describe('Langfuse project profile to use (defaults to the default project)'),
+});
+
+export type ListPromptVersionsInput = z.infer<typeof listPromptVersionsSchema>;
+
+export async function createListPromptVersionsHandler(projects: ProjectRegistry) {
+  return async function listPromptVersionsHandler(input: ListPromptVersionsInput): Promise<CallToolResult> {
+    try {
+      const { project, client } = projects.resolve(input.project);
+      const page = input.page || 1;
+      const limit = input.limit || 20;
+
+      // Newest versions first, only the requested page is fetched
+      const allVersions = (await client.listPromptVersions(input.name)).reverse();
+      const totalPages = Math.ceil(allVersions.length / limit);
+      const pageVersions = allVersions.slice((page - 1) * limit, page * limit);
+
+      const prompts = await client.getPromptVersions(input.name, pageVersions, { priority: 'bulk' });
+
+      const result = {
+        name: input.name,
+        project,
+        versions: prompts.reverse().map(prompt => ({
+          version: prompt.version,
+          labels: prompt.labels,
+          commitMessage: prompt.commitMessage,
+          createdBy: prompt.createdBy,
+          createdAt: prompt.createdAt,
+        })),
+        pagination: {
+          page,
+          limit,
+          totalPages,
+          totalItems: allVersions.length,
+          hasNextPage: page < totalPages,
+          hasPreviousPage: page > 1,
+        },
+      };
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error listing prompt versions: ${error.message}`,
+        }],
+        isError: true,
+      };
+    }
+  };
+}
@@ -2,7 +2,7 @@
 
 import { z } from 'zod';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { LangfuseAPIClient } from '../lib/langfuse-client.js';
+import { ProjectRegistry } from '../lib/projects.js';
 import { CacheManager } from '../lib/cache.js';
 import { ListPromptsParams, PaginatedResponse, PromptListItem } from '../types/index.js';
 
@@ -13,17 +13,21 @@ export const listPromptsSchema = z.object({
   tag: z.string().optional().describe('Filter by tag'),
   page: z.number().min(1).optional().describe('Page number for pagination'),
   limit: z.number().min(1).max(100).optional().describe('Number of results per page (default: 20, max: 100)'),
+  project: z.string().optional().describe('Langfuse project profile to use (defaults to the default project)'),
 });
 
 export type ListPromptsInput = z.infer<typeof listPromptsSchema>;
 
-export async function createListPromptsHandler(client: LangfuseAPIClient) {
-  const cache = CacheManager.getInstance().getCache<PaginatedResponse<PromptListItem>>('prompts-list', {
-    ttl: 60, // 1 minute cache for list operations
-  });
+export async function createListPromptsHandler(projects: ProjectRegistry) {
+  const cacheManager = CacheManager.getInstance();
 
   return async function listPromptsHandler(input: ListPromptsInput): Promise<CallToolResult> {
     try {
+      const { project, client } = projects.resolve(input.project);
+      const cache = cacheManager.getProjectCache<PaginatedResponse<PromptListItem>>(project, 'prompts-list', {
+        ttl: 60, // 1 minute cache for list operations
+      });
+
       // Create cache key from parameters
       const cacheKey = JSON.stringify({
         name: input.name || '',
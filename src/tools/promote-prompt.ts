@@ -0,0 +1,81 @@
+// Promote prompt tool implementation
+
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ProjectRegistry } from '../lib/projects.js';
+import { CacheManager } from '../lib/cache.js';
+import { promoteLabel } from '../lib/label-promotion.js';
+import { LabelJournal } from '../lib/label-journal.js';
+import { validatePromptName, validateLabels } from '../lib/validation.js';
+
+// Input schema for the tool
+export const promotePromptSchema = z.object({
+  name: z.string().describe('Prompt name'),
+  from: z.union([z.number().int().min(1), z.string().min(1)])
+    .describe("Version number or label of the version to promote (e.g., 'staging')"),
+  label: z.string().describe("Label to move to that version (e.g., 'production')"),
+  project: z.string().optional().describe('Langfuse project profile to use (defaults to the default project)'),
+});
+
+export type PromotePromptInput = z.infer<typeof promotePromptSchema>;
+
+export async function createPromotePromptHandler(projects: ProjectRegistry, journal?: LabelJournal) {
+  const cache = CacheManager.getInstance();
+
+  return async function promotePromptHandler(input: PromotePromptInput): Promise<CallToolResult> {
+    try {
+      const { project, client } = projects.resolve(input.project);
+
+      // Validate inputs
+      validatePromptName(input.name);
+      validateLabels([input.label]);
+
+      // Resolve the version to promote
+      const version = typeof input.from === 'number'
+        ? input.from
+        : (await client.getPrompt({ name: input.name, label: input.from })).version;
+
+      try {
+        const promotion = await promoteLabel(client, { name: input.name, version, label: input.label });
+        if (promotion.changes.length > 0) {
+          journal?.record({
+            project,
+            name: input.name,
+            label: input.label,
+            fromVersion: promotion.previousVersion,
+            toVersion: version,
+            reason: 'promote',
+          });
+        }
+
+        const result = {
+          success: true,
+          project,
+          ...promotion,
+          message: promotion.changes.length > 0
+            ? `Moved '${input.label}' of '${input.name}' from ${promotion.previousVersion ? `version ${promotion.previousVersion}` : 'no version'} to version ${version}`
+            : `'${input.label}' of '${input.name}' already points to version ${version}`,
+        };
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          }],
+        };
+      } finally {
+        // Labels may have changed even if the promotion failed
+        cache.getProjectCache(project, 'prompts-list').clear();
+        cache.getProjectCache(project, 'prompts').invalidatePrefix(`${input.name}:`);
+      }
+    } catch (error: any) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error promoting prompt: ${error.message}`,
+        }],
+        isError: true,
+      };
+    }
+  };
+}
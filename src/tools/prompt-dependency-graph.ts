@@ -0,0 +1,155 @@
+// Prompt dependency graph tool implementation
+
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ProjectRegistry } from '../lib/projects.js';
+import { LangfuseAPIClient } from '../lib/langfuse-client.js';
+import { buildDependencyGraph, findImpactedPrompts, LabelChange } from '../lib/dependency-graph.js';
+import { validatePromptName, validateLabels } from '../lib/validation.js';
+import { APIError, PromptVersion, UpdatePromptLabelsParams } from '../types/index.js';
+
+// Planned label update, in the format of update-prompt-labels and batch-update-labels
+const plannedUpdateSchema = z.object({
+  name: z.string().describe('Prompt name'),
+  version: z.number().positive().describe('Version to update'),
+  newLabels: z.array(z.string()).describe('New labels to set (replaces existing labels)'),
+});
+
+// Input schema for the tool
+export const promptDependencyGraphSchema = z.object({
+  name: z.string().optional().describe('Only show references from and to this prompt'),
+  labels: z.array(z.string()).optional().default(['production', 'latest']).describe('Labels whose versions are scanned for references'),
+  impact: z.array(plannedUpdateSchema).max(50).optional().describe('Planned label updates to analyze: lists every parent prompt whose output would change'),
+  project: z.string().optional().describe('Langfuse project profile to use (defaults to the default project)'),
+});
+
+export type PromptDependencyGraphInput = z.infer<typeof promptDependencyGraphSchema>;
+
+/**
+ * Get a prompt, or undefined when it does not exist
+ */
+async function findPrompt(
+  client: LangfuseAPIClient,
+  params: { name: string; version?: number; label?: string }
+): Promise<PromptVersion | undefined> {
+  try {
+    return await client.getPrompt(params, { priority: 'bulk' });
+  } catch (error) {
+    if (error instanceof APIError && error.status === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Work out which labels a planned update would move or remove, ignoring
+ * moves between versions with the same content
+ */
+async function planLabelChanges(
+  client: LangfuseAPIClient,
+  update: UpdatePromptLabelsParams
+): Promise<LabelChange[]> {
+  const target = await findPrompt(client, { name: update.name, version: update.version });
+  if (!target) {
+    throw new Error(`Version ${update.version} of '${update.name}' not found`);
+  }
+
+  const changes: LabelChange[] = [];
+  for (const label of update.newLabels.filter(l => l !== 'latest')) {
+    const holder = await findPrompt(client, { name: update.name, label });
+    if (holder?.version === target.version) {
+      continue;
+    }
+    if (holder && JSON.stringify(holder.prompt) === JSON.stringify(target.prompt)) {
+      continue;
+    }
+    changes.push({ name: update.name, label, fromVersion: holder?.version, toVersion: target.version });
+  }
+
+  // Labels not in newLabels are taken off the version
+  for (const label of target.labels.filter(l => l !== 'latest' && !update.newLabels.includes(l))) {
+    changes.push({ name: update.name, label, fromVersion: target.version });
+  }
+  return changes;
+}
+
+export async function createPromptDependencyGraphHandler(projects: ProjectRegistry) {
+  return async function promptDependencyGraphHandler(input: PromptDependencyGraphInput): Promise<CallToolResult> {
+    try {
+      const { project, client } = projects.resolve(input.project);
+
+      // Validate inputs
+      if (input.name) {
+        validatePromptName(input.name);
+      }
+      // 'latest' can be read but not set, so it is only rejected in planned updates
+      validateLabels(input.labels.filter(label => label !== 'latest'));
+      for (const update of input.impact ?? []) {
+        validatePromptName(update.name);
+        validateLabels(update.newLabels);
+      }
+
+      // Fetch all prompts
+      const firstPage = await client.listPrompts({ limit: 100 }, { priority: 'bulk' });
+      const items = [...firstPage.data];
+      for (let page = 2; page <= firstPage.meta.totalPages; page++) {
+        const pageData = await client.listPrompts({ page, limit: 100 }, { priority: 'bulk' });
+        items.push(...pageData.data);
+      }
+
+      // Scan the labelled versions of every prompt for references
+      const scanned = await Promise.all(items.flatMap(item =>
+        input.labels
+          .filter(label => label === 'latest' || item.labels.includes(label))
+          .map(label => findPrompt(client, { name: item.name, label }))
+      ));
+      const graph = buildDependencyGraph(scanned.filter((p): p is PromptVersion => p !== undefined));
+
+      const edges = input.name
+        ? graph.edges.filter(edge => edge.from === input.name || edge.to === input.name)
+        : graph.edges;
+      const nodes = input.name
+        ? graph.nodes.filter(node =>
+          node.name === input.name || edges.some(edge => edge.from === node.name || edge.to === node.name)
+        )
+        : graph.nodes;
+
+      let impact;
+      if (input.impact) {
+        const changes = (await Promise.all(input.impact.map(update => planLabelChanges(client, update)))).flat();
+        const impactedPrompts = findImpactedPrompts(graph, changes);
+        impact = {
+          changes,
+          impactedPrompts,
+          message: impactedPrompts.length === 0
+            ? 'No scanned parent prompt would change'
+            : `${impactedPrompts.length} parent prompt version(s) would change`,
+        };
+      }
+
+      const result = {
+        project,
+        scannedLabels: input.labels,
+        nodes,
+        edges,
+        impact,
+      };
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error building dependency graph: ${error.message}`,
+        }],
+        isError: true,
+      };
+    }
+  };
+}
@@ -0,0 +1,63 @@
+// Pull prompts tool implementation
+
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ProjectRegistry } from '../lib/projects.js';
+import { FileSandbox } from '../lib/file-sandbox.js';
+import { pullPrompts } from '../lib/prompt-sync.js';
+
+// Input schema for the tool
+export const pullPromptsSchema = z.object({
+  directory: z.string().describe('Prompts directory below the files root, prompt names map to paths below it'),
+  names: z.array(z.string()).optional().describe('Specific prompt names to pull (pulls all if not specified)'),
+  label: z.string().optional().default('latest').describe('Label of the version to pull'),
+  force: z.boolean().optional().default(false).describe('Overwrite files with local changes'),
+  dryRun: z.boolean().optional().default(false).describe('Plan the pull without writing files'),
+  project: z.string().optional().describe('Langfuse project profile to use (defaults to the default project)'),
+});
+
+export type PullPromptsInput = z.infer<typeof pullPromptsSchema>;
+
+export async function createPullPromptsHandler(projects: ProjectRegistry, sandbox: FileSandbox) {
+  return async function pullPromptsHandler(input: PullPromptsInput): Promise<CallToolResult> {
+    try {
+      const { project, client } = projects.resolve(input.project);
+      const directory = sandbox.resolve(input.directory);
+
+      const results = await pullPrompts(client, directory, {
+        names: input.names,
+        label: input.label,
+        force: input.force,
+        dryRun: input.dryRun,
+      });
+
+      const count = (action: string) => results.filter(r => r.action === action).length;
+      const summary = {
+        project,
+        directory,
+        dryRun: input.dryRun,
+        created: count('create'),
+        updated: count('update'),
+        unchanged: count('unchanged'),
+        conflicts: count('conflict'),
+        failed: count('error'),
+        results,
+      };
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(summary, null, 2),
+        }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error pulling prompts: ${error.message}`,
+        }],
+        isError: true,
+      };
+    }
+  };
+}
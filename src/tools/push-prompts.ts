@@ -0,0 +1,82 @@
+// Push prompts tool implementation
+
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ProjectRegistry } from '../lib/projects.js';
+import { FileSandbox } from '../lib/file-sandbox.js';
+import { CacheManager } from '../lib/cache.js';
+import { pushPrompts } from '../lib/prompt-sync.js';
+import { validateLabels } from '../lib/validation.js';
+
+// Input schema for the tool
+export const pushPromptsSchema = z.object({
+  directory: z.string().describe('Prompts directory below the files root, written by pull-prompts'),
+  names: z.array(z.string()).optional().describe('Specific prompt names to push (pushes all changed files if not specified)'),
+  commitMessage: z.string().optional().describe('Commit message of the created versions (defaults to the file path)'),
+  labels: z.array(z.string()).optional().describe('Labels to set on the created versions, e.g. staging. Labels listed in the files are never pushed, differences are reported'),
+  dryRun: z.boolean().optional().default(false).describe('Plan the push without creating versions'),
+  project: z.string().optional().describe('Langfuse project profile to use (defaults to the default project)'),
+});
+
+export type PushPromptsInput = z.infer<typeof pushPromptsSchema>;
+
+export async function createPushPromptsHandler(projects: ProjectRegistry, sandbox: FileSandbox) {
+  const cache = CacheManager.getInstance();
+
+  return async function pushPromptsHandler(input: PushPromptsInput): Promise<CallToolResult> {
+    try {
+      const { project, client, validateConfig } = projects.resolve(input.project);
+      const directory = sandbox.resolve(input.directory);
+      if (input.labels) {
+        validateLabels(input.labels);
+      }
+
+      const results = await pushPrompts(client, directory, {
+        names: input.names,
+        commitMessage: input.commitMessage,
+        labels: input.labels,
+        dryRun: input.dryRun,
+        validateConfig,
+      });
+
+      // Invalidate caches of the prompts that got new versions
+      const pushed = results.filter(r => r.version !== undefined);
+      if (pushed.length > 0) {
+        cache.getProjectCache(project, 'prompts-list').clear();
+        for (const result of pushed) {
+          cache.getProjectCache(project, 'prompts').invalidatePrefix(`${result.name}:`);
+        }
+      }
+
+      const count = (action: string) => results.filter(r => r.action === action).length;
+      const summary = {
+        project,
+        directory,
+        dryRun: input.dryRun,
+        created: count('create'),
+        updated: count('update'),
+        unchanged: count('unchanged'),
+        outdated: count('outdated'),
+        conflicts: count('conflict'),
+        failed: count('error'),
+        labelDifferences: results.filter(r => r.labelDifference).length,
+        results,
+      };
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(summary, null, 2),
+        }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error pushing prompts: ${error.message}`,
+        }],
+        isError: true,
+      };
+    }
+  };
+}
@@ -0,0 +1,71 @@
+// Render prompt tool implementation
+
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ProjectRegistry } from '../lib/projects.js';
+import { CacheManager } from '../lib/cache.js';
+import { compilePrompt } from '../lib/validation.js';
+import { createPromptLoader, resolveReferences } from '../lib/prompt-composition.js';
+import { renderPayload } from '../lib/provider-payloads.js';
+import { PromptVersion } from '../types/index.js';
+
+// Input schema for the tool
+export const renderPromptSchema = z.object({
+  name: z.string().describe('Prompt name'),
+  version: z.number().optional().describe('Specific version number'),
+  label: z.string().optional().describe("Label to fetch (e.g., 'production', 'latest')"),
+  provider: z.enum(['openai-chat', 'openai-responses', 'anthropic', 'gemini']).describe('API to render the request body for: openai-chat, openai-responses, anthropic or gemini'),
+  arguments: z.record(z.any()).optional().describe('Arguments to compile the prompt with (message arrays fill chat placeholders)'),
+  strict: z.boolean().optional().default(true).describe('Fail on missing or unexpected arguments instead of leaving variables in place'),
+  project: z.string().optional().describe('Langfuse project profile to use (defaults to the default project)'),
+});
+
+export type RenderPromptInput = z.infer<typeof renderPromptSchema>;
+
+export async function createRenderPromptHandler(projects: ProjectRegistry) {
+  const cacheManager = CacheManager.getInstance();
+
+  return async function renderPromptHandler(input: RenderPromptInput): Promise<CallToolResult> {
+    try {
+      const { project, client } = projects.resolve(input.project);
+      const cache = cacheManager.getProjectCache<PromptVersion>(project, 'prompts', {
+        ttl: 300,
+      });
+
+      // Prompts and referenced prompts share the get-prompt cache
+      const loadPrompt = createPromptLoader(client, cache);
+
+      const prompt = await loadPrompt({ name: input.name, version: input.version, label: input.label });
+      const resolved = await resolveReferences(prompt, loadPrompt);
+      const compiled = compilePrompt(resolved.prompt, input.arguments || {}, { strict: input.strict });
+      const rendered = renderPayload(input.provider, compiled, prompt.config);
+
+      const result = {
+        project,
+        name: prompt.name,
+        version: prompt.version,
+        provider: rendered.provider,
+        model: rendered.model,
+        payload: rendered.payload,
+        unsupportedFields: rendered.unsupportedFields,
+        warnings: rendered.warnings,
+        resolvedDependencies: resolved.dependencies,
+      };
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error rendering prompt: ${error.message}`,
+        }],
+        isError: true,
+      };
+    }
+  };
+}
@@ -0,0 +1,115 @@
+// Rollback prompt tool implementation
+
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ProjectRegistry } from '../lib/projects.js';
+import { CacheManager } from '../lib/cache.js';
+import { promoteLabel } from '../lib/label-promotion.js';
+import { LabelJournal } from '../lib/label-journal.js';
+import { validatePromptName, validateLabels } from '../lib/validation.js';
+
+// Input schema for the tool
+export const rollbackPromptSchema = z.object({
+  name: z.string().describe('Prompt name'),
+  label: z.string().optional().default('production').describe('Label to move back to its previous version'),
+  toVersion: z.number().int().positive().optional()
+    .describe('Version to move the label to, required when the label journal has no record of the last promotion'),
+  project: z.string().optional().describe('Langfuse project profile to use (defaults to the default project)'),
+});
+
+export type RollbackPromptInput = z.infer<typeof rollbackPromptSchema>;
+
+export async function createRollbackPromptHandler(projects: ProjectRegistry, journal?: LabelJournal) {
+  const cache = CacheManager.getInstance();
+
+  return async function rollbackPromptHandler(input: RollbackPromptInput): Promise<CallToolResult> {
+    try {
+      const { project, client } = projects.resolve(input.project);
+
+      // Validate inputs
+      validatePromptName(input.name);
+      validateLabels([input.label]);
+
+      const current = await client.getPrompt({ name: input.name, label: input.label });
+
+      // Use the explicit target, otherwise the recorded promotion. Langfuse keeps
+      // no label history, so without either the previous version is unknown.
+      let previousVersion: number | undefined;
+      let basis: 'explicit' | 'journal';
+      const promotion = input.toVersion === undefined
+        ? journal?.findPromotion(project, input.name, input.label, current.version)
+        : undefined;
+      if (input.toVersion !== undefined) {
+        basis = 'explicit';
+        previousVersion = input.toVersion;
+        if (previousVersion === current.version) {
+          throw new Error(`'${input.label}' is already on version ${current.version}`);
+        }
+        const versions = await client.listPromptVersions(input.name);
+        if (!versions.includes(previousVersion)) {
+          throw new Error(`Version ${previousVersion} of '${input.name}' does not exist`);
+        }
+      } else if (promotion) {
+        basis = 'journal';
+        previousVersion = promotion.fromVersion;
+        if (previousVersion === undefined) {
+          throw new Error(
+            `'${input.label}' was first set on version ${current.version}, there is no previous version to roll back to`
+          );
+        }
+      } else {
+        throw new Error(
+          `The label journal has no record of '${input.label}' moving to version ${current.version}, ` +
+          'pass toVersion to choose the version to roll back to'
+        );
+      }
+
+      try {
+        const rollback = await promoteLabel(client, {
+          name: input.name,
+          version: previousVersion,
+          label: input.label,
+        });
+        journal?.record({
+          project,
+          name: input.name,
+          label: input.label,
+          fromVersion: current.version,
+          toVersion: previousVersion,
+          reason: 'rollback',
+        });
+
+        const result = {
+          success: true,
+          project,
+          name: input.name,
+          label: input.label,
+          fromVersion: current.version,
+          toVersion: previousVersion,
+          basis,
+          changes: rollback.changes,
+          message: `Rolled back '${input.label}' of '${input.name}' from version ${current.version} to version ${previousVersion}`,
+        };
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          }],
+        };
+      } finally {
+        // Labels may have changed even if the rollback failed
+        cache.getProjectCache(project, 'prompts-list').clear();
+        cache.getProjectCache(project, 'prompts').invalidatePrefix(`${input.name}:`);
+      }
+    } catch (error: any) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error rolling back prompt: ${error.message}`,
+        }],
+        isError: true,
+      };
+    }
+  };
+}
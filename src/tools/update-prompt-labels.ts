@@ -2,7 +2,7 @@
 
 import { z } from 'zod';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { LangfuseAPIClient } from '../lib/langfuse-client.js';
+import { ProjectRegistry } from '../lib/projects.js';
 import { CacheManager } from '../lib/cache.js';
 import { UpdatePromptLabelsParams } from '../types/index.js';
 import { validatePromptName, validateLabels } from '../lib/validation.js';
@@ -12,15 +12,18 @@ export const updatePromptLabelsSchema = z.object({
   name: z.string().describe('Prompt name'),
   version: z.number().positive().describe('Version to update'),
   newLabels: z.array(z.string()).describe('New labels to set (replaces existing labels)'),
+  project: z.string().optional().describe('Langfuse project profile to use (defaults to the default project)'),
 });
 
 export type UpdatePromptLabelsInput = z.infer<typeof updatePromptLabelsSchema>;
 
-export async function createUpdatePromptLabelsHandler(client: LangfuseAPIClient) {
+export async function createUpdatePromptLabelsHandler(projects: ProjectRegistry) {
   const cache = CacheManager.getInstance();
 
   return async function updatePromptLabelsHandler(input: UpdatePromptLabelsInput): Promise<CallToolResult> {
     try {
+      const { project, client } = projects.resolve(input.project);
+
       // Validate inputs
       validatePromptName(input.name);
       validateLabels(input.newLabels);
@@ -36,12 +39,13 @@ export async function createUpdatePromptLabelsHandler(client: LangfuseAPIClient)
       const updatedPrompt = await client.updatePromptLabels(params);
 
       // Invalidate caches
-      cache.getCache('prompts-list').clear(); // Clear list cache
-      cache.getCache('prompts').invalidatePattern(input.name); // Clear specific prompt caches
+      cache.getProjectCache(project, 'prompts-list').clear(); // Clear list cache
+      cache.getProjectCache(project, 'prompts').invalidatePrefix(`${input.name}:`); // Clear specific prompt caches
 
       // Format the response
       const result = {
         success: true,
+        project,
         prompt: {
           name: updatedPrompt.name,
           version: updatedPrompt.version,
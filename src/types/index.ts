@@ -6,6 +6,81 @@ export interface LangfuseConfig {
   baseUrl?: string;
   requestTimeout?: number;
   maxRetries?: number;
+  retryPolicy?: RetryPolicyOptions;
+  rateLimit?: Partial<RateLimitOptions>;
+  // JSON Schema that prompt configs must match, inline or as a file path
+  promptConfigSchema?: string | Record<string, unknown>;
+}
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  directory: string;
+}
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    path: string;
+    body?: any;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+  };
+}
+
+export type RequestPriority = 'interactive' | 'bulk';
+
+export interface RequestOptions {
+  priority?: RequestPriority;
+}
+
+export interface RateLimitOptions {
+  requestsPerMinute: number;
+  burst: number;
+  maxConcurrency: number;
+}
+
+export interface SchedulerStats {
+  queued: Record<RequestPriority, number>;
+  active: number;
+  completed: number;
+  availableTokens: number;
+  requestsPerMinute: number;
+  maxConcurrency: number;
+}
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: boolean;
+  retryableStatuses: number[];
+  idempotentMethods: string[];
+  maxRetryAfterMs: number;
+  circuitBreaker: {
+    failureThreshold: number;
+    resetTimeoutMs: number;
+  };
+}
+
+export type RetryPolicyOptions = Partial<Omit<RetryPolicy, 'circuitBreaker'>> & {
+  circuitBreaker?: Partial<RetryPolicy['circuitBreaker']>;
+};
+
+export type TransportType = 'stdio' | 'http';
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  path: string;
+  ssePath: string;
+  messagesPath: string;
+  // Close Streamable HTTP sessions without requests for this long, 0 keeps them open
+  sessionIdleTimeoutMs: number;
 }
 
 export interface ListPromptsParams {
@@ -25,7 +100,7 @@ export interface GetPromptParams {
 export interface CreatePromptParams {
   name: string;
   type: 'text' | 'chat';
-  prompt: string | ChatMessage[];
+  prompt: string | ChatPromptItem[];
   config?: PromptConfig;
   labels?: string[];
   tags?: string[];
@@ -38,17 +113,66 @@ export interface UpdatePromptLabelsParams {
   newLabels: string[];
 }
 
+export type PromptSource = 'live' | 'cache' | 'snapshot' | 'fallback';
+
+export interface FallbackOptions {
+  snapshotDirectory?: string;
+  fallbackFile?: string;
+}
+
 export interface DeletePromptParams {
   name: string;
   version?: number;
   deleteAll?: boolean;
 }
 
+export type ChatRole = 'system' | 'developer' | 'user' | 'assistant' | 'tool';
+
+export interface TextContentPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ImageUrlContentPart {
+  type: 'image_url';
+  url: string;
+  detail?: 'auto' | 'low' | 'high';
+}
+
+export interface ImageBase64ContentPart {
+  type: 'image_base64';
+  data: string;
+  mimeType: string;
+}
+
+export type ContentPart = TextContentPart | ImageUrlContentPart | ImageBase64ContentPart;
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  // JSON encoded arguments, as produced by the model
+  arguments: string;
+}
+
 export interface ChatMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  type?: 'chatmessage';
+  role: ChatRole;
+  content: string | ContentPart[];
+  // Tool calls requested by an assistant message
+  toolCalls?: ToolCall[];
+  // Call a tool message answers
+  toolCallId?: string;
 }
 
+// Slot in a chat prompt that is replaced by a list of messages at compile time
+export interface ChatPlaceholder {
+  type: 'placeholder';
+  name: string;
+}
+
+export type ChatPromptItem = ChatMessage | ChatPlaceholder;
+
+// Known sampling fields are validated, any other JSON is passed through
 export interface PromptConfig {
   model?: string;
   temperature?: number;
@@ -57,17 +181,19 @@ export interface PromptConfig {
   frequencyPenalty?: number;
   presencePenalty?: number;
   stopSequences?: string[];
+  [key: string]: unknown;
 }
 
 export interface PromptVersion {
   name: string;
   version: number;
   type: 'text' | 'chat';
-  prompt: string | ChatMessage[];
+  prompt: string | ChatPromptItem[];
   config?: PromptConfig;
   labels: string[];
   tags: string[];
   commitMessage?: string;
+  createdBy?: string;
   createdAt: string;
   updatedAt: string;
   variables: string[];
@@ -76,6 +202,7 @@ export interface PromptVersion {
 export interface PromptListItem {
   name: string;
   latestVersion: number;
+  versions?: number[];
   type: 'text' | 'chat';
   labels: string[];
   tags: string[];
@@ -115,6 +242,16 @@ export class ValidationError extends Error {
   }
 }
 
+export class TemplateError extends Error {
+  constructor(
+    message: string,
+    public position?: number
+  ) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
 export class AuthenticationError extends Error {
   constructor(message: string = 'Authentication failed') {
     super(message);
@@ -132,13 +269,44 @@ export class RateLimitError extends Error {
   }
 }
 
+export class CircuitOpenError extends Error {
+  constructor(
+    public retryAt: number,
+    message: string = 'Langfuse API unavailable, circuit breaker is open'
+  ) {
+    super(message);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class CassetteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CassetteError';
+  }
+}
+
 // Cache types
 export interface CacheEntry<T> {
   data: T;
   expiresAt: number;
+  staleUntil?: number; // Entry may be served stale until this time
+  storedAt?: number;
 }
 
 export interface CacheOptions {
   ttl?: number; // Time to live in seconds
+  staleTtl?: number; // Seconds after expiry during which stale data may be served
   keyPrefix?: string;
+  backend?: CacheBackend<any>;
+}
+
+// Storage used by a cache; implementations must be synchronous
+export interface CacheBackend<T> {
+  get(key: string): CacheEntry<T> | undefined;
+  set(key: string, entry: CacheEntry<T>): void;
+  delete(key: string): boolean;
+  clear(): void;
+  keys(): string[];
+  size(): number;
 }
\ No newline at end of file
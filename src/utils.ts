@@ -1,5 +1,7 @@
-// Regex for valid variable names (letters, underscores, starting with letter)
-export const VARIABLE_REGEX = /^[a-zA-Z][a-zA-Z_]*$/;
+import { VARIABLE_NAME_REGEX } from './lib/mustache.js';
+
+// Regex for valid variable names, shared with the template engine
+export const VARIABLE_REGEX = VARIABLE_NAME_REGEX;
 
 // Regex to find variables in mustache syntax
 export const MUSTACHE_REGEX = /{{([^{}]*)}}+/g;
@@ -14,9 +16,13 @@ export function isValidVariableName(variable: string): boolean {
   return VARIABLE_REGEX.test(variable);
 }
 
-export function extractVariables(mustacheString: string): string[] {
-  const matches = Array.from(mustacheString.matchAll(MUSTACHE_REGEX))
-    .map((match) => match[1])
-    .filter(isValidVariableName);
-  return [...new Set(matches)];
+/**
+ * JSON with sorted object keys, so equal content compares equal
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item
+  );
 }
@@ -0,0 +1,49 @@
+// Tool handler tests for diff-prompt-versions
+
+import { createDiffPromptVersionsHandler } from '../../src/tools/diff-prompt-versions';
+import { CacheManager } from '../../src/lib/cache';
+import { createFakeLangfuse, toolResult } from './fake-langfuse';
+
+describe('diff-prompt-versions', () => {
+  // Version 2 republishes version 1, version 3 changes the text and config
+  const seed = [
+    { name: 'triage', type: 'text' as const, prompt: 'Sort {{ticket}}', config: { temperature: 0 }, labels: [] },
+    { name: 'triage', type: 'text' as const, prompt: 'Sort {{ticket}}', config: { temperature: 0 }, labels: ['staging'] },
+    { name: 'triage', type: 'text' as const, prompt: 'Sort {{ticket}} by {{team}}', config: { temperature: 1 }, labels: ['production'] },
+  ];
+
+  beforeEach(() => {
+    CacheManager.getInstance().clearAll();
+  });
+
+  it('should report different versions with the same content as identical', async () => {
+    const fake = await createFakeLangfuse(seed);
+    const handler = await createDiffPromptVersionsHandler(fake.projects);
+
+    const result = toolResult(await handler({ name: 'triage', from: 1, to: 'staging' }));
+
+    expect(result).toMatchObject({ from: { version: 1 }, to: { version: 2 }, identical: true, text: '', config: [] });
+  });
+
+  it('should report content and config changes', async () => {
+    const fake = await createFakeLangfuse(seed);
+    const handler = await createDiffPromptVersionsHandler(fake.projects);
+
+    const result = toolResult(await handler({ name: 'triage', from: 'staging', to: 'production' }));
+
+    expect(result.identical).toBe(false);
+    expect(result.text).toContain('+Sort {{ticket}} by {{team}}');
+    expect(result.config).toEqual([{ key: 'temperature', change: 'changed', from: 0, to: 1 }]);
+    expect(result.variables).toEqual({ added: ['team'], removed: [] });
+  });
+
+  it('should reject invalid prompt names without calling Langfuse', async () => {
+    const fake = await createFakeLangfuse(seed);
+    const handler = await createDiffPromptVersionsHandler(fake.projects);
+
+    const result = await handler({ name: 'triage v2', from: 1, to: 2 });
+
+    expect(result.isError).toBe(true);
+    expect(fake.client.getPrompt).not.toHaveBeenCalled();
+  });
+});
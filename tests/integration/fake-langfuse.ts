@@ -0,0 +1,144 @@
+// In-memory stand-in for the Langfuse API, shared by the tool handler tests
+
+import { LangfuseAPIClient } from '../../src/lib/langfuse-client';
+import { ProjectRegistry } from '../../src/lib/projects';
+import { APIError, CreatePromptParams, GetPromptParams, PromptVersion, UpdatePromptLabelsParams } from '../../src/types';
+
+export interface FakeLangfuse {
+  client: jest.Mocked<Pick<LangfuseAPIClient,
+    'createPrompt' | 'getPrompt' | 'getPromptHistory' | 'getPromptVersions' | 'listPrompts' |
+    'listPromptVersions' | 'updatePromptLabels'>>;
+  projects: ProjectRegistry;
+  // Every version of each prompt, in version order
+  versions: Map<string, PromptVersion[]>;
+  // Fail all requests like an unreachable server
+  setUnavailable(unavailable: boolean): void;
+}
+
+/**
+ * Create a fake Langfuse project seeded with the given prompts, in order.
+ * Labels are unique per prompt and 'latest' follows the newest version.
+ */
+export async function createFakeLangfuse(seed: CreatePromptParams[] = []): Promise<FakeLangfuse> {
+  const versions = new Map<string, PromptVersion[]>();
+  let unavailable = false;
+
+  const checkAvailable = () => {
+    if (unavailable) {
+      throw new TypeError('fetch failed');
+    }
+  };
+
+  const moveLabels = (history: PromptVersion[], target: PromptVersion) => {
+    for (const version of history) {
+      if (version !== target) {
+        version.labels = version.labels.filter(label => !target.labels.includes(label));
+      }
+    }
+  };
+
+  const find = (params: GetPromptParams): PromptVersion => {
+    const found = (versions.get(params.name) ?? []).find(v =>
+      params.version !== undefined ? v.version === params.version : v.labels.includes(params.label ?? 'production')
+    );
+    if (!found) {
+      throw new APIError(404, 'Prompt not found');
+    }
+    return found;
+  };
+
+  const client = {
+    createPrompt: jest.fn(async (params: CreatePromptParams) => {
+      checkAvailable();
+      const history = versions.get(params.name) ?? [];
+      const created: PromptVersion = {
+        name: params.name,
+        version: history.length + 1,
+        type: params.type,
+        prompt: params.prompt,
+        config: params.config ?? {},
+        labels: [...(params.labels ?? []).filter(label => label !== 'latest'), 'latest'],
+        tags: params.tags ?? [],
+        commitMessage: params.commitMessage,
+        createdAt: '2025-01-01T00:00:00Z',
+        updatedAt: '2025-01-01T00:00:00Z',
+        variables: [],
+      };
+      moveLabels(history, created);
+      versions.set(params.name, [...history, created]);
+      return created;
+    }),
+    getPrompt: jest.fn(async (params: GetPromptParams) => {
+      checkAvailable();
+      return find(params);
+    }),
+    getPromptHistory: jest.fn(async (name: string) => {
+      checkAvailable();
+      return versions.get(name) ?? [];
+    }),
+    getPromptVersions: jest.fn(async (name: string, numbers: number[]) => {
+      checkAvailable();
+      return (versions.get(name) ?? []).filter(v => numbers.includes(v.version));
+    }),
+    listPromptVersions: jest.fn(async (name: string) => {
+      checkAvailable();
+      if (!versions.has(name)) {
+        throw new APIError(404, `Prompt '${name}' not found`);
+      }
+      return versions.get(name)!.map(v => v.version);
+    }),
+    listPrompts: jest.fn(async () => {
+      checkAvailable();
+      return {
+        data: Array.from(versions.entries(), ([name, history]) => ({
+          name,
+          type: history[history.length - 1].type,
+          latestVersion: history.length,
+          versions: history.map(v => v.version),
+          labels: Array.from(new Set(history.flatMap(v => v.labels))),
+          tags: [],
+          createdAt: '2025-01-01T00:00:00Z',
+          updatedAt: '2025-01-01T00:00:00Z',
+        })),
+        meta: { page: 1, limit: 100, totalItems: versions.size, totalPages: 1 },
+      };
+    }),
+    updatePromptLabels: jest.fn(async ({ name, version, newLabels }: UpdatePromptLabelsParams) => {
+      checkAvailable();
+      const history = versions.get(name) ?? [];
+      const target = find({ name, version });
+      target.labels = [...newLabels, ...target.labels.filter(label => label === 'latest')];
+      moveLabels(history, target);
+      return target;
+    }),
+  };
+
+  for (const params of seed) {
+    await client.createPrompt(params);
+  }
+  client.createPrompt.mockClear();
+
+  const projects = {
+    resolve: (project?: string) => ({ project: project ?? 'default', client, validateConfig: undefined }),
+  } as unknown as ProjectRegistry;
+
+  return {
+    client: client as unknown as FakeLangfuse['client'],
+    projects,
+    versions,
+    setUnavailable: value => {
+      unavailable = value;
+    },
+  };
+}
+
+/**
+ * Parse the JSON text result of a tool handler
+ */
+export function toolResult(result: { content: unknown[]; isError?: boolean }): any {
+  const text = (result.content[0] as { text: string }).text;
+  if (result.isError) {
+    throw new Error(text);
+  }
+  return JSON.parse(text);
+}
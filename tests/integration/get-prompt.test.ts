@@ -0,0 +1,98 @@
+// Tool handler tests for get-prompt
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createGetPromptHandler } from '../../src/tools/get-prompt';
+import { CacheManager } from '../../src/lib/cache';
+import { PromptFallback } from '../../src/lib/prompt-fallback';
+import { createFakeLangfuse, toolResult } from './fake-langfuse';
+
+describe('get-prompt', () => {
+  let dir: string;
+
+  const seed = [
+    { name: 'tone', type: 'text' as const, prompt: 'Be kind.', labels: ['production'] },
+    {
+      name: 'support',
+      type: 'text' as const,
+      prompt: '@@@langfusePrompt:name=tone|label=production@@@ Answer {{ticket}}',
+      labels: ['production'],
+    },
+  ];
+  const input = { name: 'support', strict: false, escape: 'none' as const, resolveReferences: true };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'langfuse-mcp-get-prompt-'));
+    CacheManager.getInstance().clearAll();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should resolve references from snapshots while Langfuse is unreachable', async () => {
+    const fake = await createFakeLangfuse(seed);
+    const fallback = new PromptFallback({ snapshotDirectory: dir });
+    const handler = await createGetPromptHandler(fake.projects, fallback);
+
+    expect(toolResult(await handler(input)).prompt).toBe('Be kind. Answer {{ticket}}');
+
+    CacheManager.getInstance().clearAll();
+    fake.setUnavailable(true);
+    const offline = toolResult(await handler(input));
+
+    expect(offline.source).toBe('snapshot');
+    expect(offline.prompt).toBe('Be kind. Answer {{ticket}}');
+    expect(offline.resolvedDependencies).toMatchObject([{ name: 'tone', version: 1 }]);
+    expect(offline.warnings).toEqual([]);
+  });
+
+  it('should leave references in place when no local copy exists', async () => {
+    const fake = await createFakeLangfuse(seed);
+    const fallbackFile = join(dir, 'fallback.json');
+    writeFileSync(fallbackFile, JSON.stringify({ prompts: [{ ...seed[1], version: 1 }] }));
+    const handler = await createGetPromptHandler(fake.projects, new PromptFallback({ fallbackFile }));
+
+    fake.setUnavailable(true);
+    const result = toolResult(await handler({ ...input, arguments: { ticket: 'Late order' } }));
+
+    expect(result.source).toBe('fallback');
+    expect(result.prompt).toBe('@@@langfusePrompt:name=tone|label=production@@@ Answer Late order');
+    expect(result.warnings).toEqual([
+      "References were not resolved: Referenced prompt 'tone' is not available while Langfuse is unreachable",
+    ]);
+  });
+
+  it('should serve stored prompts with malformed templates', async () => {
+    const fake = await createFakeLangfuse([
+      { name: 'legacy', type: 'text', prompt: '{{#each items}}{{this}}{{/each}} for {{user}}', labels: ['production'] },
+    ]);
+    const handler = await createGetPromptHandler(fake.projects);
+
+    const result = toolResult(await handler({ ...input, name: 'legacy', arguments: { user: 'Ada' } }));
+    expect(result.prompt).toBe('{{#each items}}{{this}}{{/each}} for Ada');
+    expect(result.warnings).toEqual([expect.stringMatching(/^Invalid template/)]);
+
+    const strict = await handler({ ...input, name: 'legacy', strict: true, arguments: { user: 'Ada' } });
+    expect(strict.isError).toBe(true);
+  });
+
+  it('should compile with partials and escaping', async () => {
+    const fake = await createFakeLangfuse([
+      { name: 'mail', type: 'text', prompt: '{{> greeting}} {{body}} {{{body}}}', labels: ['production'] },
+    ]);
+    const handler = await createGetPromptHandler(fake.projects);
+
+    const result = toolResult(await handler({
+      ...input,
+      name: 'mail',
+      arguments: { name: 'Ada', body: '<b>' },
+      partials: { greeting: 'Hi {{name}},' },
+      escape: 'html',
+    }));
+    expect(result.prompt).toBe('Hi Ada, &lt;b&gt; <b>');
+  });
+});
@@ -0,0 +1,37 @@
+// Tool handler tests for get-server-status
+
+import { createGetServerStatusHandler } from '../../src/tools/get-server-status';
+import { ProjectRegistry } from '../../src/lib/projects';
+import { toolResult } from './fake-langfuse';
+
+describe('get-server-status', () => {
+  const projects = new ProjectRegistry({
+    dev: { publicKey: 'pk', secretKey: 'sk', rateLimit: { requestsPerMinute: 60, burst: 5 } },
+    prod: { publicKey: 'pk', secretKey: 'sk' },
+  }, 'prod');
+
+  it('should report every project', async () => {
+    const handler = await createGetServerStatusHandler(projects);
+    const result = toolResult(await handler({}));
+
+    expect(result.defaultProject).toBe('prod');
+    expect(result.projects.map((p: { project: string }) => p.project)).toEqual(['dev', 'prod']);
+    expect(result.projects[0]).toEqual({
+      project: 'dev',
+      circuitState: 'closed',
+      scheduler: expect.objectContaining({
+        queued: { interactive: 0, bulk: 0 },
+        active: 0,
+        availableTokens: 5,
+        requestsPerMinute: 60,
+      }),
+    });
+  });
+
+  it('should report a single project', async () => {
+    const handler = await createGetServerStatusHandler(projects);
+
+    expect(toolResult(await handler({ project: 'dev' })).projects).toHaveLength(1);
+    expect((await handler({ project: 'missing' })).isError).toBe(true);
+  });
+});
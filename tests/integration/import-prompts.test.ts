@@ -0,0 +1,104 @@
+// Tool handler tests for import-prompts
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createImportPromptsHandler, ImportPromptsInput } from '../../src/tools/import-prompts';
+import { createExportPromptsHandler } from '../../src/tools/export-prompts';
+import { CacheManager } from '../../src/lib/cache';
+import { FileSandbox } from '../../src/lib/file-sandbox';
+import { PromptLinter } from '../../src/lib/prompt-lint';
+import { createFakeLangfuse, toolResult } from './fake-langfuse';
+
+describe('import-prompts', () => {
+  let dir: string;
+
+  const triage = { name: 'triage', type: 'text' as const, prompt: 'Classify: {{ticket}}', labels: ['production'] };
+  const reply = { name: 'reply', type: 'text' as const, prompt: 'Reply to {{ticket}}', labels: ['production'] };
+  const defaults = { labelMode: 'apply' as const, overwriteExisting: false, dryRun: false, lint: false };
+
+  const run = async (fake: Awaited<ReturnType<typeof createFakeLangfuse>>, input: Partial<ImportPromptsInput>) => {
+    const handler = await createImportPromptsHandler(fake.projects, new PromptLinter(), new FileSandbox(dir));
+    return handler({ ...defaults, ...input });
+  };
+  const labelsByVersion = (fake: Awaited<ReturnType<typeof createFakeLangfuse>>, name: string) =>
+    fake.versions.get(name)!.map(v => v.labels);
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'langfuse-mcp-import-'));
+    CacheManager.getInstance().clearAll();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should skip existing prompts by default', async () => {
+    const fake = await createFakeLangfuse([{ ...triage, labels: ['staging'] }]);
+    const result = toolResult(await run(fake, { data: JSON.stringify([{ ...triage, prompt: 'Changed' }, reply]) }));
+
+    expect(result).toMatchObject({ strategy: 'skip-existing', totalImported: 1, totalSkipped: 1, aborted: false });
+    expect(fake.client.createPrompt).toHaveBeenCalledTimes(1);
+    expect(fake.client.createPrompt).toHaveBeenCalledWith(expect.objectContaining({ name: 'reply' }), { priority: 'bulk' });
+  });
+
+  it('should change nothing when re-importing an export', async () => {
+    const fake = await createFakeLangfuse([triage, reply]);
+    const exportHandler = await createExportPromptsHandler(fake.projects, new FileSandbox(dir));
+    toolResult(await exportHandler({ format: 'markdown', includeAllVersions: false, csvRows: 'prompt', outputPath: 'backup.zip' }));
+
+    const again = toolResult(await run(fake, { inputPath: 'backup.zip', strategy: 'new-version-if-changed' }));
+    expect(again).toMatchObject({ source: { verified: true }, totalImported: 0, totalUnchanged: 2, totalFailed: 0 });
+    expect(fake.client.createPrompt).not.toHaveBeenCalled();
+
+    const changed = JSON.stringify([{ ...triage, prompt: 'Classify the ticket: {{ticket}}' }, reply]);
+    const result = toolResult(await run(fake, { data: changed, strategy: 'new-version-if-changed' }));
+    expect(result.results).toEqual([
+      { name: 'triage', action: 'new-version', version: 2, previousVersion: 1, labels: ['production'] },
+      { name: 'reply', action: 'unchanged', version: 1, previousVersion: 1 },
+    ]);
+    expect(labelsByVersion(fake, 'triage')).toEqual([[], ['production', 'latest']]);
+  });
+
+  it('should leave labels of existing prompts in place with labelMode keep', async () => {
+    const fake = await createFakeLangfuse([triage]);
+    const data = JSON.stringify([{ ...triage, prompt: 'Changed {{ticket}}', labels: ['production', 'staging'] }]);
+
+    const result = toolResult(await run(fake, { data, strategy: 'always-new-version', labelMode: 'keep' }));
+
+    expect(result.results).toEqual([{ name: 'triage', action: 'new-version', version: 2, previousVersion: 1, labels: [] }]);
+    expect(labelsByVersion(fake, 'triage')).toEqual([['production'], ['latest']]);
+  });
+
+  it('should import nothing when any prompt conflicts', async () => {
+    const fake = await createFakeLangfuse([triage]);
+    const data = JSON.stringify([{ ...triage, prompt: 'Changed {{ticket}}' }, reply]);
+
+    const result = toolResult(await run(fake, { data, strategy: 'fail-on-conflict' }));
+
+    expect(result).toMatchObject({ aborted: true, totalImported: 0, totalConflicts: 1, totalSkipped: 1 });
+    expect(fake.client.createPrompt).not.toHaveBeenCalled();
+    expect(fake.versions.has('reply')).toBe(false);
+  });
+
+  it('should plan without writing in dry runs', async () => {
+    const fake = await createFakeLangfuse([triage]);
+    const data = JSON.stringify([{ ...triage, prompt: 'Changed {{ticket}}' }, reply, { name: 'bad name!', type: 'text', prompt: 'x' }]);
+
+    const result = toolResult(await run(fake, { data, strategy: 'new-version-if-changed', dryRun: true }));
+
+    expect(result).toMatchObject({ dryRun: true, validPrompts: 2, invalidPrompts: 1, aborted: false });
+    expect(result.plannedResults.map((r: { action: string }) => r.action)).toEqual(['new-version', 'create']);
+    expect(fake.client.createPrompt).not.toHaveBeenCalled();
+    expect(fake.client.updatePromptLabels).not.toHaveBeenCalled();
+  });
+
+  it('should treat overwriteExisting as always-new-version', async () => {
+    const fake = await createFakeLangfuse([triage]);
+
+    const result = toolResult(await run(fake, { data: JSON.stringify([triage]), overwriteExisting: true }));
+
+    expect(result).toMatchObject({ strategy: 'always-new-version', totalImported: 1 });
+    expect(fake.versions.get('triage')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,48 @@
+// Tool handler tests for prompt-dependency-graph
+
+import { createPromptDependencyGraphHandler, promptDependencyGraphSchema } from '../../src/tools/prompt-dependency-graph';
+import { createFakeLangfuse, toolResult } from './fake-langfuse';
+
+describe('prompt-dependency-graph', () => {
+  const seed = [
+    { name: 'tone', type: 'text' as const, prompt: 'Be kind.', labels: ['production'] },
+    { name: 'support', type: 'text' as const, prompt: '@@@langfusePrompt:name=tone|label=production@@@ Help', labels: ['production'] },
+    { name: 'draft', type: 'text' as const, prompt: '@@@langfusePrompt:name=tone|version=1@@@ Draft', labels: [] },
+  ];
+
+  it('should scan the production and latest versions by default', async () => {
+    const fake = await createFakeLangfuse(seed);
+    const handler = await createPromptDependencyGraphHandler(fake.projects);
+
+    const result = toolResult(await handler(promptDependencyGraphSchema.parse({})));
+
+    expect(result.scannedLabels).toEqual(['production', 'latest']);
+    expect(result.edges).toEqual([
+      { from: 'support', fromVersion: 1, to: 'tone', label: 'production' },
+      { from: 'draft', fromVersion: 1, to: 'tone', version: 1 },
+    ]);
+    expect(result.nodes).toHaveLength(3);
+  });
+
+  it('should list parents impacted by a planned label update', async () => {
+    const fake = await createFakeLangfuse([...seed, { name: 'tone', type: 'text', prompt: 'Be brief.', labels: [] }]);
+    const handler = await createPromptDependencyGraphHandler(fake.projects);
+
+    const result = toolResult(await handler(promptDependencyGraphSchema.parse({
+      impact: [{ name: 'tone', version: 2, newLabels: ['production'] }],
+    })));
+
+    expect(result.impact.impactedPrompts).toMatchObject([{ name: 'support', version: 1 }]);
+  });
+
+  it('should reject setting the latest label in planned updates', async () => {
+    const fake = await createFakeLangfuse(seed);
+    const handler = await createPromptDependencyGraphHandler(fake.projects);
+
+    const result = await handler(promptDependencyGraphSchema.parse({
+      impact: [{ name: 'tone', version: 1, newLabels: ['latest'] }],
+    }));
+
+    expect(result.isError).toBe(true);
+  });
+});
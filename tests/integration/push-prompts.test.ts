@@ -0,0 +1,84 @@
+// Tool handler tests for push-prompts and pull-prompts
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createPushPromptsHandler } from '../../src/tools/push-prompts';
+import { createPullPromptsHandler } from '../../src/tools/pull-prompts';
+import { CacheManager } from '../../src/lib/cache';
+import { FileSandbox } from '../../src/lib/file-sandbox';
+import { createFakeLangfuse, toolResult } from './fake-langfuse';
+
+describe('push-prompts and pull-prompts', () => {
+  let dir: string;
+
+  const seed = [{ name: 'support/triage', type: 'text' as const, prompt: 'Classify {{ticket}}', labels: ['production'] }];
+  const pullInput = { directory: 'prompts', label: 'latest', force: false, dryRun: false };
+  const pushInput = { directory: 'prompts', dryRun: false };
+  const triagePath = () => join(dir, 'prompts', 'support', 'triage.md');
+  const editTriage = (from: string, to: string) => writeFileSync(triagePath(), readFileSync(triagePath(), 'utf8').replace(from, to));
+
+  async function pulled() {
+    const fake = await createFakeLangfuse(seed);
+    const sandbox = new FileSandbox(dir);
+    const pull = await createPullPromptsHandler(fake.projects, sandbox);
+    const push = await createPushPromptsHandler(fake.projects, sandbox);
+    expect(toolResult(await pull(pullInput))).toMatchObject({ created: 1, conflicts: 0 });
+    return { fake, pull, push };
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'langfuse-mcp-sync-'));
+    CacheManager.getInstance().clearAll();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should push changed files as new versions', async () => {
+    const { fake, push } = await pulled();
+    editTriage('Classify', 'Triage');
+
+    const plan = toolResult(await push({ ...pushInput, dryRun: true }));
+    expect(plan).toMatchObject({ dryRun: true, updated: 1 });
+    expect(fake.client.createPrompt).not.toHaveBeenCalled();
+
+    const result = toolResult(await push({ ...pushInput, commitMessage: 'Reword', labels: ['staging'] }));
+    expect(result).toMatchObject({ updated: 1, conflicts: 0, labelDifferences: 0 });
+    // production stays on the reviewed version although the file lists it
+    expect(fake.versions.get('support/triage')!.map(v => [v.prompt, v.labels])).toEqual([
+      ['Classify {{ticket}}', ['production']],
+      ['Triage {{ticket}}', ['staging', 'latest']],
+    ]);
+    expect(readFileSync(triagePath(), 'utf8')).toContain('version: 2\n');
+  });
+
+  it('should detect conflicts when Langfuse moved ahead', async () => {
+    const { fake, pull, push } = await pulled();
+    await fake.client.createPrompt({ name: 'support/triage', type: 'text', prompt: 'Classify carefully {{ticket}}' });
+    fake.client.createPrompt.mockClear();
+
+    expect(toolResult(await push(pushInput))).toMatchObject({ outdated: 1, conflicts: 0 });
+
+    editTriage('Classify', 'Sort');
+    const conflict = toolResult(await push(pushInput));
+    expect(conflict).toMatchObject({ updated: 0, conflicts: 1 });
+    expect(conflict.results[0]).toMatchObject({ action: 'conflict', baseVersion: 1, remoteVersion: 2 });
+    expect(fake.client.createPrompt).not.toHaveBeenCalled();
+
+    // Pull keeps the local change unless forced
+    expect(toolResult(await pull(pullInput))).toMatchObject({ updated: 0, conflicts: 1 });
+    expect(readFileSync(triagePath(), 'utf8')).toContain('Sort {{ticket}}');
+
+    expect(toolResult(await pull({ ...pullInput, force: true }))).toMatchObject({ updated: 1, conflicts: 0 });
+    expect(readFileSync(triagePath(), 'utf8')).toContain('Classify carefully {{ticket}}');
+  });
+
+  it('should refuse directories outside of the files root', async () => {
+    const { push, pull } = await pulled();
+
+    expect((await push({ ...pushInput, directory: '../prompts' })).isError).toBe(true);
+    expect((await pull({ ...pullInput, directory: '/tmp' })).isError).toBe(true);
+  });
+});
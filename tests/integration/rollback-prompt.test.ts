@@ -0,0 +1,85 @@
+// Tool handler tests for rollback-prompt
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createRollbackPromptHandler } from '../../src/tools/rollback-prompt';
+import { LabelJournal } from '../../src/lib/label-journal';
+import { CacheManager } from '../../src/lib/cache';
+import { createFakeLangfuse, toolResult } from './fake-langfuse';
+
+describe('rollback-prompt', () => {
+  let dir: string;
+  let journal: LabelJournal;
+
+  // Version 3 holds production, version 2 staging
+  const seed = [
+    { name: 'triage', type: 'text' as const, prompt: 'v1', labels: [] },
+    { name: 'triage', type: 'text' as const, prompt: 'v2', labels: ['staging'] },
+    { name: 'triage', type: 'text' as const, prompt: 'v3', labels: ['production'] },
+  ];
+  const input = { name: 'triage', label: 'production' };
+
+  const labelsByVersion = (fake: Awaited<ReturnType<typeof createFakeLangfuse>>) =>
+    fake.versions.get('triage')!.map(v => v.labels);
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'langfuse-mcp-rollback-'));
+    journal = new LabelJournal(join(dir, 'label-journal.jsonl'));
+    CacheManager.getInstance().clearAll();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should move the label back to the version recorded in the journal', async () => {
+    const fake = await createFakeLangfuse(seed);
+    journal.record({ project: 'default', name: 'triage', label: 'production', fromVersion: 1, toVersion: 3, reason: 'promote' });
+    const handler = await createRollbackPromptHandler(fake.projects, journal);
+
+    const result = toolResult(await handler(input));
+
+    expect(result).toMatchObject({ fromVersion: 3, toVersion: 1, basis: 'journal' });
+    expect(labelsByVersion(fake)).toEqual([['production'], ['staging'], ['latest']]);
+
+    // The rollback is journaled but not taken as a promotion to walk back from
+    const again = await handler(input);
+    expect(again.isError).toBe(true);
+  });
+
+  it('should keep walking back through earlier promotions', async () => {
+    const fake = await createFakeLangfuse(seed);
+    journal.record({ project: 'default', name: 'triage', label: 'production', fromVersion: 1, toVersion: 2, reason: 'promote' });
+    journal.record({ project: 'default', name: 'triage', label: 'production', fromVersion: 2, toVersion: 3, reason: 'promote' });
+    const handler = await createRollbackPromptHandler(fake.projects, journal);
+
+    expect(toolResult(await handler(input))).toMatchObject({ fromVersion: 3, toVersion: 2 });
+    expect(toolResult(await handler(input))).toMatchObject({ fromVersion: 2, toVersion: 1 });
+    expect(labelsByVersion(fake)).toEqual([['production'], ['staging'], ['latest']]);
+  });
+
+  it('should refuse to guess without a journal entry', async () => {
+    const fake = await createFakeLangfuse(seed);
+    const handler = await createRollbackPromptHandler(fake.projects, journal);
+
+    const result = await handler(input);
+
+    expect(result.isError).toBe(true);
+    expect((result.content[0] as { text: string }).text).toMatch(/no record of 'production'.*pass toVersion/);
+    expect(fake.client.updatePromptLabels).not.toHaveBeenCalled();
+  });
+
+  it('should move the label to an explicit version', async () => {
+    const fake = await createFakeLangfuse(seed);
+    const handler = await createRollbackPromptHandler(fake.projects);
+
+    const result = toolResult(await handler({ ...input, toVersion: 2 }));
+
+    expect(result).toMatchObject({ fromVersion: 3, toVersion: 2, basis: 'explicit' });
+    expect(labelsByVersion(fake)).toEqual([[], ['staging', 'production'], ['latest']]);
+
+    const missing = await handler({ ...input, toVersion: 9 });
+    expect((missing.content[0] as { text: string }).text).toMatch(/Version 9 of 'triage' does not exist/);
+  });
+});
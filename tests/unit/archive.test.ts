@@ -0,0 +1,71 @@
+// Unit tests for in-memory tar.gz and zip archives
+
+import { gunzipSync, gzipSync } from 'node:zlib';
+import { ArchiveEntry, archiveType, readTarGz, readZip, writeTarGz, writeZip } from '../../src/lib/archive';
+import { ValidationError } from '../../src/types';
+
+describe('Archives', () => {
+  const entries: ArchiveEntry[] = [
+    { path: 'manifest.json', data: Buffer.from('{"files":[]}') },
+    { path: 'support/triage.md', data: Buffer.from('---\nname: triage\n---\nClassify: {{ticket}}') },
+    { path: `${'nested/'.repeat(20)}long-name.yaml`, data: Buffer.from('é'.repeat(600)) },
+    { path: 'empty.json', data: Buffer.alloc(0) },
+  ];
+
+  it('should detect archive types from extensions', () => {
+    expect(archiveType('backup.tar.gz')).toBe('tar.gz');
+    expect(archiveType('backup.TGZ')).toBe('tar.gz');
+    expect(archiveType('backup.zip')).toBe('zip');
+    expect(archiveType('backup.json')).toBeUndefined();
+    expect(archiveType('backup')).toBeUndefined();
+  });
+
+  it('should round-trip tar.gz archives', () => {
+    expect(readTarGz(writeTarGz(entries))).toEqual(entries);
+  });
+
+  it('should round-trip zip archives', () => {
+    expect(readZip(writeZip(entries))).toEqual(entries);
+  });
+
+  it('should read GNU long names', () => {
+    const longPath = `${'a'.repeat(120)}/${'b'.repeat(120)}.md`;
+    const header = (name: string, size: number, type: string) => {
+      const block = Buffer.alloc(512);
+      block.write(name, 0, 100);
+      block.write(size.toString(8).padStart(11, '0'), 124);
+      block.write(type, 156);
+      return block;
+    };
+    const pad = (data: Buffer) => Buffer.concat([data, Buffer.alloc((512 - (data.length % 512)) % 512)]);
+    const tar = Buffer.concat([
+      header('././@LongLink', longPath.length + 1, 'L'),
+      pad(Buffer.from(`${longPath}\0`)),
+      header('truncated', 5, '0'),
+      pad(Buffer.from('hello')),
+      Buffer.alloc(1024),
+    ]);
+
+    expect(readTarGz(gzipSync(tar))).toEqual([{ path: longPath, data: Buffer.from('hello') }]);
+  });
+
+  it('should reject entries outside of the archive', () => {
+    expect(() => writeTarGz([{ path: '../escape.md', data: Buffer.from('x') }])).toThrow(ValidationError);
+    expect(() => writeZip([{ path: '/etc/escape.md', data: Buffer.from('x') }])).toThrow(ValidationError);
+  });
+
+  it('should reject archives expanding beyond the size limit', () => {
+    const large = [{ path: 'large.md', data: Buffer.alloc(4096, 'a') }];
+
+    expect(() => readTarGz(writeTarGz(large), 4096)).toThrow('Archive expands to more than 4096 bytes');
+    expect(() => readZip(writeZip([...large, ...entries]), 4096)).toThrow('Archive expands to more than 4096 bytes');
+    expect(readZip(writeZip(large), 4096)).toEqual(large);
+  });
+
+  it('should reject corrupt archives', () => {
+    expect(() => readTarGz(Buffer.from('not gzip'))).toThrow(/Cannot decompress/);
+    expect(() => readZip(Buffer.from('not a zip archive'))).toThrow(/Cannot read zip/);
+    const truncated = gzipSync(gunzipSync(writeTarGz(entries)).subarray(0, 518));
+    expect(() => readTarGz(truncated)).toThrow(/truncated/);
+  });
+});
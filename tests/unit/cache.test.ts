@@ -1,6 +1,6 @@
 // Unit tests for cache implementation
 
-import { Cache, CacheManager } from '../../src/lib/cache';
+import { Cache, CacheManager, MemoryCacheBackend } from '../../src/lib/cache';
 
 describe('Cache', () => {
   let cache: Cache<string>;
@@ -64,6 +64,51 @@ describe('Cache', () => {
     });
   });
 
+  describe('prefix invalidation', () => {
+    it('should only invalidate entries with the exact prefix', () => {
+      cache.set('greeting:latest:', 'value1');
+      cache.set('greeting:3:', 'value2');
+      cache.set('greeting-v2:latest:', 'value3');
+      cache.set('my-greeting:latest:', 'value4');
+      cache.set('faq (v1):latest:', 'value5');
+
+      cache.invalidatePrefix('greeting:');
+      cache.invalidatePrefix('faq (v1):');
+
+      expect(cache.get('greeting:latest:')).toBeNull();
+      expect(cache.get('greeting:3:')).toBeNull();
+      expect(cache.get('greeting-v2:latest:')).toBe('value3');
+      expect(cache.get('my-greeting:latest:')).toBe('value4');
+      expect(cache.get('faq (v1):latest:')).toBeNull();
+    });
+  });
+
+  describe('stale-while-revalidate', () => {
+    it('should serve expired entries as stale within the stale window', async () => {
+      const swrCache = new Cache<string>({ ttl: 0.05, staleTtl: 0.2 });
+      swrCache.set('key1', 'value1');
+      expect(swrCache.getWithStatus('key1')).toMatchObject({ data: 'value1', stale: false, ageSeconds: 0 });
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(swrCache.get('key1')).toBeNull();
+      expect(swrCache.getWithStatus('key1')).toMatchObject({ data: 'value1', stale: true });
+
+      await new Promise(resolve => setTimeout(resolve, 200));
+      expect(swrCache.getWithStatus('key1')).toBeNull();
+    });
+  });
+
+  describe('backends', () => {
+    it('should store entries in the given backend', () => {
+      const backend = new MemoryCacheBackend<string>();
+      const backedCache = new Cache<string>({ backend });
+      backedCache.set('key1', 'value1');
+
+      expect(backend.keys()).toEqual(['key1']);
+      expect(backend.get('key1')?.data).toBe('value1');
+    });
+  });
+
   describe('cleanup', () => {
     it('should remove expired entries on cleanup', async () => {
       cache.set('key1', 'value1', 0.1);
@@ -108,6 +153,43 @@ describe('CacheManager', () => {
     expect(cache1).toBe(cache2);
   });
 
+  it('should scope project caches by project name', () => {
+    const devCache = manager.getProjectCache<string>('dev', 'prompts');
+    const prodCache = manager.getProjectCache<string>('prod', 'prompts');
+
+    devCache.set('key', 'dev-value');
+
+    expect(devCache).not.toBe(prodCache);
+    expect(prodCache.get('key')).toBeNull();
+    expect(manager.getProjectCache<string>('dev', 'prompts')).toBe(devCache);
+  });
+
+  it('should apply configured options to new and existing caches', () => {
+    const existing = manager.getProjectCache<string>('dev', 'prompts', { ttl: 300 });
+    manager.configureCache('prompts', { ttl: 0.1 });
+    const created = manager.getProjectCache<string>('prod', 'prompts', { ttl: 300 });
+
+    existing.set('key', 'value');
+    created.set('key', 'value');
+
+    return new Promise<void>(resolve => setTimeout(() => {
+      expect(existing.get('key')).toBeNull();
+      expect(created.get('key')).toBeNull();
+      resolve();
+    }, 150));
+  });
+
+  it('should create caches with the configured backend', () => {
+    const backends: string[] = [];
+    manager.setBackendFactory(name => {
+      backends.push(name);
+      return new MemoryCacheBackend();
+    });
+
+    manager.getProjectCache<string>('dev', 'prompts');
+    expect(backends).toEqual(['dev/prompts']);
+  });
+
   it('should clear all caches', () => {
     const cache1 = manager.getCache<string>('cache1');
     const cache2 = manager.getCache<string>('cache2');
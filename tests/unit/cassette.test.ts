@@ -0,0 +1,145 @@
+// Unit tests for record/replay cassettes
+
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Cassette } from '../../src/lib/cassette';
+import { LangfuseAPIClient } from '../../src/lib/langfuse-client';
+import { CassetteError } from '../../src/types';
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Set-Cookie': 'session=secret' },
+  });
+}
+
+describe('Cassette', () => {
+  let dir: string;
+  let fetchMock: jest.Mock;
+
+  const createClient = (mode: 'record' | 'replay') => new LangfuseAPIClient(
+    { publicKey: 'pk', secretKey: 'sk', retryPolicy: { baseDelayMs: 1, jitter: false } },
+    Cassette.forProject({ mode, directory: dir }, 'dev')
+  );
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'langfuse-mcp-cassette-'));
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should not create a cassette when off', () => {
+    expect(Cassette.forProject({ mode: 'off', directory: dir }, 'dev')).toBeUndefined();
+  });
+
+  it('should record responses without credentials', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(200, { name: 'greeting', version: 1 }));
+
+    await expect(createClient('record').getPrompt({ name: 'greeting' }))
+      .resolves.toEqual({ name: 'greeting', version: 1 });
+
+    const stored = readFileSync(join(dir, 'dev.json'), 'utf-8');
+    expect(JSON.parse(stored).interactions).toEqual([{
+      request: { method: 'GET', path: '/prompts/greeting' },
+      response: {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: '{"name":"greeting","version":1}',
+      },
+    }]);
+    expect(stored).not.toContain('secret');
+  });
+
+  it('should replay recorded responses in order without network access', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(200, { version: 1 }))
+      .mockResolvedValueOnce(jsonResponse(200, { version: 2 }))
+      .mockResolvedValueOnce(jsonResponse(201, { version: 3 }));
+    const recorder = createClient('record');
+    await recorder.getPrompt({ name: 'greeting' });
+    await recorder.getPrompt({ name: 'greeting' });
+    await recorder.createPrompt({ name: 'greeting', type: 'text', prompt: 'Hi' });
+
+    fetchMock.mockReset();
+    const player = createClient('replay');
+    await expect(player.getPrompt({ name: 'greeting' })).resolves.toEqual({ version: 1 });
+    await expect(player.getPrompt({ name: 'greeting' })).resolves.toEqual({ version: 2 });
+    await expect(player.createPrompt({ name: 'greeting', type: 'text', prompt: 'Hi' }))
+      .resolves.toEqual({ version: 3 });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should replay recorded errors', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(404, { message: 'Prompt not found' }));
+    await expect(createClient('record').getPrompt({ name: 'missing' })).rejects.toMatchObject({ status: 404 });
+
+    await expect(createClient('replay').getPrompt({ name: 'missing' })).rejects.toMatchObject({
+      status: 404,
+      details: { message: 'Prompt not found' },
+    });
+  });
+
+  it('should fail on unmatched requests without retrying', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(201, { version: 1 }));
+    await createClient('record').createPrompt({ name: 'greeting', type: 'text', prompt: 'Hi' });
+
+    const player = createClient('replay');
+    await expect(player.createPrompt({ name: 'greeting', type: 'text', prompt: 'Hello' }))
+      .rejects.toThrow(new CassetteError(`No recorded response for POST /prompts in ${join(dir, 'dev.json')}`));
+    await expect(player.getPrompt({ name: 'greeting' })).rejects.toBeInstanceOf(CassetteError);
+    expect(player.getCircuitState()).toBe('closed');
+  });
+
+  it('should append to an existing cassette when recording', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(200, { version: 1 }))
+      .mockResolvedValueOnce(jsonResponse(200, { version: 2 }));
+    await createClient('record').getPrompt({ name: 'greeting' });
+    // A new client, as after a configuration reload, keeps the earlier recording
+    await createClient('record').getPrompt({ name: 'greeting' });
+
+    const player = createClient('replay');
+    await expect(player.getPrompt({ name: 'greeting' })).resolves.toEqual({ version: 1 });
+    await expect(player.getPrompt({ name: 'greeting' })).resolves.toEqual({ version: 2 });
+  });
+
+  it('should not leave the circuit stuck after an unmatched trial request', async () => {
+    const createFailFastClient = (mode: 'record' | 'replay') => new LangfuseAPIClient(
+      { publicKey: 'pk', secretKey: 'sk', retryPolicy: { maxRetries: 0, circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 0 } } },
+      Cassette.forProject({ mode, directory: dir }, 'dev')
+    );
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(500, { message: 'Down' }))
+      .mockResolvedValueOnce(jsonResponse(200, { version: 1 }));
+    const recorder = createFailFastClient('record');
+    await expect(recorder.getPrompt({ name: 'down' })).rejects.toMatchObject({ status: 500 });
+    await recorder.getPrompt({ name: 'greeting' });
+
+    const player = createFailFastClient('replay');
+    await expect(player.getPrompt({ name: 'down' })).rejects.toMatchObject({ status: 500 });
+    expect(player.getCircuitState()).toBe('half-open');
+    await expect(player.getPrompt({ name: 'unrecorded' })).rejects.toBeInstanceOf(CassetteError);
+    await expect(player.getPrompt({ name: 'greeting' })).resolves.toEqual({ version: 1 });
+    expect(player.getCircuitState()).toBe('closed');
+  });
+
+  it('should record and replay responses without a body', async () => {
+    const cassette = new Cassette(join(dir, 'dev.json'), 'record');
+    const recorded = await cassette.record('DELETE', '/prompts/greeting', undefined, new Response(null, { status: 204 }));
+    expect(recorded.status).toBe(204);
+
+    const replayed = new Cassette(join(dir, 'dev.json'), 'replay').replay('DELETE', '/prompts/greeting', undefined);
+    expect(replayed.status).toBe(204);
+    expect(replayed.body).toBeNull();
+  });
+
+  it('should fail when the cassette does not exist', async () => {
+    await expect(createClient('replay').getPrompt({ name: 'greeting' }))
+      .rejects.toThrow('Cassette not found');
+  });
+});
@@ -0,0 +1,77 @@
+// Unit tests for chat message content helpers
+
+import { mapMessageTexts, messageText, messageTexts, toMcpMessages } from '../../src/lib/chat-content';
+import { ChatMessage } from '../../src/types';
+
+describe('Chat content', () => {
+  const vision: ChatMessage = {
+    role: 'user',
+    content: [
+      { type: 'text', text: 'Describe {{subject}}' },
+      { type: 'image_url', url: 'https://example.com/cat.png', detail: 'low' },
+      { type: 'image_base64', data: 'iVBORw0KGgo=', mimeType: 'image/png' },
+    ],
+  };
+
+  it('should list and transform the text parts only', () => {
+    expect(messageTexts(vision)).toEqual(['Describe {{subject}}']);
+    expect(messageTexts({ role: 'user', content: 'Hi' })).toEqual(['Hi']);
+
+    const upper = mapMessageTexts(vision, text => text.toUpperCase());
+    expect(upper.content).toEqual([
+      { type: 'text', text: 'DESCRIBE {{SUBJECT}}' },
+      vision.content[1],
+      vision.content[2],
+    ]);
+  });
+
+  it('should render messages with images and tool calls as text', () => {
+    expect(messageText(vision)).toBe(
+      'Describe {{subject}}\n[image: https://example.com/cat.png]\n[image: image/png, 12 base64 characters]'
+    );
+    expect(messageText({
+      role: 'assistant',
+      content: '',
+      toolCalls: [{ id: 'call_1', name: 'lookup', arguments: '{"id":1}' }],
+    })).toBe('\n[tool call call_1: lookup({"id":1})]');
+  });
+
+  describe('toMcpMessages', () => {
+    it('should convert text prompts to one user message', () => {
+      expect(toMcpMessages('Hello')).toEqual([{ role: 'user', content: { type: 'text', text: 'Hello' } }]);
+    });
+
+    it('should map roles and split content parts', () => {
+      const messages = toMcpMessages([
+        { role: 'developer', content: 'Be brief' },
+        vision,
+        { role: 'assistant', content: 'A cat' },
+        { type: 'placeholder', name: 'history' },
+      ]);
+
+      expect(messages).toEqual([
+        { role: 'user', content: { type: 'text', text: 'Be brief' } },
+        { role: 'user', content: { type: 'text', text: 'Describe {{subject}}' } },
+        { role: 'user', content: { type: 'resource_link', uri: 'https://example.com/cat.png', name: 'cat.png' } },
+        { role: 'user', content: { type: 'image', data: 'iVBORw0KGgo=', mimeType: 'image/png' } },
+        { role: 'assistant', content: { type: 'text', text: 'A cat' } },
+      ]);
+    });
+
+    it('should turn data URLs into images', () => {
+      const [message] = toMcpMessages([{
+        role: 'user',
+        content: [{ type: 'image_url', url: 'data:image/jpeg;base64,/9j/4AAQ' }],
+      }]);
+      expect(message.content).toEqual({ type: 'image', data: '/9j/4AAQ', mimeType: 'image/jpeg' });
+    });
+
+    it('should keep tool metadata as text', () => {
+      const [message] = toMcpMessages([{ role: 'tool', content: '{"temp":21}', toolCallId: 'call_1' }]);
+      expect(message).toEqual({
+        role: 'user',
+        content: { type: 'text', text: '[result of tool call call_1]\n{"temp":21}' },
+      });
+    });
+  });
+});
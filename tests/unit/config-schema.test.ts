@@ -0,0 +1,60 @@
+// Unit tests for prompt config JSON Schema validation
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createConfigValidator } from '../../src/lib/config-schema';
+import { ValidationError } from '../../src/types';
+
+describe('createConfigValidator', () => {
+  const schema = {
+    type: 'object',
+    required: ['model'],
+    properties: {
+      model: { type: 'string', enum: ['gpt-4o', 'claude-sonnet'] },
+      metadata: { type: 'object', properties: { owner: { type: 'string' } }, required: ['owner'] },
+    },
+  };
+
+  it('should accept matching configs', () => {
+    const validate = createConfigValidator(schema);
+    expect(() => validate({ model: 'gpt-4o', metadata: { owner: 'support' }, extra: true })).not.toThrow();
+  });
+
+  it('should list every mismatch', () => {
+    const validate = createConfigValidator(schema);
+    expect(() => validate({ model: 'gpt-2', metadata: {} })).toThrow(ValidationError);
+    expect(() => validate({ model: 'gpt-2', metadata: {} })).toThrow(
+      "Config does not match the project schema: /model must be equal to one of the allowed values; " +
+      "/metadata must have required property 'owner'"
+    );
+    expect(() => validate({})).toThrow("/ must have required property 'model'");
+  });
+
+  describe('schema files', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'langfuse-mcp-schema-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should load JSON and YAML schema files', () => {
+      writeFileSync(join(dir, 'config.schema.json'), JSON.stringify(schema));
+      writeFileSync(join(dir, 'config.schema.yaml'), 'type: object\nrequired: [model]\n');
+
+      expect(() => createConfigValidator(join(dir, 'config.schema.json'))({ model: 'gpt-4o' })).not.toThrow();
+      expect(() => createConfigValidator(join(dir, 'config.schema.yaml'))({})).toThrow(ValidationError);
+    });
+
+    it('should report missing and invalid schemas', () => {
+      writeFileSync(join(dir, 'broken.json'), '{');
+
+      expect(() => createConfigValidator(join(dir, 'missing.json'))).toThrow('Cannot read prompt config schema');
+      expect(() => createConfigValidator(join(dir, 'broken.json'))).toThrow('Cannot parse prompt config schema');
+    });
+  });
+});
@@ -0,0 +1,271 @@
+// Unit tests for configuration loading
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { homedir, tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  interpolateEnv,
+  validateConfig,
+  loadConfigFile,
+  loadConfigFromEnv,
+  findConfigFile,
+  ConfigManager,
+} from '../../src/lib/config';
+
+describe('Configuration', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'langfuse-mcp-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('interpolateEnv', () => {
+    const env = { PUBLIC_KEY: 'pk-lf-123', EMPTY: '' };
+
+    it('should replace environment variable references', () => {
+      expect(interpolateEnv({ key: '${PUBLIC_KEY}', list: ['x-${PUBLIC_KEY}'] }, env)).toEqual({
+        key: 'pk-lf-123',
+        list: ['x-pk-lf-123'],
+      });
+    });
+
+    it('should use defaults for unset variables', () => {
+      expect(interpolateEnv('${MISSING:-fallback}', env)).toBe('fallback');
+      expect(interpolateEnv('${EMPTY:-fallback}', env)).toBe('fallback');
+    });
+
+    it('should reject unset variables without default', () => {
+      expect(() => interpolateEnv('${MISSING}', env)).toThrow("'MISSING'");
+    });
+
+    it('should leave non-string values untouched', () => {
+      expect(interpolateEnv({ retries: 3, enabled: true }, env)).toEqual({ retries: 3, enabled: true });
+    });
+  });
+
+  describe('validateConfig', () => {
+    it('should apply defaults', () => {
+      const config = validateConfig({ projects: { dev: { publicKey: 'pk', secretKey: 'sk' } } }, 'test');
+      expect(config.projects.dev).toEqual({
+        publicKey: 'pk',
+        secretKey: 'sk',
+        baseUrl: 'https://cloud.langfuse.com',
+        requestTimeout: 30000,
+        maxRetries: 3,
+      });
+      expect(config.cache).toMatchObject({
+        promptTtl: 300,
+        listTtl: 60,
+        backend: 'memory',
+        staleWhileRevalidate: false,
+      });
+      expect(config.policies.readOnly).toBe(false);
+    });
+
+    it('should reject non-numeric values instead of producing NaN', () => {
+      expect(() => validateConfig({
+        projects: { dev: { publicKey: 'pk', secretKey: 'sk', requestTimeout: '30s' } },
+      }, 'test')).toThrow('projects.dev.requestTimeout');
+    });
+
+    it('should reject an unknown default project', () => {
+      expect(() => validateConfig({
+        projects: { dev: { publicKey: 'pk', secretKey: 'sk' } },
+        defaultProject: 'prod',
+      }, 'test')).toThrow("Default project 'prod' is not configured");
+    });
+
+    it('should require at least one project', () => {
+      expect(() => validateConfig({ projects: {} }, 'test')).toThrow('At least one project');
+    });
+  });
+
+  describe('loadConfigFile', () => {
+    it('should load YAML config with interpolation', () => {
+      const path = join(dir, 'langfuse-mcp.config.yaml');
+      writeFileSync(path, [
+        'projects:',
+        '  prod:',
+        '    publicKey: ${PROD_PK}',
+        '    secretKey: ${PROD_SK}',
+        '    maxRetries: ${PROD_RETRIES:-5}',
+        'tools:',
+        '  disabled: [delete-prompt]',
+        'policies:',
+        '  readOnly: true',
+      ].join('\n'));
+
+      const config = loadConfigFile(path, { PROD_PK: 'pk', PROD_SK: 'sk' });
+      expect(config.projects.prod.publicKey).toBe('pk');
+      expect(config.projects.prod.maxRetries).toBe(5);
+      expect(config.tools.disabled).toEqual(['delete-prompt']);
+      expect(config.policies.readOnly).toBe(true);
+    });
+
+    it('should load JSON config', () => {
+      const path = join(dir, 'langfuse-mcp.config.json');
+      writeFileSync(path, JSON.stringify({
+        projects: { dev: { publicKey: 'pk', secretKey: 'sk' } },
+        cache: { promptTtl: 30 },
+      }));
+
+      expect(loadConfigFile(path, {}).cache.promptTtl).toBe(30);
+    });
+
+    it('should resolve relative paths against the config file directory', () => {
+      const path = join(dir, 'langfuse-mcp.config.json');
+      writeFileSync(path, JSON.stringify({
+        projects: { dev: { publicKey: 'pk', secretKey: 'sk', promptConfigSchema: './schema.json' } },
+        files: { root: 'prompts' },
+        labelJournal: { file: '/var/log/journal.jsonl' },
+        cache: { directory: '~/cache' },
+      }));
+
+      const config = loadConfigFile(path, {});
+      expect(config.files.root).toBe(join(dir, 'prompts'));
+      expect(config.cassette.directory).toBe(join(dir, 'cassettes'));
+      expect(config.projects.dev.promptConfigSchema).toBe(join(dir, 'schema.json'));
+      expect(config.labelJournal.file).toBe('/var/log/journal.jsonl');
+      expect(config.cache.directory).toBe(join(homedir(), 'cache'));
+    });
+
+    it('should not interpolate inline prompt config schemas', () => {
+      const path = join(dir, 'langfuse-mcp.config.json');
+      const schema = { type: 'object', properties: { model: { type: 'string', pattern: '^${MODEL}$' } } };
+      writeFileSync(path, JSON.stringify({
+        projects: { dev: { publicKey: '${DEV_PK}', secretKey: 'sk', promptConfigSchema: schema } },
+      }));
+
+      const config = loadConfigFile(path, { DEV_PK: 'pk' });
+      expect(config.projects.dev.publicKey).toBe('pk');
+      expect(config.projects.dev.promptConfigSchema).toEqual(schema);
+    });
+
+    it('should report parse errors', () => {
+      const path = join(dir, 'langfuse-mcp.config.json');
+      writeFileSync(path, '{ invalid');
+      expect(() => loadConfigFile(path, {})).toThrow('Failed to parse config file');
+    });
+  });
+
+  describe('loadConfigFromEnv', () => {
+    it('should load a single default project', () => {
+      const config = loadConfigFromEnv({ LANGFUSE_PUBLIC_KEY: 'pk', LANGFUSE_SECRET_KEY: 'sk' });
+      expect(Object.keys(config.projects)).toEqual(['default']);
+    });
+
+    it('should load prefixed project profiles', () => {
+      const config = loadConfigFromEnv({
+        LANGFUSE_PROJECTS: 'dev, my-prod',
+        LANGFUSE_DEV_PUBLIC_KEY: 'pk-dev',
+        LANGFUSE_DEV_SECRET_KEY: 'sk-dev',
+        LANGFUSE_MY_PROD_PUBLIC_KEY: 'pk-prod',
+        LANGFUSE_MY_PROD_SECRET_KEY: 'sk-prod',
+        LANGFUSE_MY_PROD_REQUEST_TIMEOUT: '5000',
+        LANGFUSE_DEFAULT_PROJECT: 'my-prod',
+      });
+      expect(config.projects['my-prod'].requestTimeout).toBe(5000);
+      expect(config.defaultProject).toBe('my-prod');
+    });
+
+    it('should load fallback paths', () => {
+      const config = loadConfigFromEnv({
+        LANGFUSE_PUBLIC_KEY: 'pk',
+        LANGFUSE_SECRET_KEY: 'sk',
+        LANGFUSE_SNAPSHOT_DIR: '~/snapshots',
+        LANGFUSE_FALLBACK_FILE: '/srv/prompts.json',
+      });
+      expect(config.fallback.snapshotDirectory).toBe(join(homedir(), 'snapshots'));
+      expect(config.fallback.fallbackFile).toBe('/srv/prompts.json');
+    });
+
+    it('should reject missing credentials and invalid numbers', () => {
+      expect(() => loadConfigFromEnv({})).toThrow('projects.default.publicKey');
+      expect(() => loadConfigFromEnv({
+        LANGFUSE_PUBLIC_KEY: 'pk',
+        LANGFUSE_SECRET_KEY: 'sk',
+        LANGFUSE_MAX_RETRIES: 'three',
+      })).toThrow('projects.default.maxRetries');
+    });
+  });
+
+  describe('findConfigFile', () => {
+    it('should prefer an explicit path', () => {
+      const path = join(dir, 'custom.json');
+      writeFileSync(path, '{}');
+      expect(findConfigFile(path, {}, [])).toBe(path);
+    });
+
+    it('should fail when an explicit path does not exist', () => {
+      expect(() => findConfigFile(join(dir, 'missing.json'), {}, [])).toThrow('Config file not found');
+    });
+
+    it('should search the given directories', () => {
+      const path = join(dir, 'langfuse-mcp.config.yml');
+      writeFileSync(path, '');
+      expect(findConfigFile(undefined, {}, [join(dir, 'none'), dir])).toBe(path);
+      expect(findConfigFile(undefined, {}, [join(dir, 'none')])).toBeUndefined();
+    });
+  });
+
+  describe('ConfigManager', () => {
+    it('should notify listeners on reload and keep config on invalid files', () => {
+      const path = join(dir, 'langfuse-mcp.config.json');
+      const write = (config: unknown) => writeFileSync(path, JSON.stringify(config));
+      write({ projects: { dev: { publicKey: 'pk', secretKey: 'sk' } } });
+
+      const manager = new ConfigManager(path, {});
+      const listener = jest.fn();
+      manager.onChange(listener);
+
+      write({ projects: { dev: { publicKey: 'pk2', secretKey: 'sk' } } });
+      expect(manager.reload()).toBe(true);
+      expect(manager.get().projects.dev.publicKey).toBe('pk2');
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      write({ projects: {} });
+      expect(manager.reload()).toBe(false);
+      expect(manager.get().projects.dev.publicKey).toBe('pk2');
+      expect(listener).toHaveBeenCalledTimes(1);
+      errorSpy.mockRestore();
+    });
+
+    it('should restore the previous config when a listener fails', () => {
+      const path = join(dir, 'langfuse-mcp.config.json');
+      const write = (config: unknown) => writeFileSync(path, JSON.stringify(config));
+      write({ projects: { dev: { publicKey: 'pk', secretKey: 'sk' } } });
+
+      const manager = new ConfigManager(path, {});
+      const applied: string[] = [];
+      manager.onChange(config => {
+        if (config.projects.dev.publicKey === 'bad') {
+          throw new Error('Cannot apply');
+        }
+      });
+      manager.onChange(config => applied.push(config.projects.dev.publicKey));
+
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      write({ projects: { dev: { publicKey: 'bad', secretKey: 'sk' } } });
+      expect(manager.reload()).toBe(false);
+      expect(manager.get().projects.dev.publicKey).toBe('pk');
+      // Later listeners still run and then get the previous config back
+      expect(applied).toEqual(['bad', 'pk']);
+      expect(errorSpy).toHaveBeenCalledWith('Config reload failed, restoring previous configuration:', 'Cannot apply');
+      errorSpy.mockRestore();
+    });
+
+    it('should parse retry jitter from strings', () => {
+      const path = join(dir, 'langfuse-mcp.config.json');
+      writeFileSync(path, JSON.stringify({
+        projects: { dev: { publicKey: 'pk', secretKey: 'sk', retryPolicy: { jitter: 'false' } } },
+      }));
+
+      expect(new ConfigManager(path, {}).get().projects.dev.retryPolicy?.jitter).toBe(false);
+    });
+  });
+});
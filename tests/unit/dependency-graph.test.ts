@@ -0,0 +1,85 @@
+// Unit tests for the prompt dependency graph
+
+import { buildDependencyGraph, findImpactedPrompts } from '../../src/lib/dependency-graph';
+import { PromptVersion } from '../../src/types';
+
+const makePrompt = (name: string, version: number, labels: string[], prompt: PromptVersion['prompt']): PromptVersion => ({
+  name,
+  version,
+  type: typeof prompt === 'string' ? 'text' : 'chat',
+  prompt,
+  labels,
+  tags: [],
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  variables: [],
+});
+
+describe('Dependency graph', () => {
+  const prompts = [
+    makePrompt('tone', 2, ['production'], 'Be friendly.'),
+    makePrompt('support', 5, ['production', 'latest'], [
+      { role: 'system', content: '@@@langfusePrompt:name=tone|label=production@@@' },
+    ]),
+    makePrompt('sales', 1, ['production'], '@@@langfusePrompt:name=tone|version=2@@@'),
+    makePrompt('header', 3, ['production'], '@@@langfusePrompt:name=tone|label=staging@@@'),
+    makePrompt('agent', 7, ['production'], '@@@langfusePrompt:name=header|version=3@@@'),
+    makePrompt('agent', 7, ['production'], '@@@langfusePrompt:name=header|version=3@@@'),
+  ];
+  const graph = buildDependencyGraph(prompts);
+
+  it('should collect nodes and reference edges', () => {
+    expect(graph.nodes).toHaveLength(5);
+    expect(graph.edges).toEqual([
+      { from: 'support', fromVersion: 5, to: 'tone', label: 'production' },
+      { from: 'sales', fromVersion: 1, to: 'tone', version: 2 },
+      { from: 'header', fromVersion: 3, to: 'tone', label: 'staging' },
+      { from: 'agent', fromVersion: 7, to: 'header', version: 3 },
+    ]);
+  });
+
+  it('should record prompts with malformed references as error nodes', () => {
+    const broken = buildDependencyGraph([
+      makePrompt('legacy', 1, ['production'], '@@@langfusePrompt:label=production@@@'),
+      ...prompts,
+    ]);
+
+    expect(broken.nodes[0]).toEqual({
+      name: 'legacy',
+      version: 1,
+      labels: ['production'],
+      error: "Invalid prompt reference '@@@langfusePrompt:label=production@@@': name is required",
+    });
+    expect(broken.nodes).toHaveLength(6);
+    expect(broken.edges).toEqual(graph.edges);
+  });
+
+  it('should find parents that include a moved label', () => {
+    const impacted = findImpactedPrompts(graph, [{ name: 'tone', label: 'production', fromVersion: 2, toVersion: 3 }]);
+
+    expect(impacted).toEqual([{
+      name: 'support',
+      version: 5,
+      labels: ['production', 'latest'],
+      path: ['tone', 'support'],
+      reason: "'production' of tone would move to version 3",
+    }]);
+  });
+
+  it('should follow parents of impacted prompts', () => {
+    const impacted = findImpactedPrompts(graph, [{ name: 'tone', label: 'staging', toVersion: 3 }]);
+
+    expect(impacted.map(prompt => prompt.path)).toEqual([['tone', 'header'], ['tone', 'header', 'agent']]);
+  });
+
+  it('should report removed labels', () => {
+    const impacted = findImpactedPrompts(graph, [{ name: 'tone', label: 'production', fromVersion: 2 }]);
+
+    expect(impacted[0].reason).toBe("'production' would be removed from tone version 2");
+  });
+
+  it('should ignore changes that keep the version', () => {
+    expect(findImpactedPrompts(graph, [{ name: 'tone', label: 'production', fromVersion: 2, toVersion: 2 }]))
+      .toEqual([]);
+  });
+});
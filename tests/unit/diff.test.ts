@@ -0,0 +1,94 @@
+// Unit tests for prompt version diffs
+
+import { diffConfig, diffMessages, unifiedDiff } from '../../src/lib/diff';
+
+describe('Prompt diffs', () => {
+  describe('unifiedDiff', () => {
+    it('should return an empty diff for equal texts', () => {
+      expect(unifiedDiff('Hello\nWorld', 'Hello\nWorld')).toBe('');
+    });
+
+    it('should produce a unified diff with context', () => {
+      const from = ['a', 'b', 'c', 'd', 'e', 'f'].join('\n');
+      const to = ['a', 'b', 'C', 'd', 'e', 'f', 'g'].join('\n');
+
+      expect(unifiedDiff(from, to, { fromLabel: 'v1', toLabel: 'v2', context: 1 })).toBe([
+        '--- v1',
+        '+++ v2',
+        '@@ -2,3 +2,3 @@',
+        ' b',
+        '-c',
+        '+C',
+        ' d',
+        '@@ -6,1 +6,2 @@',
+        ' f',
+        '+g',
+      ].join('\n'));
+    });
+
+    it('should merge nearby changes into one hunk', () => {
+      const from = ['a', 'b', 'c', 'd'].join('\n');
+      const to = ['A', 'b', 'c', 'D'].join('\n');
+
+      const diff = unifiedDiff(from, to);
+      expect(diff.match(/^@@/gm)).toHaveLength(1);
+      expect(diff).toContain('@@ -1,4 +1,4 @@');
+    });
+  });
+
+  describe('diffMessages', () => {
+    it('should report added, removed and changed messages', () => {
+      const from = [
+        { role: 'system' as const, content: 'You are helpful.' },
+        { role: 'user' as const, content: 'Hi {{name}}' },
+        { role: 'assistant' as const, content: 'Hello!' },
+      ];
+      const to = [
+        { role: 'system' as const, content: 'You are concise.' },
+        { role: 'user' as const, content: 'Hi {{name}}' },
+      ];
+
+      expect(diffMessages(from, to)).toEqual([
+        {
+          status: 'changed',
+          fromIndex: 0,
+          toIndex: 0,
+          fromRole: 'system',
+          toRole: 'system',
+          roleChanged: false,
+          contentChanged: true,
+          diff: '--- from\n+++ to\n@@ -1,1 +1,1 @@\n-You are helpful.\n+You are concise.',
+        },
+        { status: 'unchanged', fromIndex: 1, toIndex: 1, fromRole: 'user', toRole: 'user' },
+        { status: 'removed', fromIndex: 2, fromRole: 'assistant' },
+      ]);
+    });
+
+    it('should detect role changes', () => {
+      const [change] = diffMessages(
+        [{ role: 'user', content: 'Hi' }],
+        [{ role: 'assistant', content: 'Hi' }]
+      );
+      expect(change).toMatchObject({ status: 'changed', roleChanged: true, contentChanged: false });
+      expect(change.diff).toBeUndefined();
+    });
+  });
+
+  describe('diffConfig', () => {
+    it('should diff config keys', () => {
+      expect(diffConfig(
+        { model: 'gpt-4', temperature: 0.7, stopSequences: ['END'] },
+        { model: 'gpt-4o', stopSequences: ['END'], maxTokens: 500 }
+      )).toEqual([
+        { key: 'maxTokens', change: 'added', to: 500 },
+        { key: 'model', change: 'changed', from: 'gpt-4', to: 'gpt-4o' },
+        { key: 'temperature', change: 'removed', from: 0.7 },
+      ]);
+    });
+
+    it('should handle missing configs', () => {
+      expect(diffConfig(undefined, undefined)).toEqual([]);
+      expect(diffConfig(undefined, { model: 'gpt-4' })).toEqual([{ key: 'model', change: 'added', to: 'gpt-4' }]);
+    });
+  });
+});
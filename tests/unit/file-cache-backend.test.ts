@@ -0,0 +1,55 @@
+// Unit tests for file-backed cache storage
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileCacheBackend } from '../../src/lib/file-cache-backend';
+import { Cache } from '../../src/lib/cache';
+
+describe('FileCacheBackend', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'langfuse-mcp-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should persist entries across instances', () => {
+    const first = new Cache<{ version: number }>({ backend: FileCacheBackend.forCache(dir, 'dev/prompts') });
+    first.set('greeting:latest:', { version: 3 });
+
+    const second = new Cache<{ version: number }>({ backend: FileCacheBackend.forCache(dir, 'dev/prompts') });
+    expect(second.get('greeting:latest:')).toEqual({ version: 3 });
+  });
+
+  it('should keep expiry across instances', () => {
+    const first = FileCacheBackend.forCache<string>(dir, 'prompts');
+    first.set('expired', { data: 'old', expiresAt: Date.now() - 1000 });
+
+    const cache = new Cache<string>({ backend: FileCacheBackend.forCache(dir, 'prompts') });
+    expect(cache.get('expired')).toBeNull();
+  });
+
+  it('should persist deletes and clears', () => {
+    const backend = FileCacheBackend.forCache<string>(dir, 'prompts');
+    backend.set('a', { data: 'a', expiresAt: Date.now() + 60000 });
+    backend.set('b', { data: 'b', expiresAt: Date.now() + 60000 });
+    backend.delete('a');
+    expect(FileCacheBackend.forCache(dir, 'prompts').keys()).toEqual(['b']);
+
+    backend.clear();
+    expect(FileCacheBackend.forCache(dir, 'prompts').size()).toBe(0);
+  });
+
+  it('should start empty when the file is corrupt', () => {
+    const path = join(dir, 'prompts.json');
+    writeFileSync(path, '{ not json');
+
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(new FileCacheBackend(path).size()).toBe(0);
+    errorSpy.mockRestore();
+  });
+});
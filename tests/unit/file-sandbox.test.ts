@@ -0,0 +1,62 @@
+// Unit tests for the sandbox root of tool file paths
+
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileSandbox } from '../../src/lib/file-sandbox';
+import { ValidationError } from '../../src/types';
+
+describe('FileSandbox', () => {
+  let dir: string;
+  let root: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'langfuse-mcp-sandbox-'));
+    root = join(dir, 'root');
+    mkdirSync(root);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should reject all paths without a root', () => {
+    expect(() => new FileSandbox().resolve('export.json')).toThrow(/File access is disabled/);
+  });
+
+  it('should resolve paths relative to the root', () => {
+    const sandbox = new FileSandbox(root);
+
+    expect(sandbox.resolve('export.json')).toBe(join(root, 'export.json'));
+    expect(sandbox.resolve('backups/new/export.zip')).toBe(join(root, 'backups', 'new', 'export.zip'));
+    expect(sandbox.resolve(join(root, 'export.json'))).toBe(join(root, 'export.json'));
+    expect(sandbox.resolve('.')).toBe(root);
+    expect(sandbox.resolve('..drafts/export.json')).toBe(join(root, '..drafts', 'export.json'));
+  });
+
+  it('should reject paths outside of the root', () => {
+    const sandbox = new FileSandbox(root);
+
+    expect(() => sandbox.resolve('../export.json')).toThrow(ValidationError);
+    expect(() => sandbox.resolve('backups/../../export.json')).toThrow(/outside of the files root/);
+    expect(() => sandbox.resolve(join(dir, 'root-sibling'))).toThrow(/outside of the files root/);
+    expect(() => sandbox.resolve('/etc/passwd')).toThrow(/outside of the files root/);
+  });
+
+  it('should reject symbolic links leaving the root', () => {
+    mkdirSync(join(dir, 'outside'));
+    symlinkSync(join(dir, 'outside'), join(root, 'link'));
+    const sandbox = new FileSandbox(root);
+
+    expect(() => sandbox.resolve('link/export.json')).toThrow(/outside of the files root/);
+  });
+
+  it('should apply a new root on configure', () => {
+    const sandbox = new FileSandbox(root);
+    sandbox.configure(undefined);
+    expect(() => sandbox.resolve('export.json')).toThrow(/File access is disabled/);
+
+    sandbox.configure(dir);
+    expect(sandbox.resolve('outside')).toBe(join(dir, 'outside'));
+  });
+});
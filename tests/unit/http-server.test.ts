@@ -0,0 +1,163 @@
+// Unit tests for the HTTP transport
+
+import { AddressInfo } from 'node:net';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { HttpServerHandle, startHttpServer } from '../../src/lib/http-server';
+
+describe('HTTP server', () => {
+  let httpServer: HttpServerHandle;
+  let baseUrl: string;
+  let factory: jest.Mock<Promise<McpServer>, []>;
+
+  const options = {
+    port: 0,
+    host: '127.0.0.1',
+    path: '/mcp',
+    ssePath: '/sse',
+    messagesPath: '/messages',
+    sessionIdleTimeoutMs: 0,
+  };
+  const headers = { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream' };
+
+  const initialize = {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+  };
+
+  const post = (body: unknown, sessionId?: string) => fetch(`${baseUrl}/mcp`, {
+    method: 'POST',
+    headers: { ...headers, ...(sessionId && { 'mcp-session-id': sessionId }) },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+
+  // Read the JSON-RPC message of a response sent as JSON or a single SSE event
+  const message = async (response: Response) => {
+    const text = await response.text();
+    const data = text.split('\n').find(line => line.startsWith('data: '));
+    return JSON.parse(data ? data.slice(6) : text);
+  };
+
+  const openSession = async () => {
+    const response = await post(initialize);
+    expect(response.status).toBe(200);
+    await message(response);
+    const sessionId = response.headers.get('mcp-session-id')!;
+    await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId);
+    return sessionId;
+  };
+
+  const start = async (overrides: Partial<typeof options> = {}) => {
+    httpServer = await startHttpServer(factory, { ...options, ...overrides });
+    baseUrl = `http://127.0.0.1:${(httpServer.server.address() as AddressInfo).port}`;
+  };
+
+  beforeEach(async () => {
+    factory = jest.fn(async () => {
+      const server = new McpServer({ name: 'test', version: '1.0.0' });
+      server.tool('ping', 'Reply with pong', async () => ({ content: [{ type: 'text', text: 'pong' }] }));
+      return server;
+    });
+    await start();
+  });
+
+  afterEach(async () => {
+    if (httpServer.server.listening) {
+      httpServer.server.closeAllConnections();
+      await httpServer.close();
+    }
+  });
+
+  it('should serve each client in its own session', async () => {
+    const first = await openSession();
+    const second = await openSession();
+
+    expect(first).not.toBe(second);
+    expect(factory).toHaveBeenCalledTimes(2);
+
+    const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'ping', arguments: {} } }, first);
+    expect((await message(response)).result.content).toEqual([{ type: 'text', text: 'pong' }]);
+  });
+
+  it('should only accept requests for known sessions', async () => {
+    const list = { jsonrpc: '2.0', id: 2, method: 'tools/list' };
+
+    const missing = await post(list);
+    expect(missing.status).toBe(400);
+    expect((await missing.json()).error.message).toBe('Bad Request: No valid session ID provided');
+
+    const unknown = await post(list, 'not-a-session');
+    expect(unknown.status).toBe(404);
+    expect((await unknown.json()).error).toEqual({ code: -32001, message: 'Session not found' });
+
+    const legacy = await fetch(`${baseUrl}/messages?sessionId=not-a-session`, { method: 'POST', headers, body: '{}' });
+    expect(legacy.status).toBe(404);
+
+    expect(factory).not.toHaveBeenCalled();
+  });
+
+  it('should end sessions on request', async () => {
+    const sessionId = await openSession();
+
+    const ended = await fetch(`${baseUrl}/mcp`, { method: 'DELETE', headers: { 'mcp-session-id': sessionId } });
+    expect(ended.status).toBe(200);
+
+    expect((await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, sessionId)).status).toBe(404);
+  });
+
+  it('should reject malformed requests', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const invalid = await post('{not json');
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).error).toEqual({ code: -32700, message: 'Parse error' });
+
+    expect((await fetch(`${baseUrl}/other`)).status).toBe(404);
+    jest.restoreAllMocks();
+  });
+
+  it('should serve legacy SSE clients', async () => {
+    const controller = new AbortController();
+    const stream = await fetch(`${baseUrl}/sse`, { signal: controller.signal });
+    const reader = stream.body!.getReader();
+    const { value } = await reader.read();
+    const endpoint = /data: (\S+)/.exec(Buffer.from(value!).toString())![1];
+    expect(endpoint).toMatch(/^\/messages\?sessionId=/);
+
+    const accepted = await fetch(`${baseUrl}${endpoint}`, { method: 'POST', headers, body: JSON.stringify(initialize) });
+    expect(accepted.status).toBe(202);
+    controller.abort();
+  });
+
+  it('should close open sessions on shutdown', async () => {
+    const sessionId = await openSession();
+    const stream = await fetch(`${baseUrl}/mcp`, {
+      headers: { 'Accept': 'text/event-stream', 'mcp-session-id': sessionId },
+    });
+    expect(stream.status).toBe(200);
+
+    const closed = httpServer.close();
+    // The open event stream ends instead of keeping the server alive
+    await expect(stream.text()).resolves.toBe('');
+    await closed;
+    await expect(post(initialize)).rejects.toThrow();
+  });
+
+  it('should close sessions that stay idle', async () => {
+    await httpServer.close();
+    await start({ sessionIdleTimeoutMs: 300 });
+    const list = { jsonrpc: '2.0', id: 2, method: 'tools/list' };
+    const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    const sessionId = await openSession();
+    // Requests keep the session alive
+    for (let i = 0; i < 3; i++) {
+      await wait(150);
+      expect((await post(list, sessionId)).status).toBe(200);
+    }
+
+    await wait(450);
+    expect((await post(list, sessionId)).status).toBe(404);
+  });
+});
@@ -0,0 +1,73 @@
+// Unit tests for the label move journal
+
+import { appendFileSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { LabelJournal } from '../../src/lib/label-journal';
+
+describe('LabelJournal', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'langfuse-mcp-journal-'));
+    path = join(dir, 'state', 'label-journal.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const move = (fromVersion: number | undefined, toVersion: number, reason: 'promote' | 'rollback' = 'promote') => ({
+    project: 'dev',
+    name: 'greeting',
+    label: 'production',
+    fromVersion,
+    toVersion,
+    reason,
+  });
+
+  it('should find the promotion onto a version', () => {
+    const journal = new LabelJournal(path);
+    journal.record(move(undefined, 1));
+    journal.record(move(1, 2));
+    journal.record(move(2, 3));
+
+    expect(journal.findPromotion('dev', 'greeting', 'production', 3)).toMatchObject({ fromVersion: 2 });
+    expect(journal.findPromotion('dev', 'greeting', 'production', 1)!.fromVersion).toBeUndefined();
+    expect(journal.findPromotion('prod', 'greeting', 'production', 3)).toBeUndefined();
+    expect(journal.findPromotion('dev', 'greeting', 'staging', 3)).toBeUndefined();
+  });
+
+  it('should skip rollbacks so repeated rollbacks keep walking back', () => {
+    const journal = new LabelJournal(path);
+    journal.record(move(1, 2));
+    journal.record(move(2, 3));
+    journal.record(move(3, 2, 'rollback'));
+
+    expect(journal.findPromotion('dev', 'greeting', 'production', 2)).toMatchObject({ fromVersion: 1 });
+  });
+
+  it('should use the latest promotion onto a version', () => {
+    const journal = new LabelJournal(path);
+    journal.record(move(1, 3));
+    journal.record(move(3, 4));
+    journal.record(move(2, 3));
+
+    expect(journal.findPromotion('dev', 'greeting', 'production', 3)).toMatchObject({ fromVersion: 2 });
+  });
+
+  it('should skip torn lines', () => {
+    const journal = new LabelJournal(path);
+    journal.record(move(1, 2));
+    appendFileSync(path, '{"project":"dev","na');
+
+    expect(journal.findPromotion('dev', 'greeting', 'production', 2)).toMatchObject({ fromVersion: 1 });
+  });
+
+  it('should do nothing without a file', () => {
+    const journal = new LabelJournal();
+    journal.record(move(1, 2));
+    expect(journal.findPromotion('dev', 'greeting', 'production', 2)).toBeUndefined();
+  });
+});
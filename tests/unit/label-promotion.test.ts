@@ -0,0 +1,109 @@
+// Unit tests for label promotion between prompt versions
+
+import { promoteLabel } from '../../src/lib/label-promotion';
+import { LangfuseAPIClient } from '../../src/lib/langfuse-client';
+import { APIError, UpdatePromptLabelsParams } from '../../src/types';
+
+/**
+ * In-memory stand-in for the Langfuse API, where a label can only be on one
+ * version of a prompt at a time
+ */
+function createFakeClient(labels: Record<number, string[]>) {
+  const getPrompt = async ({ version, label }: { name: string; version?: number; label?: string }) => {
+    const found = version !== undefined
+      ? (labels[version] ? version : undefined)
+      : Object.keys(labels).map(Number).find(v => labels[v].includes(label!));
+    if (found === undefined) {
+      throw new APIError(404, 'Prompt not found');
+    }
+    return { name: 'greeting', version: found, labels: [...labels[found]] };
+  };
+
+  const client = {
+    getPrompt: jest.fn(getPrompt),
+    getPromptVersions: jest.fn(async (name: string, versions: number[]) =>
+      Promise.all(versions.map(version => getPrompt({ name, version })))
+    ),
+    updatePromptLabels: jest.fn(async ({ version, newLabels }: UpdatePromptLabelsParams) => {
+      for (const other of Object.keys(labels).map(Number)) {
+        labels[other] = labels[other].filter(l => !newLabels.includes(l));
+      }
+      labels[version] = [...newLabels];
+      return getPrompt({ name: 'greeting', version });
+    }),
+  };
+
+  return { client, api: client as unknown as LangfuseAPIClient };
+}
+
+describe('promoteLabel', () => {
+  it('should move a label and keep other labels', async () => {
+    const labels: Record<number, string[]> = { 1: ['production', 'eu'], 2: ['staging', 'latest'] };
+    const { api } = createFakeClient(labels);
+
+    const promotion = await promoteLabel(api, { name: 'greeting', version: 2, label: 'production' });
+
+    expect(promotion).toMatchObject({ version: 2, previousVersion: 1 });
+    expect(promotion.changes).toEqual([
+      { version: 2, before: ['staging'], after: ['staging', 'production'] },
+      { version: 1, before: ['production', 'eu'], after: ['eu'] },
+    ]);
+    expect(labels).toEqual({ 1: ['eu'], 2: ['staging', 'production'] });
+  });
+
+  it('should promote a label that is not on any version yet', async () => {
+    const labels: Record<number, string[]> = { 1: ['staging'] };
+    const { api } = createFakeClient(labels);
+
+    const promotion = await promoteLabel(api, { name: 'greeting', version: 1, label: 'production' });
+
+    expect(promotion.previousVersion).toBeUndefined();
+    expect(labels[1]).toEqual(['staging', 'production']);
+  });
+
+  it('should do nothing when the label is already on the version', async () => {
+    const { client, api } = createFakeClient({ 1: ['production'] });
+
+    const promotion = await promoteLabel(api, { name: 'greeting', version: 1, label: 'production' });
+
+    expect(promotion.changes).toEqual([]);
+    expect(client.updatePromptLabels).not.toHaveBeenCalled();
+  });
+
+  it('should roll back when a step fails', async () => {
+    const labels: Record<number, string[]> = { 1: ['production', 'eu'], 2: ['staging'] };
+    const { client, api } = createFakeClient(labels);
+    const update = client.updatePromptLabels.getMockImplementation()!;
+    client.updatePromptLabels
+      .mockImplementationOnce(update)
+      .mockRejectedValueOnce(new APIError(503, 'Service unavailable'));
+
+    await expect(promoteLabel(api, { name: 'greeting', version: 2, label: 'production' }))
+      .rejects.toThrow("Promotion of 'production' to version 2 failed and was rolled back: Service unavailable");
+    expect(labels).toEqual({ 1: ['production', 'eu'], 2: ['staging'] });
+  });
+
+  it('should roll back when the result does not match', async () => {
+    const labels: Record<number, string[]> = { 1: ['production'], 2: ['staging'] };
+    const { client, api } = createFakeClient(labels);
+    client.getPromptVersions.mockResolvedValueOnce([
+      { version: 1, labels: [] },
+      { version: 2, labels: ['production'] },
+    ] as any);
+
+    await expect(promoteLabel(api, { name: 'greeting', version: 2, label: 'production' }))
+      .rejects.toThrow('Version 2 has labels [production], expected [staging, production]');
+    expect(labels).toEqual({ 1: ['production'], 2: ['staging'] });
+  });
+
+  it('should report labels to restore when rolling back fails', async () => {
+    const { client, api } = createFakeClient({ 1: ['production'], 2: ['staging'] });
+    const update = client.updatePromptLabels.getMockImplementation()!;
+    client.updatePromptLabels
+      .mockImplementationOnce(update)
+      .mockRejectedValue(new APIError(503, 'Service unavailable'));
+
+    await expect(promoteLabel(api, { name: 'greeting', version: 2, label: 'production' }))
+      .rejects.toThrow('restore labels manually: version 2: [staging]');
+  });
+});
@@ -0,0 +1,123 @@
+// Unit tests for Langfuse API client request handling
+
+import { LangfuseAPIClient } from '../../src/lib/langfuse-client';
+import { APIError, CircuitOpenError, RateLimitError } from '../../src/types';
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+describe('LangfuseAPIClient', () => {
+  const prompt = { name: 'test', version: 1 };
+  let fetchMock: jest.Mock;
+
+  const createClient = (retryPolicy = {}) => new LangfuseAPIClient({
+    publicKey: 'pk',
+    secretKey: 'sk',
+    retryPolicy: { baseDelayMs: 1, jitter: false, ...retryPolicy },
+  });
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+  });
+
+  it('should retry GET requests on server errors', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(503, {}))
+      .mockResolvedValueOnce(jsonResponse(200, prompt));
+
+    await expect(createClient().getPrompt({ name: 'test' })).resolves.toEqual(prompt);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry GET requests on network errors', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(jsonResponse(200, prompt));
+
+    await expect(createClient().getPrompt({ name: 'test' })).resolves.toEqual(prompt);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry POST requests on server errors', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(500, { message: 'boom' }));
+
+    await expect(createClient().createPrompt({ name: 'test', type: 'text', prompt: 'Hi' }))
+      .rejects.toBeInstanceOf(APIError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait out Retry-After on rate limiting', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(429, {}, { 'Retry-After': '0.05' }))
+      .mockResolvedValueOnce(jsonResponse(200, prompt));
+
+    const start = Date.now();
+    await expect(createClient().createPrompt({ name: 'test', type: 'text', prompt: 'Hi' }))
+      .resolves.toEqual(prompt);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(40);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail with RateLimitError when Retry-After exceeds the limit', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(429, {}, { 'Retry-After': '120' }));
+
+    await expect(createClient().getPrompt({ name: 'test' })).rejects.toBeInstanceOf(RateLimitError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail fast once the circuit breaker opens', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(503, {}));
+    const client = createClient({ maxRetries: 0, circuitBreaker: { failureThreshold: 2 } });
+
+    await expect(client.getPrompt({ name: 'test' })).rejects.toBeInstanceOf(APIError);
+    await expect(client.getPrompt({ name: 'test' })).rejects.toBeInstanceOf(APIError);
+    await expect(client.getPrompt({ name: 'test' })).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(client.getCircuitState()).toBe('open');
+  });
+
+  describe('prompt versions', () => {
+    const listResponse = (item: Record<string, unknown>) => jsonResponse(200, {
+      data: [{ name: 'test', ...item }],
+      meta: { page: 1, limit: 100, totalPages: 1, totalItems: 1 },
+    });
+
+    it('should list reported versions in ascending order', async () => {
+      fetchMock.mockResolvedValueOnce(listResponse({ latestVersion: 5, versions: [5, 2, 3] }));
+
+      await expect(createClient().listPromptVersions('test')).resolves.toEqual([2, 3, 5]);
+    });
+
+    it('should fall back to the latest version number', async () => {
+      fetchMock.mockResolvedValueOnce(listResponse({ latestVersion: 3 }));
+
+      await expect(createClient().listPromptVersions('test')).resolves.toEqual([1, 2, 3]);
+    });
+
+    it('should reject unknown prompts', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse(200, { data: [], meta: {} }));
+
+      await expect(createClient().listPromptVersions('test')).rejects.toMatchObject({ status: 404 });
+    });
+
+    it('should fetch the full history in version order, skipping missing versions', async () => {
+      fetchMock.mockImplementation(async (url: string) => {
+        if (url.includes('/prompts?')) {
+          return listResponse({ latestVersion: 3 });
+        }
+        const version = Number(url.split('/').pop());
+        return version === 2
+          ? jsonResponse(404, { message: 'Not found' })
+          : jsonResponse(200, { name: 'test', version });
+      });
+
+      const history = await createClient().getPromptHistory('test');
+      expect(history.map(p => p.version)).toEqual([1, 3]);
+    });
+  });
+});
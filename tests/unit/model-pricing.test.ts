@@ -0,0 +1,83 @@
+// Unit tests for model prices and cost estimates
+
+import { DEFAULT_MODEL_PRICES, ModelPricing } from '../../src/lib/model-pricing';
+
+describe('ModelPricing', () => {
+  it('should find prices by exact name or with a date or version suffix', () => {
+    const pricing = new ModelPricing();
+
+    expect(pricing.find('gpt-4o')?.name).toBe('gpt-4o');
+    expect(pricing.find('gpt-4o-mini-2024-07-18')?.name).toBe('gpt-4o-mini');
+    expect(pricing.find('gpt-4o-2024-08-06')?.name).toBe('gpt-4o');
+    expect(pricing.find('claude-sonnet-4-20250514')?.name).toBe('claude-sonnet-4');
+    expect(pricing.find('gemini-2.5-flash-001')?.name).toBe('gemini-2.5-flash');
+    expect(pricing.find('claude-3-5-haiku-latest')?.name).toBe('claude-3-5-haiku');
+    expect(pricing.find('llama-3')).toBeUndefined();
+  });
+
+  it('should not price other variants of a model', () => {
+    const pricing = new ModelPricing();
+
+    expect(pricing.find('o3-mini')).toBeUndefined();
+    expect(pricing.find('o3-pro-2025-06-10')).toBeUndefined();
+    expect(pricing.find('gpt-4o-audio-preview')).toBeUndefined();
+    expect(pricing.find('claude-sonnet-4-5')).toBeUndefined();
+    expect(pricing.find('gpt-4oo')).toBeUndefined();
+  });
+
+  it('should merge configured prices over the defaults', () => {
+    const pricing = new ModelPricing({ 'gpt-4o': { input: 1 }, 'llama-3': { input: 0.2, contextWindow: 8192 } });
+
+    expect(pricing.find('gpt-4o')?.price).toEqual({ input: 1 });
+    expect(pricing.find('llama-3-001')?.name).toBe('llama-3');
+    expect(pricing.find('gpt-4.1')?.price).toEqual(DEFAULT_MODEL_PRICES['gpt-4.1']);
+
+    pricing.configure({});
+    expect(pricing.find('gpt-4o')?.price).toEqual(DEFAULT_MODEL_PRICES['gpt-4o']);
+    expect(pricing.find('llama-3')).toBeUndefined();
+  });
+
+  describe('estimate', () => {
+    const pricing = new ModelPricing({ tiny: { input: 1000, output: 2000, contextWindow: 20 } });
+
+    it('should estimate input and maximum output cost', () => {
+      const estimate = pricing.estimate('Hello world, this is a test.', 'gpt-4o', 1000);
+
+      expect(estimate).toMatchObject({
+        pricedAs: 'gpt-4o',
+        inputTokens: 8,
+        inputCost: 0.00002,
+        maxOutputTokens: 1000,
+        maxOutputCost: 0.01,
+        maxTotalCost: 0.01002,
+        contextWindow: 128000,
+        fitsContextWindow: true,
+        currency: 'USD',
+      });
+      expect(estimate.warnings).toEqual([]);
+    });
+
+    it('should check the context window including maxTokens', () => {
+      expect(pricing.estimate('Hello world, this is a test.', 'tiny', 10).fitsContextWindow).toBe(true);
+
+      const estimate = pricing.estimate('Hello world, this is a test.', 'tiny', 20);
+      expect(estimate.fitsContextWindow).toBe(false);
+      expect(estimate.warnings).toContainEqual(expect.stringContaining('exceed the 20 token context window of tiny'));
+    });
+
+    it('should warn about approximate, unpriced and unbounded estimates', () => {
+      expect(pricing.estimate('Hi', 'claude-sonnet-4').warnings).toEqual([
+        'No local tokenizer for claude-sonnet-4, tokens are approximated with cl100k_base',
+        'Config has no maxTokens, output cost is not bounded',
+      ]);
+
+      const unpriced = pricing.estimate('Hi', 'llama-3');
+      expect(unpriced.inputCost).toBeUndefined();
+      expect(unpriced.warnings).toContain("No price for model 'llama-3', add it to the pricing config");
+
+      const noModel = pricing.estimate('Hi');
+      expect(noModel.inputTokens).toBe(1);
+      expect(noModel.inputCost).toBeUndefined();
+    });
+  });
+});
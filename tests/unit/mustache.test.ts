@@ -0,0 +1,141 @@
+// Unit tests for the mustache template engine
+
+import { renderTemplate, renderTemplates, templateVariables, validateTemplate } from '../../src/lib/mustache';
+import { TemplateError, ValidationError } from '../../src/types';
+
+describe('Mustache engine', () => {
+  describe('variables', () => {
+    it('should render variables and dotted names', () => {
+      expect(renderTemplate('Hi {{ name }} from {{user.city}}', { name: 'Ada', user: { city: 'London' } }))
+        .toBe('Hi Ada from London');
+    });
+
+    it('should only escape HTML when asked to', () => {
+      const view = { text: '<b>Tom & Jerry</b>' };
+      expect(renderTemplate('{{text}}', view)).toBe('<b>Tom & Jerry</b>');
+      expect(renderTemplate('{{text}}', view, { escape: 'html' })).toBe('&lt;b&gt;Tom &amp; Jerry&lt;/b&gt;');
+      expect(renderTemplate('{{{text}}} {{&text}}', view, { escape: 'html' }))
+        .toBe('<b>Tom & Jerry</b> <b>Tom & Jerry</b>');
+    });
+
+    it('should leave unknown variables in place outside strict mode', () => {
+      expect(renderTemplate('{{known}} {{unknown}}', { known: 1 })).toBe('1 {{unknown}}');
+    });
+
+    it('should render null values as empty', () => {
+      expect(renderTemplate('[{{value}}]', { value: null })).toBe('[]');
+    });
+  });
+
+  describe('sections', () => {
+    it('should iterate lists', () => {
+      const template = '{{#items}}- {{name}}\n{{/items}}';
+      expect(renderTemplate(template, { items: [{ name: 'a' }, { name: 'b' }] })).toBe('- a\n- b\n');
+    });
+
+    it('should support the implicit iterator', () => {
+      expect(renderTemplate('{{#tags}}[{{.}}]{{/tags}}', { tags: ['x', 'y'] })).toBe('[x][y]');
+    });
+
+    it('should render sections for truthy values and objects', () => {
+      const template = '{{#user}}Hello {{name}}{{/user}}{{#admin}}!{{/admin}}';
+      expect(renderTemplate(template, { user: { name: 'Ada' }, admin: true })).toBe('Hello Ada!');
+      expect(renderTemplate(template, { user: null, admin: false })).toBe('');
+    });
+
+    it('should render inverted sections for falsy values and empty lists', () => {
+      const template = '{{^items}}No items{{/items}}';
+      expect(renderTemplate(template, { items: [] })).toBe('No items');
+      expect(renderTemplate(template, { items: [1] })).toBe('');
+    });
+
+    it('should resolve names from parent contexts', () => {
+      const template = '{{#items}}{{name}} by {{author}};{{/items}}';
+      expect(renderTemplate(template, { author: 'Ada', items: [{ name: 'a' }] })).toBe('a by Ada;');
+    });
+
+    it('should remove standalone section lines', () => {
+      const template = 'Start\n{{#show}}\n  Shown\n{{/show}}\nEnd';
+      expect(renderTemplate(template, { show: true })).toBe('Start\n  Shown\nEnd');
+      expect(renderTemplate(template, { show: false })).toBe('Start\nEnd');
+    });
+  });
+
+  describe('comments, partials and delimiters', () => {
+    it('should drop comments', () => {
+      expect(renderTemplate('a{{! note }}b\n{{! standalone }}\nc', {})).toBe('ab\nc');
+    });
+
+    it('should render partials with indentation', () => {
+      const partials = { item: '- {{name}}\n' };
+      expect(renderTemplate('List:\n  {{> item}}', { name: 'a' }, { partials })).toBe('List:\n  - a\n');
+    });
+
+    it('should keep missing partials in place', () => {
+      expect(renderTemplate('a {{> footer}} {{name}}', { name: 'b' })).toBe('a {{> footer}} b');
+    });
+
+    it('should stop partials that include themselves', () => {
+      expect(() => renderTemplate('{{> loop}}', {}, { partials: { loop: 'x{{> loop}}' } }))
+        .toThrow("Partial 'loop' is nested more than 32 levels deep");
+    });
+
+    it('should support changing delimiters', () => {
+      expect(renderTemplate('{{=<% %>=}}<% name %> {{name}}', { name: 'Ada' })).toBe('Ada {{name}}');
+    });
+  });
+
+  describe('strict mode', () => {
+    it('should fail on missing and unexpected arguments', () => {
+      expect(() => renderTemplate('{{a}} {{#b}}{{c}}{{/b}}', { b: [{}], d: 1 }, { strict: true }))
+        .toThrow(new ValidationError('arguments', 'Missing arguments: a, c; Unexpected arguments: d'));
+    });
+
+    it('should check arguments across several templates', () => {
+      expect(renderTemplates(['{{a}}', '{{b}}'], { a: 1, b: 2 }, { strict: true })).toEqual(['1', '2']);
+      expect(() => renderTemplates(['{{a}}'], { a: 1, b: 2 }, { strict: true })).toThrow('Unexpected arguments: b');
+    });
+
+    it('should fail on missing partials', () => {
+      expect(() => renderTemplate('{{> footer}}', {}, { strict: true })).toThrow('Missing partials: footer');
+    });
+
+    it('should accept names used inside sections and partials', () => {
+      expect(renderTemplate('{{#a}}{{b}}{{/a}}{{> p}}', { a: true, b: 1, c: 2 }, {
+        strict: true,
+        partials: { p: '{{c}}' },
+      })).toBe('12');
+    });
+  });
+
+  describe('malformed templates', () => {
+    it('should replace plain variables without strict mode', () => {
+      expect(renderTemplate('{{name}}: use the {{ placeholder', { name: 'Ada' })).toBe('Ada: use the {{ placeholder');
+      expect(renderTemplate('{{#each items}}{{this}}{{/each}} {{x}}', { x: 1 })).toBe('{{#each items}}{{this}}{{/each}} 1');
+    });
+
+    it('should fail in strict mode', () => {
+      expect(() => renderTemplate('{{#each items}}{{this}}{{/each}}', {}, { strict: true })).toThrow(TemplateError);
+    });
+  });
+
+  describe('validateTemplate', () => {
+    it('should reject malformed templates', () => {
+      expect(() => validateTemplate('{{#a}}x')).toThrow("Unclosed section 'a'");
+      expect(() => validateTemplate('x{{/a}}')).toThrow("Unopened section 'a'");
+      expect(() => validateTemplate('{{#a}}{{/b}}')).toThrow(TemplateError);
+      expect(() => validateTemplate('Hello {{name')).toThrow('Unclosed tag at position 6');
+    });
+  });
+
+  describe('templateVariables', () => {
+    it('should list top-level names and sections', () => {
+      expect(templateVariables('{{a}} {{user.name}} {{#items}}{{title}}{{/items}} {{^empty}}{{/empty}}'))
+        .toEqual(['a', 'user', 'items', 'empty']);
+    });
+
+    it('should include variables of partials', () => {
+      expect(templateVariables('{{> footer}}', { footer: '{{company}}' })).toEqual(['company']);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+// Unit tests for project registry
+
+import { ProjectRegistry } from '../../src/lib/projects';
+import { LangfuseAPIClient } from '../../src/lib/langfuse-client';
+import { ValidationError } from '../../src/types';
+
+describe('ProjectRegistry', () => {
+  const profiles = {
+    dev: { publicKey: 'pk-dev', secretKey: 'sk-dev', baseUrl: 'http://localhost:3000' },
+    prod: { publicKey: 'pk-prod', secretKey: 'sk-prod' },
+  };
+
+  it('should create a client per project', () => {
+    const registry = new ProjectRegistry(profiles);
+    const dev = registry.resolve('dev');
+    const prod = registry.resolve('prod');
+
+    expect(dev.client).toBeInstanceOf(LangfuseAPIClient);
+    expect(dev.client).not.toBe(prod.client);
+    expect(registry.listProjects()).toEqual(['dev', 'prod']);
+  });
+
+  it('should fall back to the first project as default', () => {
+    const registry = new ProjectRegistry(profiles);
+    expect(registry.getDefaultProject()).toBe('dev');
+    expect(registry.resolve().project).toBe('dev');
+  });
+
+  it('should use an explicit default project', () => {
+    const registry = new ProjectRegistry(profiles, 'prod');
+    expect(registry.resolve().project).toBe('prod');
+  });
+
+  it('should reject unknown projects', () => {
+    const registry = new ProjectRegistry(profiles);
+    expect(() => registry.resolve('staging')).toThrow(ValidationError);
+  });
+
+  it('should reject invalid configurations', () => {
+    expect(() => new ProjectRegistry({})).toThrow();
+    expect(() => new ProjectRegistry(profiles, 'staging')).toThrow();
+  });
+
+  it('should compile prompt config schemas per project', () => {
+    const registry = new ProjectRegistry({
+      ...profiles,
+      prod: { ...profiles.prod, promptConfigSchema: { type: 'object', required: ['model'] } },
+    });
+
+    expect(registry.resolve('dev').validateConfig).toBeUndefined();
+    expect(() => registry.resolve('prod').validateConfig!({})).toThrow(ValidationError);
+    expect(() => new ProjectRegistry({
+      dev: { ...profiles.dev, promptConfigSchema: { type: 'not-a-type' } },
+    })).toThrow("Project 'dev': Invalid prompt config schema");
+  });
+});
@@ -0,0 +1,109 @@
+// Unit tests for prompt exports in files, directories and archives
+
+import { existsSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ExportEntry, PROMPT_FORMATS } from '../../src/lib/prompt-formats';
+import { MANIFEST_FILE, bundleTarget, formatFromPath, readBundle, writeBundle } from '../../src/lib/prompt-bundle';
+
+describe('Prompt bundles', () => {
+  let dir: string;
+
+  const entries: ExportEntry[] = [
+    { name: 'support/triage', version: 1, type: 'text', prompt: 'Classify: {{ticket}}', labels: [], tags: ['support'] },
+    { name: 'support/triage', version: 2, type: 'text', prompt: 'Classify {{ticket}}', labels: ['production'], tags: ['support'] },
+    { name: 'reply', version: 4, type: 'chat', prompt: [{ role: 'system', content: 'Be kind' }], labels: [], tags: [] },
+  ];
+  const metadata = { project: 'default', totalPrompts: 3 };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'langfuse-mcp-bundle-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should tell targets and formats from paths', () => {
+    expect(bundleTarget('out/prompts.json')).toBe('file');
+    expect(bundleTarget('out/prompts.yml')).toBe('file');
+    expect(bundleTarget('out/prompts.tar.gz')).toBe('tar.gz');
+    expect(bundleTarget('out/prompts.zip')).toBe('zip');
+    expect(bundleTarget('out/prompts')).toBe('directory');
+    expect(bundleTarget('out/prompts.v2')).toBe('directory');
+    expect(formatFromPath('prompts.MD')).toBe('markdown');
+    expect(formatFromPath('prompts.yml')).toBe('yaml');
+    expect(formatFromPath('prompts.txt')).toBeUndefined();
+  });
+
+  it('should write a single file with its checksum', () => {
+    const path = join(dir, 'exports', 'prompts.jsonl');
+    const summary = writeBundle(path, entries, 'jsonl', { metadata });
+
+    expect(summary).toEqual({
+      path,
+      target: 'file',
+      format: 'jsonl',
+      files: 1,
+      bytes: readFileSync(path).length,
+      sha256: expect.stringMatching(/^[0-9a-f]{64}$/),
+    });
+    expect(readBundle(path)).toEqual({ target: 'file', files: 1, verified: false, records: entries });
+  });
+
+  it.each(PROMPT_FORMATS)('should round-trip %s directories', format => {
+    const path = join(dir, 'prompts');
+    const summary = writeBundle(path, entries, format, { metadata });
+
+    expect(summary).toMatchObject({ target: 'directory', format, files: 2 });
+    expect(summary.sha256).toBeUndefined();
+    expect(readdirSync(path).sort()).toEqual([MANIFEST_FILE, expect.stringMatching(/^reply\./), 'support']);
+    const manifest = JSON.parse(readFileSync(join(path, MANIFEST_FILE), 'utf8'));
+    expect(manifest).toMatchObject({ project: 'default', format });
+    expect(manifest.files.map((file: any) => [file.path, file.prompts]).sort()).toEqual([
+      [expect.stringMatching(/^reply\./), 1],
+      [expect.stringMatching(/^support\/triage\./), 2],
+    ]);
+
+    const read = readBundle(path);
+    expect(read).toMatchObject({ target: 'directory', files: 2, verified: true });
+    expect(read.records).toHaveLength(3);
+    expect(read.records).toEqual(expect.arrayContaining(entries as any[]));
+  });
+
+  it.each(['prompts.tar.gz', 'prompts.zip'])('should round-trip %s archives', file => {
+    const path = join(dir, file);
+    const summary = writeBundle(path, entries, 'yaml', { metadata });
+
+    expect(summary).toMatchObject({ target: bundleTarget(path), files: 2, sha256: expect.any(String) });
+    expect(existsSync(`${path}.${process.pid}.tmp`)).toBe(false);
+    const read = readBundle(path);
+    expect(read).toMatchObject({ target: bundleTarget(path), files: 2, verified: true });
+    expect(read.records).toEqual(expect.arrayContaining(entries as any[]));
+  });
+
+  it('should reject files that do not match the manifest', () => {
+    const path = join(dir, 'prompts');
+    writeBundle(path, entries, 'json');
+    writeFileSync(join(path, 'reply.json'), '{"prompts": []}');
+
+    expect(() => readBundle(path)).toThrow(/Checksum of 'reply.json' does not match/);
+
+    rmSync(join(path, 'reply.json'));
+    expect(() => readBundle(path)).toThrow(/'reply.json' listed in manifest.json is missing/);
+  });
+
+  it('should read directories without a manifest by file extension', () => {
+    writeFileSync(join(dir, 'a.jsonl'), JSON.stringify(entries[0]));
+    writeFileSync(join(dir, 'notes.txt'), 'ignored');
+
+    expect(readBundle(dir)).toEqual({ target: 'directory', files: 1, verified: false, records: [entries[0]] });
+  });
+
+  it('should reject missing paths and unknown file formats', () => {
+    expect(() => readBundle(join(dir, 'missing.json'))).toThrow(/Import path not found/);
+    writeFileSync(join(dir, 'prompts.txt'), '[]');
+    expect(() => readBundle(join(dir, 'prompts.txt'))).toThrow(/Cannot tell the format/);
+    expect(readBundle(join(dir, 'prompts.txt'), 'json').records).toEqual([]);
+  });
+});
@@ -0,0 +1,111 @@
+// Unit tests for prompt composition references
+
+import { findReferences, parseReferences, resolveReferences } from '../../src/lib/prompt-composition';
+import { GetPromptParams, PromptVersion } from '../../src/types';
+
+const makePrompt = (name: string, version: number, prompt: PromptVersion['prompt']): PromptVersion => ({
+  name,
+  version,
+  type: typeof prompt === 'string' ? 'text' : 'chat',
+  prompt,
+  config: {},
+  labels: [],
+  tags: [],
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  variables: [],
+});
+
+describe('Prompt composition', () => {
+  describe('parseReferences', () => {
+    it('should parse version and label references', () => {
+      expect(parseReferences('A @@@langfusePrompt:name=base|version=2@@@ B @@@langfusePrompt:name=tone|label=staging@@@'))
+        .toEqual([
+          { tag: '@@@langfusePrompt:name=base|version=2@@@', name: 'base', version: 2 },
+          { tag: '@@@langfusePrompt:name=tone|label=staging@@@', name: 'tone', label: 'staging' },
+        ]);
+    });
+
+    it('should default to the production label', () => {
+      expect(parseReferences('@@@langfusePrompt:name=base@@@')[0]).toMatchObject({ label: 'production' });
+    });
+
+    it('should reject invalid references', () => {
+      expect(() => parseReferences('@@@langfusePrompt:label=x@@@')).toThrow('name is required');
+      expect(() => parseReferences('@@@langfusePrompt:name=a|version=x@@@')).toThrow('positive integer');
+    });
+
+    it('should find references in chat messages', () => {
+      const references = findReferences([
+        { role: 'system', content: '@@@langfusePrompt:name=rules|version=1@@@' },
+        { role: 'user', content: 'Hi' },
+      ]);
+      expect(references.map(reference => reference.name)).toEqual(['rules']);
+    });
+  });
+
+  describe('resolveReferences', () => {
+    const library: Record<string, PromptVersion> = {
+      'base': makePrompt('base', 3, 'Be kind. @@@langfusePrompt:name=tone|version=1@@@'),
+      'tone': makePrompt('tone', 1, 'Use a {{style}} tone.'),
+      'chat': makePrompt('chat', 1, [{ role: 'system', content: 'x' }]),
+      'loop-a': makePrompt('loop-a', 1, '@@@langfusePrompt:name=loop-b@@@'),
+      'loop-b': makePrompt('loop-b', 1, '@@@langfusePrompt:name=loop-a@@@'),
+    };
+    const load = jest.fn(async (params: GetPromptParams) => {
+      const prompt = library[params.name];
+      if (!prompt) {
+        throw new Error(`Prompt '${params.name}' not found`);
+      }
+      return prompt;
+    });
+
+    beforeEach(() => load.mockClear());
+
+    it('should resolve nested references in text prompts', async () => {
+      const root = makePrompt('root', 1, 'Intro. @@@langfusePrompt:name=base|label=production@@@');
+      const { prompt, dependencies } = await resolveReferences(root, load);
+
+      expect(prompt).toBe('Intro. Be kind. Use a {{style}} tone.');
+      expect(dependencies).toEqual([
+        { name: 'base', version: 3, label: 'production', parent: 'root', depth: 1 },
+        { name: 'tone', version: 1, label: undefined, parent: 'base', depth: 2 },
+      ]);
+      expect(load).toHaveBeenCalledWith({ name: 'base', version: undefined, label: 'production' });
+    });
+
+    it('should resolve references inside chat messages', async () => {
+      const root = makePrompt('assistant', 1, [
+        { role: 'system', content: '@@@langfusePrompt:name=tone|version=1@@@' },
+        { role: 'user', content: '{{question}}' },
+      ]);
+      const { prompt } = await resolveReferences(root, load);
+
+      expect(prompt).toEqual([
+        { role: 'system', content: 'Use a {{style}} tone.' },
+        { role: 'user', content: '{{question}}' },
+      ]);
+    });
+
+    it('should detect cycles', async () => {
+      const root = makePrompt('root', 1, '@@@langfusePrompt:name=loop-a@@@');
+      await expect(resolveReferences(root, load)).rejects.toThrow('Circular prompt reference: root -> loop-a -> loop-b -> loop-a');
+    });
+
+    it('should limit the depth', async () => {
+      const root = makePrompt('root', 1, '@@@langfusePrompt:name=base@@@');
+      await expect(resolveReferences(root, load, 1)).rejects.toThrow('nested deeper than 1 levels');
+    });
+
+    it('should only allow text prompts to be referenced', async () => {
+      const root = makePrompt('root', 1, '@@@langfusePrompt:name=chat@@@');
+      await expect(resolveReferences(root, load)).rejects.toThrow("'chat' must be a text prompt");
+    });
+
+    it('should return prompts without references unchanged', async () => {
+      const root = makePrompt('root', 1, 'Plain {{text}}');
+      expect(await resolveReferences(root, load)).toEqual({ prompt: 'Plain {{text}}', dependencies: [] });
+      expect(load).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,133 @@
+// Unit tests for the offline prompt fallback
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PromptFallback, isUnavailableError } from '../../src/lib/prompt-fallback';
+import {
+  APIError,
+  AuthenticationError,
+  CircuitOpenError,
+  PromptVersion,
+  RateLimitError,
+} from '../../src/types';
+
+function makePrompt(overrides: Partial<PromptVersion> = {}): PromptVersion {
+  return {
+    name: 'greeting',
+    version: 3,
+    type: 'text',
+    prompt: 'Hello {{name}}',
+    labels: ['production'],
+    tags: [],
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    variables: ['name'],
+    ...overrides,
+  } as PromptVersion;
+}
+
+describe('Prompt fallback', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'langfuse-mcp-fallback-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('isUnavailableError', () => {
+    it('should detect outages', () => {
+      expect(isUnavailableError(new CircuitOpenError(Date.now()))).toBe(true);
+      expect(isUnavailableError(new RateLimitError(60))).toBe(true);
+      expect(isUnavailableError(new APIError(408, 'Timeout'))).toBe(true);
+      expect(isUnavailableError(new APIError(502, 'Bad gateway'))).toBe(true);
+      expect(isUnavailableError(new TypeError('fetch failed'))).toBe(true);
+    });
+
+    it('should not treat request errors as outages', () => {
+      expect(isUnavailableError(new APIError(404, 'Not found'))).toBe(false);
+      expect(isUnavailableError(new AuthenticationError('Invalid credentials'))).toBe(false);
+    });
+  });
+
+  describe('snapshots', () => {
+    it('should recover a saved snapshot with its age', () => {
+      const fallback = new PromptFallback({ snapshotDirectory: dir });
+      fallback.saveSnapshot('dev', { name: 'greeting', label: 'production' }, makePrompt());
+
+      const recovered = fallback.recover('dev', { name: 'greeting', label: 'production' });
+      expect(recovered).toMatchObject({ source: 'snapshot', prompt: { version: 3 } });
+      expect(recovered!.ageSeconds).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should keep snapshots per project and selector', () => {
+      const fallback = new PromptFallback({ snapshotDirectory: dir });
+      fallback.saveSnapshot('dev', { name: 'greeting', version: 3 }, makePrompt());
+
+      expect(fallback.recover('prod', { name: 'greeting', version: 3 })).toBeNull();
+      expect(fallback.recover('dev', { name: 'greeting', version: 2 })).toBeNull();
+      expect(fallback.recover('dev', { name: 'greeting', version: 3 })).not.toBeNull();
+    });
+
+    it('should not write snapshots without a directory', () => {
+      const fallback = new PromptFallback();
+      fallback.saveSnapshot('dev', { name: 'greeting' }, makePrompt());
+      expect(fallback.recover('dev', { name: 'greeting' })).toBeNull();
+    });
+  });
+
+  describe('fallback file', () => {
+    it('should match prompts from an exported JSON file', () => {
+      const path = join(dir, 'prompts.json');
+      writeFileSync(path, JSON.stringify({
+        prompts: [
+          { name: 'greeting', version: 1, type: 'text', prompt: 'Hi', labels: ['staging'] },
+          { name: 'greeting', version: 2, type: 'text', prompt: 'Hello', labels: ['production'] },
+        ],
+      }));
+      const fallback = new PromptFallback({ fallbackFile: path });
+
+      expect(fallback.recover('dev', { name: 'greeting' })).toMatchObject({
+        source: 'fallback',
+        prompt: { version: 2, prompt: 'Hello' },
+      });
+      expect(fallback.recover('dev', { name: 'greeting', label: 'staging' })!.prompt.version).toBe(1);
+      expect(fallback.recover('dev', { name: 'greeting', version: 5 })).toBeNull();
+      expect(fallback.recover('dev', { name: 'unknown' })).toBeNull();
+    });
+
+    it('should load YAML files', () => {
+      const path = join(dir, 'prompts.yaml');
+      writeFileSync(path, [
+        '- name: greeting',
+        '  version: 1',
+        '  type: text',
+        '  prompt: Hello',
+      ].join('\n'));
+      const fallback = new PromptFallback({ fallbackFile: path });
+
+      expect(fallback.recover('dev', { name: 'greeting' })!.prompt.prompt).toBe('Hello');
+    });
+
+    it('should prefer snapshots over the fallback file', () => {
+      const path = join(dir, 'prompts.json');
+      writeFileSync(path, JSON.stringify([{ name: 'greeting', version: 1, type: 'text', prompt: 'Hi' }]));
+      const fallback = new PromptFallback({ snapshotDirectory: join(dir, 'snapshots'), fallbackFile: path });
+      fallback.saveSnapshot('dev', { name: 'greeting' }, makePrompt());
+
+      expect(fallback.recover('dev', { name: 'greeting' })!.source).toBe('snapshot');
+    });
+
+    it('should ignore unreadable files', () => {
+      const path = join(dir, 'prompts.json');
+      writeFileSync(path, '{ invalid');
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      expect(new PromptFallback({ fallbackFile: path }).recover('dev', { name: 'greeting' })).toBeNull();
+      errorSpy.mockRestore();
+    });
+  });
+});
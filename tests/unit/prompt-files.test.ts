@@ -0,0 +1,110 @@
+// Unit tests for prompt files of a local prompts directory
+
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  PromptFile,
+  parsePromptFile,
+  promptFilePath,
+  readPromptDirectory,
+  serializePromptFile,
+  writePromptFile,
+} from '../../src/lib/prompt-files';
+
+describe('Prompt files', () => {
+  const text: PromptFile = {
+    name: 'support/triage',
+    type: 'text',
+    version: 3,
+    prompt: '# Triage\n\nClassify: {{ticket}}\n---\nNo trailing newline',
+    config: { model: 'gpt-4o', temperature: 0.2 },
+    labels: ['production'],
+    tags: ['support'],
+  };
+
+  const chat: PromptFile = {
+    name: 'support/reply',
+    type: 'chat',
+    version: 1,
+    prompt: [
+      { role: 'system', content: 'Be kind\nand brief' },
+      { type: 'placeholder', name: 'history' },
+    ],
+    labels: [],
+    tags: [],
+  };
+
+  it('should map prompt names to file paths', () => {
+    expect(promptFilePath('support/triage', 'text')).toBe(join('support', 'triage.md'));
+    expect(promptFilePath('reply.v2', 'chat')).toBe('reply.v2.yaml');
+    expect(() => promptFilePath('../escape', 'text')).toThrow("cannot be mapped to a file path");
+    expect(() => promptFilePath('a//b', 'text')).toThrow("cannot be mapped to a file path");
+  });
+
+  it('should write text prompts as Markdown with front matter', () => {
+    const content = serializePromptFile(text);
+
+    expect(content).toBe(
+      '---\nversion: 3\nlabels:\n  - production\ntags:\n  - support\nconfig:\n  model: gpt-4o\n  temperature: 0.2\n---\n' +
+      text.prompt
+    );
+    expect(parsePromptFile(join('support', 'triage.md'), content)).toEqual(text);
+  });
+
+  it('should write chat prompts as YAML', () => {
+    const content = serializePromptFile(chat);
+
+    expect(content).toContain('messages:\n');
+    expect(parsePromptFile(join('support', 'reply.yaml'), content)).toEqual(chat);
+  });
+
+  it('should read files of new prompts without version', () => {
+    expect(parsePromptFile('draft.md', '---\n---\nHello')).toEqual({
+      name: 'draft',
+      type: 'text',
+      version: undefined,
+      config: undefined,
+      labels: [],
+      tags: [],
+      prompt: 'Hello',
+    });
+  });
+
+  it('should reject malformed files', () => {
+    expect(() => parsePromptFile('a.md', 'Hello')).toThrow('a.md must start with a --- front matter block');
+    expect(() => parsePromptFile('a.yaml', 'labels: []')).toThrow('a.yaml must have a messages list');
+    expect(() => parsePromptFile('a.md', '---\nversion: two\n---\n')).toThrow('a.md has an invalid version');
+    expect(() => parsePromptFile('a.yaml', 'messages: [')).toThrow('Cannot parse a.yaml');
+  });
+
+  describe('directories', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'langfuse-mcp-prompts-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should write and read back a directory tree', () => {
+      expect(writePromptFile(dir, text)).toBe(join('support', 'triage.md'));
+      writePromptFile(dir, chat);
+      mkdirSync(join(dir, '.git'));
+      writeFileSync(join(dir, '.git', 'config.yaml'), 'ignored: true');
+      writeFileSync(join(dir, 'README.txt'), 'not a prompt');
+
+      expect(readFileSync(join(dir, 'support', 'triage.md'), 'utf8')).toBe(serializePromptFile(text));
+      expect(readPromptDirectory(dir)).toEqual([
+        { path: join('support', 'reply.yaml'), file: chat },
+        { path: join('support', 'triage.md'), file: text },
+      ]);
+    });
+
+    it('should fail for a missing directory', () => {
+      expect(() => readPromptDirectory(join(dir, 'missing'))).toThrow('Prompts directory not found');
+    });
+  });
+});
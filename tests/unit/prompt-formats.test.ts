@@ -0,0 +1,120 @@
+// Unit tests for prompt export and import formats
+
+import { ExportedPrompt, PROMPT_FORMATS, formatPrompts, parsePrompts } from '../../src/lib/prompt-formats';
+
+describe('Prompt formats', () => {
+  const prompts: ExportedPrompt[] = [
+    {
+      name: 'support/triage',
+      version: 3,
+      type: 'text',
+      prompt: 'Classify, "quickly":\n\n{{ticket}}\n',
+      config: { model: 'gpt-4o', response_format: { type: 'json_object' } },
+      labels: ['production', 'latest'],
+      tags: ['support'],
+      commitMessage: 'Tighter wording',
+      createdAt: '2025-01-01T00:00:00Z',
+    },
+    {
+      name: 'notes',
+      type: 'text',
+      prompt: 'Intro\n---\nAfter a separator line',
+      labels: [],
+      tags: [],
+    },
+    {
+      name: 'support/reply',
+      version: 1,
+      type: 'chat',
+      prompt: [
+        { role: 'system', content: 'Be kind,\nand brief' },
+        { type: 'placeholder', name: 'history' },
+        { role: 'user', content: 'Looks like markdown:\n## user\nbut is not' },
+        { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'lookup', arguments: '{"id":1}' }] },
+        { role: 'tool', content: '{"status":"late"}', toolCallId: 'call_1' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'And this image?' },
+            { type: 'image_url', url: 'https://example.com/cat.png', detail: 'low' },
+          ],
+        },
+        { role: 'assistant', content: '' },
+      ],
+      config: {},
+      labels: ['staging'],
+      tags: [],
+    },
+    {
+      name: 'empty-chat',
+      type: 'chat',
+      prompt: [],
+      labels: [],
+      tags: [],
+    },
+  ];
+
+  it.each(PROMPT_FORMATS)('should read back %s exports identically', format => {
+    expect(parsePrompts(formatPrompts(prompts, format), format)).toEqual(prompts);
+  });
+
+  it('should read back CSV exports with one row per message identically', () => {
+    const csv = formatPrompts(prompts, 'csv', { csvRows: 'message' });
+
+    expect(csv.split('\n')[0]).toBe('name,version,type,labels,tags,config,commitMessage,createdAt,index,role,content,extra');
+    expect(parsePrompts(csv, 'csv')).toEqual(prompts);
+  });
+
+  it('should write chat roles as Markdown headings', () => {
+    const markdown = formatPrompts([prompts[2]], 'markdown');
+
+    expect(markdown).toMatch(/^---\nname: support\/reply\nversion: 1\ntype: chat\n/);
+    expect(markdown).toContain('---\n## system\n\nBe kind,\nand brief\n\n## placeholder history\n\n## user (json)\n');
+    expect(markdown).toContain('## tool (json)\n\n```json\n{\n  "content": "{\\"status\\":\\"late\\"}",\n  "toolCallId": "call_1"\n}\n```\n');
+  });
+
+  it('should read hand-written Markdown', () => {
+    const markdown = [
+      '---',
+      'name: greeting',
+      'type: chat',
+      '---',
+      '## system',
+      'You are helpful',
+      '## user',
+      '',
+      'Hi {{name}}',
+    ].join('\n');
+
+    expect(parsePrompts(markdown, 'markdown')).toEqual([{
+      name: 'greeting',
+      type: 'chat',
+      prompt: [{ role: 'system', content: 'You are helpful' }, { role: 'user', content: 'Hi {{name}}' }],
+    }]);
+    expect(() => parsePrompts('Hello', 'markdown')).toThrow('must start with a --- front matter block');
+    expect(() => parsePrompts('---\nname: a\ntype: chat\n---\nNo heading', 'markdown')).toThrow("has text outside of");
+  });
+
+  it('should write one YAML document per prompt', () => {
+    const yaml = formatPrompts(prompts.slice(0, 2), 'yaml');
+
+    expect(yaml.match(/^---$/gm)).toHaveLength(1);
+    expect(yaml).toMatch(/^name: support\/triage\n/);
+    expect(() => parsePrompts('name: [', 'yaml')).toThrow('Invalid YAML');
+  });
+
+  it('should keep prompts that failed to export', () => {
+    const entries = [prompts[1], { name: 'broken', error: 'Prompt not found' }];
+
+    for (const format of PROMPT_FORMATS) {
+      expect(parsePrompts(formatPrompts(entries, format), format)).toEqual(entries);
+    }
+    expect(parsePrompts(formatPrompts(entries, 'csv', { csvRows: 'message' }), 'csv')).toEqual(entries);
+  });
+
+  it('should report malformed CSV', () => {
+    expect(() => parsePrompts('prompt\nHello', 'csv')).toThrow("header row including a 'name' column");
+    expect(() => parsePrompts('name,prompt\n"a,b', 'csv')).toThrow('unclosed quoted cell');
+    expect(() => parsePrompts('name,type,labels\na,text,[', 'csv')).toThrow("Column 'labels' of CSV line 2 is not valid JSON");
+  });
+});
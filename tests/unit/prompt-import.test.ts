@@ -0,0 +1,201 @@
+// Unit tests for importing prompts with merge strategies
+
+import { importPrompts, promptContentHash } from '../../src/lib/prompt-import';
+import { LangfuseAPIClient } from '../../src/lib/langfuse-client';
+import { APIError, CreatePromptParams, PromptVersion, UpdatePromptLabelsParams } from '../../src/types';
+
+/**
+ * In-memory stand-in for the Langfuse API keeping every version of each prompt
+ */
+function createFakeClient() {
+  const versions = new Map<string, PromptVersion[]>();
+
+  const moveLabels = (history: PromptVersion[], target: PromptVersion) => {
+    for (const version of history) {
+      if (version !== target) {
+        version.labels = version.labels.filter(label => !target.labels.includes(label));
+      }
+    }
+  };
+
+  const client = {
+    createPrompt: jest.fn(async (params: CreatePromptParams) => {
+      const history = versions.get(params.name) ?? [];
+      for (const version of history) {
+        version.labels = version.labels.filter(label => label !== 'latest');
+      }
+      const created: PromptVersion = {
+        name: params.name,
+        version: history.length + 1,
+        type: params.type,
+        prompt: params.prompt,
+        config: params.config ?? {},
+        labels: [...(params.labels ?? []), 'latest'],
+        tags: params.tags ?? [],
+        createdAt: '2025-01-01T00:00:00Z',
+        updatedAt: '2025-01-01T00:00:00Z',
+        variables: [],
+      };
+      moveLabels(history, created);
+      versions.set(params.name, [...history, created]);
+      return created;
+    }),
+    updatePromptLabels: jest.fn(async ({ name, version, newLabels }: UpdatePromptLabelsParams) => {
+      const history = versions.get(name) ?? [];
+      const target = history.find(v => v.version === version)!;
+      target.labels = [...newLabels, ...target.labels.filter(label => label === 'latest')];
+      moveLabels(history, target);
+      return target;
+    }),
+    getPrompt: jest.fn(async ({ name, label }: { name: string; label?: string }) => {
+      const found = (versions.get(name) ?? []).find(v => v.labels.includes(label ?? 'production'));
+      if (!found) {
+        throw new APIError(404, 'Prompt not found');
+      }
+      return found;
+    }),
+  };
+
+  return { client, api: client as unknown as LangfuseAPIClient, versions };
+}
+
+describe('Prompt import', () => {
+  const triage: CreatePromptParams = {
+    name: 'triage',
+    type: 'text',
+    prompt: 'Classify: {{ticket}}',
+    config: { model: 'gpt-4o', temperature: 0 },
+    labels: ['production'],
+  };
+  const changed: CreatePromptParams = { ...triage, prompt: 'Classify the ticket: {{ticket}}' };
+  const reply: CreatePromptParams = {
+    name: 'reply',
+    type: 'chat',
+    prompt: [{ role: 'system', content: 'Be kind' }],
+    labels: [],
+  };
+
+  async function seeded() {
+    const fake = createFakeClient();
+    await fake.client.createPrompt({ ...triage, labels: ['staging'] });
+    fake.client.createPrompt.mockClear();
+    return fake;
+  }
+
+  it('should hash type, content and config only', () => {
+    const hash = promptContentHash(triage);
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    const relabeled: CreatePromptParams = { ...triage, labels: ['other'], tags: ['x'], commitMessage: 'm' };
+    expect(promptContentHash(relabeled)).toBe(hash);
+    expect(promptContentHash({ ...triage, config: { temperature: 0, model: 'gpt-4o' } })).toBe(hash);
+    expect(promptContentHash({ ...triage, prompt: 'Classify: {{ticket}}'.replace(' ', '\r\n') }))
+      .toBe(promptContentHash({ ...triage, prompt: 'Classify: {{ticket}}'.replace(' ', '\n') }));
+    expect(promptContentHash(changed)).not.toBe(hash);
+    expect(promptContentHash({ ...triage, config: undefined })).toBe(promptContentHash({ ...triage, config: {} }));
+    expect(promptContentHash({ ...triage, type: 'chat' })).not.toBe(hash);
+    expect(promptContentHash({ ...reply, prompt: [{ type: 'chatmessage', role: 'system', content: 'Be kind' }] }))
+      .toBe(promptContentHash(reply));
+  });
+
+  it('should skip existing prompts by default', async () => {
+    const fake = await seeded();
+    const summary = await importPrompts(fake.api, [triage, reply]);
+
+    expect(summary.aborted).toBe(false);
+    expect(summary.results).toEqual([
+      { name: 'triage', action: 'skip', previousVersion: 1, reason: 'Prompt already exists' },
+      { name: 'reply', action: 'create', version: 1, labels: [] },
+    ]);
+    expect(fake.client.createPrompt).toHaveBeenCalledTimes(1);
+  });
+
+  it('should import every version of new prompts', async () => {
+    const fake = createFakeClient();
+    const { results } = await importPrompts(fake.api, [triage, changed, changed]);
+
+    expect(results.map(r => [r.action, r.version])).toEqual([['create', 1], ['new-version', 2], ['unchanged', 2]]);
+    expect(fake.versions.get('triage')!.map(v => v.labels)).toEqual([[], ['production', 'latest']]);
+  });
+
+  it('should only create versions for changed content', async () => {
+    const fake = await seeded();
+    const first = await importPrompts(fake.api, [triage], { strategy: 'new-version-if-changed' });
+
+    expect(first.results).toEqual([{ name: 'triage', action: 'unchanged', version: 1, previousVersion: 1, labels: ['production'] }]);
+    expect(fake.client.createPrompt).not.toHaveBeenCalled();
+    expect(fake.client.updatePromptLabels).toHaveBeenCalledWith(
+      { name: 'triage', version: 1, newLabels: ['staging', 'production'] },
+      { priority: 'bulk' }
+    );
+
+    // Running the same import again changes nothing
+    fake.client.updatePromptLabels.mockClear();
+    const again = await importPrompts(fake.api, [triage], { strategy: 'new-version-if-changed' });
+    expect(again.results).toEqual([{ name: 'triage', action: 'unchanged', version: 1, previousVersion: 1 }]);
+    expect(fake.client.updatePromptLabels).not.toHaveBeenCalled();
+
+    const next = await importPrompts(fake.api, [changed], { strategy: 'new-version-if-changed' });
+    expect(next.results).toEqual([{ name: 'triage', action: 'new-version', version: 2, previousVersion: 1, labels: ['production'] }]);
+  });
+
+  it('should always create versions when asked to', async () => {
+    const fake = await seeded();
+    const { results } = await importPrompts(fake.api, [triage, triage], { strategy: 'always-new-version' });
+
+    expect(results.map(r => [r.action, r.version])).toEqual([['new-version', 2], ['new-version', 3]]);
+  });
+
+  it('should import nothing when any prompt conflicts', async () => {
+    const fake = await seeded();
+    const summary = await importPrompts(fake.api, [changed, reply], { strategy: 'fail-on-conflict' });
+
+    expect(summary.aborted).toBe(true);
+    expect(summary.results).toEqual([
+      { name: 'triage', action: 'conflict', previousVersion: 1, reason: 'Content differs from version 1' },
+      { name: 'reply', action: 'skip', reason: 'Import aborted because of conflicts' },
+    ]);
+    expect(fake.client.createPrompt).not.toHaveBeenCalled();
+
+    const clean = await importPrompts(fake.api, [triage, reply], { strategy: 'fail-on-conflict' });
+    expect(clean.results.map(r => r.action)).toEqual(['unchanged', 'create']);
+  });
+
+  it('should keep the current label placement', async () => {
+    const fake = await seeded();
+    const { results } = await importPrompts(fake.api, [triage, changed, reply], {
+      strategy: 'new-version-if-changed',
+      labelMode: 'keep',
+    });
+
+    expect(results.map(r => [r.action, r.labels])).toEqual([['unchanged', undefined], ['new-version', []], ['create', []]]);
+    expect(fake.client.updatePromptLabels).not.toHaveBeenCalled();
+    expect(fake.versions.get('triage')!.map(v => v.labels)).toEqual([['staging'], ['latest']]);
+  });
+
+  it('should plan without writing in dry runs', async () => {
+    const fake = await seeded();
+    const { results } = await importPrompts(fake.api, [triage, changed, reply], {
+      strategy: 'new-version-if-changed',
+      dryRun: true,
+    });
+
+    expect(results.map(r => [r.action, r.version])).toEqual([['unchanged', 1], ['new-version', 2], ['create', 1]]);
+    expect(fake.client.createPrompt).not.toHaveBeenCalled();
+    expect(fake.client.updatePromptLabels).not.toHaveBeenCalled();
+  });
+
+  it('should report failures per prompt', async () => {
+    const fake = await seeded();
+    fake.client.getPrompt.mockImplementationOnce(async () => {
+      throw new APIError(500, 'Server error');
+    });
+    fake.client.createPrompt.mockRejectedValueOnce(new Error('Rejected'));
+    const { results } = await importPrompts(fake.api, [triage, reply], { strategy: 'always-new-version' });
+
+    expect(results).toEqual([
+      { name: 'triage', action: 'error', reason: 'Server error' },
+      { name: 'reply', action: 'error', reason: 'Rejected' },
+    ]);
+  });
+});
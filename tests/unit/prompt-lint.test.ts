@@ -0,0 +1,106 @@
+// Unit tests for prompt linting
+
+import { PromptLinter, formatLintIssue } from '../../src/lib/prompt-lint';
+
+describe('PromptLinter', () => {
+  const linter = new PromptLinter();
+
+  it('should accept clean prompts', () => {
+    expect(linter.lint('Hello {{name}}, {{{raw}}} {{#items}}- {{.}}{{/items}} {{! note }}')).toEqual({
+      valid: true,
+      errorCount: 0,
+      warningCount: 0,
+      issues: [],
+    });
+  });
+
+  it('should report unclosed variables with offsets', () => {
+    const result = linter.lint('Hello {{name');
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([{
+      rule: 'unclosed-variable',
+      severity: 'error',
+      message: "Unclosed '{{'",
+      start: 6,
+      end: 8,
+    }]);
+  });
+
+  it('should report multiline variables and invalid names', () => {
+    const result = linter.lint('A {{na\nme}} and {{user name}} and {{user.name}}');
+
+    expect(result.issues.map(issue => [issue.rule, issue.start, issue.end])).toEqual([
+      ['multiline-variable', 2, 11],
+      ['invalid-variable-name', 16, 29],
+    ]);
+  });
+
+  it('should check the message structure of chat prompts', () => {
+    const result = linter.lint([
+      { role: 'user', content: 'Hi' },
+      { role: 'user', content: '  ' },
+      { role: 'system', content: 'Be brief' },
+      { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'lookup', arguments: '{}' }] },
+      { role: 'tool', content: '1', toolCallId: 'call_1' },
+      { role: 'tool', content: '2', toolCallId: 'call_2' },
+      { type: 'placeholder', name: 'history' },
+      { role: 'user', content: [{ type: 'text', text: 'Tell me about {{topic' }] },
+    ]);
+
+    expect(result.issues.map(issue => [issue.rule, issue.messageIndex, issue.partIndex])).toEqual([
+      ['empty-message', 1, undefined],
+      ['duplicate-role', 1, undefined],
+      ['system-not-first', 2, undefined],
+      ['unclosed-variable', 7, 0],
+    ]);
+    expect(result).toMatchObject({ valid: false, errorCount: 1, warningCount: 3 });
+    expect(result.issues[3].message).toBe("Unclosed '{{' in message 7, part 0");
+  });
+
+  it('should report variables and placeholders the sample arguments do not fill', () => {
+    const prompt = [
+      { role: 'system' as const, content: 'You help {{user.name}}' },
+      { type: 'placeholder' as const, name: 'history' },
+      { role: 'user' as const, content: 'About {{topic}}' },
+    ];
+
+    expect(linter.lint(prompt).issues).toEqual([]);
+
+    const result = linter.lint(prompt, { arguments: { topic: 'cats' } });
+    expect(result.issues).toEqual([
+      {
+        rule: 'unfilled-variable',
+        severity: 'warning',
+        message: "Variable 'user' is not filled by the arguments in message 0",
+        messageIndex: 0,
+        start: 9,
+        end: 22,
+      },
+      {
+        rule: 'unfilled-variable',
+        severity: 'warning',
+        message: "Placeholder 'history' is not filled by the arguments in message 1",
+        messageIndex: 1,
+      },
+    ]);
+  });
+
+  it('should apply configured and per-run severities', () => {
+    const configured = new PromptLinter({ 'empty-message': 'error', 'unclosed-variable': 'off' });
+
+    expect(configured.lint('').issues).toEqual([
+      { rule: 'empty-message', severity: 'error', message: 'Prompt is empty' },
+    ]);
+    expect(configured.lint('{{x').valid).toBe(true);
+    expect(configured.lint('{{x', { rules: { 'unclosed-variable': 'info' } }).issues[0].severity).toBe('info');
+
+    configured.configure({});
+    expect(configured.lint('').issues[0].severity).toBe('warning');
+  });
+
+  it('should format issues on one line', () => {
+    const [issue] = linter.lint([{ role: 'user', content: 'Hi {{name' }]).issues;
+    expect(formatLintIssue(issue)).toBe("unclosed-variable: Unclosed '{{' in message 0 at offset 3");
+  });
+});
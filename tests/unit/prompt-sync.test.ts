@@ -0,0 +1,199 @@
+// Unit tests for syncing prompts with a local prompts directory
+
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pullPrompts, pushPrompts } from '../../src/lib/prompt-sync';
+import { LangfuseAPIClient } from '../../src/lib/langfuse-client';
+import { APIError, CreatePromptParams, PromptVersion } from '../../src/types';
+
+/**
+ * In-memory stand-in for the Langfuse API keeping every version of each prompt
+ */
+function createFakeClient(initial: CreatePromptParams[] = []) {
+  const versions = new Map<string, PromptVersion[]>();
+
+  const createPrompt = jest.fn(async (params: CreatePromptParams) => {
+    const history = versions.get(params.name) ?? [];
+    const created: PromptVersion = {
+      name: params.name,
+      version: history.length + 1,
+      type: params.type,
+      prompt: params.prompt,
+      config: params.config ?? {},
+      labels: [...(params.labels ?? []), 'latest'],
+      tags: params.tags ?? [],
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z',
+      variables: [],
+    };
+    for (const version of history) {
+      version.labels = version.labels.filter(label => !created.labels.includes(label));
+    }
+    versions.set(params.name, [...history, created]);
+    return created;
+  });
+
+  const client = {
+    createPrompt,
+    getPrompt: jest.fn(async ({ name, version, label }: { name: string; version?: number; label?: string }) => {
+      const found = (versions.get(name) ?? []).find(v =>
+        version !== undefined ? v.version === version : v.labels.includes(label ?? 'production')
+      );
+      if (!found) {
+        throw new APIError(404, 'Prompt not found');
+      }
+      return found;
+    }),
+    listPrompts: jest.fn(async () => ({
+      data: Array.from(versions.keys()).map(name => ({ name })),
+      meta: { page: 1, limit: 100, totalItems: versions.size, totalPages: 1 },
+    })),
+  };
+
+  return {
+    client,
+    api: client as unknown as LangfuseAPIClient,
+    seed: async () => {
+      for (const params of initial) {
+        await createPrompt(params);
+      }
+      createPrompt.mockClear();
+    },
+  };
+}
+
+describe('Prompt sync', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'langfuse-mcp-sync-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const triagePath = () => join(dir, 'support', 'triage.md');
+
+  async function pulledClient() {
+    const fake = createFakeClient([
+      { name: 'support/triage', type: 'text', prompt: 'Classify {{ticket}}', labels: ['production'] },
+      { name: 'greeting', type: 'chat', prompt: [{ role: 'user', content: 'Hi {{name}}' }] },
+    ]);
+    await fake.seed();
+    await pullPrompts(fake.api, dir);
+    return fake;
+  }
+
+  it('should pull prompts into files and skip unchanged ones', async () => {
+    const { api } = await pulledClient();
+
+    expect(readFileSync(triagePath(), 'utf8')).toBe(
+      '---\nversion: 1\nlabels:\n  - production\ntags: []\n---\nClassify {{ticket}}'
+    );
+    expect(existsSync(join(dir, 'greeting.yaml'))).toBe(true);
+
+    expect(await pullPrompts(api, dir)).toEqual([
+      { name: 'support/triage', path: join('support', 'triage.md'), action: 'unchanged', version: 1 },
+      { name: 'greeting', path: 'greeting.yaml', action: 'unchanged', version: 1 },
+    ]);
+  });
+
+  it('should push changed files as new versions and record them', async () => {
+    const { api, client } = await pulledClient();
+    writeFileSync(triagePath(), readFileSync(triagePath(), 'utf8').replace('Classify', 'Triage'));
+
+    const plan = await pushPrompts(api, dir, { dryRun: true });
+    expect(plan.map(r => [r.name, r.action])).toEqual([['greeting', 'unchanged'], ['support/triage', 'update']]);
+    expect(client.createPrompt).not.toHaveBeenCalled();
+
+    const results = await pushPrompts(api, dir, { commitMessage: 'Reword' });
+    expect(results[1]).toMatchObject({ action: 'update', baseVersion: 1, remoteVersion: 1, version: 2, labels: [] });
+    // Labels pulled into the file stay on the reviewed version
+    expect(client.createPrompt).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'support/triage',
+      prompt: 'Triage {{ticket}}',
+      labels: [],
+      commitMessage: 'Reword',
+    }), { priority: 'bulk' });
+    expect(readFileSync(triagePath(), 'utf8')).toContain('version: 2\nlabels: []\n');
+
+    expect((await pushPrompts(api, dir)).every(r => r.action === 'unchanged')).toBe(true);
+  });
+
+  it('should only set the labels passed for the push', async () => {
+    const { api, client } = await pulledClient();
+    writeFileSync(triagePath(), readFileSync(triagePath(), 'utf8').replace('Classify', 'Triage'));
+
+    const results = await pushPrompts(api, dir, { names: ['support/triage'], labels: ['staging', 'latest'] });
+
+    expect(results[0]).toMatchObject({ action: 'update', version: 2, labels: ['staging'] });
+    expect(client.createPrompt).toHaveBeenCalledWith(expect.objectContaining({ labels: ['staging'] }), { priority: 'bulk' });
+    expect(readFileSync(triagePath(), 'utf8')).toContain('labels:\n  - staging\n');
+  });
+
+  it('should report label edits without pushing them', async () => {
+    const { api, client } = await pulledClient();
+    writeFileSync(triagePath(), readFileSync(triagePath(), 'utf8').replace('  - production', '  - staging'));
+
+    const results = await pushPrompts(api, dir, { names: ['support/triage'] });
+
+    expect(results).toEqual([{
+      name: 'support/triage',
+      path: join('support', 'triage.md'),
+      action: 'unchanged',
+      baseVersion: 1,
+      remoteVersion: 1,
+      labelDifference: { added: ['staging'], removed: ['production'] },
+    }]);
+    expect(client.createPrompt).not.toHaveBeenCalled();
+  });
+
+  it('should create prompts for new files and refuse to overwrite existing ones', async () => {
+    const { api } = await pulledClient();
+    writeFileSync(join(dir, 'new.md'), '---\ntags: [draft]\n---\nNew prompt');
+    writeFileSync(join(dir, 'greeting.md'), '---\n---\nClashes with the chat prompt');
+
+    const results = await pushPrompts(api, dir, { dryRun: true });
+    expect(results.find(r => r.name === 'new')).toMatchObject({ action: 'create' });
+    expect(results.find(r => r.path === 'greeting.md')).toMatchObject({
+      action: 'conflict',
+      reason: "'greeting' already exists in Langfuse, pull it first",
+    });
+  });
+
+  it('should detect conflicts when Langfuse moved ahead', async () => {
+    const { api, client } = await pulledClient();
+    await client.createPrompt({ name: 'support/triage', type: 'text', prompt: 'Classify carefully {{ticket}}' });
+
+    // An unchanged file is only outdated
+    expect((await pushPrompts(api, dir, { names: ['support/triage'] }))[0]).toMatchObject({
+      action: 'outdated',
+      baseVersion: 1,
+      remoteVersion: 2,
+    });
+
+    writeFileSync(triagePath(), readFileSync(triagePath(), 'utf8').replace('Classify', 'Sort'));
+    expect((await pushPrompts(api, dir, { names: ['support/triage'] }))[0]).toMatchObject({ action: 'conflict' });
+
+    // Pull keeps the local change unless forced
+    expect((await pullPrompts(api, dir, { names: ['support/triage'] }))[0]).toMatchObject({ action: 'conflict' });
+    expect(readFileSync(triagePath(), 'utf8')).toContain('Sort {{ticket}}');
+
+    expect((await pullPrompts(api, dir, { names: ['support/triage'], force: true }))[0]).toMatchObject({
+      action: 'update',
+      version: 2,
+    });
+    expect(readFileSync(triagePath(), 'utf8')).toContain('Classify carefully {{ticket}}');
+  });
+
+  it('should report invalid files without pushing them', async () => {
+    const { api, client } = await pulledClient();
+    writeFileSync(join(dir, 'broken.md'), '---\n---\nHello {{name');
+
+    const results = await pushPrompts(api, dir);
+    expect(results.find(r => r.name === 'broken')).toMatchObject({ action: 'error' });
+    expect(client.createPrompt).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,122 @@
+// Unit tests for provider request bodies
+
+import { renderPayload } from '../../src/lib/provider-payloads';
+import { ChatPromptItem } from '../../src/types';
+
+describe('renderPayload', () => {
+  const conversation: ChatPromptItem[] = [
+    { role: 'system', content: 'You are a weather bot' },
+    { role: 'user', content: [
+      { type: 'text', text: 'Weather here?' },
+      { type: 'image_base64', data: 'iVBORw0KGgo=', mimeType: 'image/png' },
+    ] },
+    { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'weather', arguments: '{"city":"Oslo"}' }] },
+    { role: 'tool', content: '{"temp":21}', toolCallId: 'call_1' },
+  ];
+  const config = { model: 'some-model', temperature: 0.2, maxTokens: 500, presencePenalty: 1, team: 'support' };
+
+  it('should render OpenAI Chat Completions bodies', () => {
+    const { payload, unsupportedFields } = renderPayload('openai-chat', conversation, {
+      ...config,
+      response_format: { type: 'json_object' },
+    });
+
+    expect(payload).toEqual({
+      model: 'some-model',
+      messages: [
+        { role: 'system', content: 'You are a weather bot' },
+        { role: 'user', content: [
+          { type: 'text', text: 'Weather here?' },
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+        ] },
+        { role: 'assistant', content: '', tool_calls: [
+          { id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Oslo"}' } },
+        ] },
+        { role: 'tool', content: '{"temp":21}', tool_call_id: 'call_1' },
+      ],
+      temperature: 0.2,
+      max_completion_tokens: 500,
+      presence_penalty: 1,
+      response_format: { type: 'json_object' },
+    });
+    expect(unsupportedFields).toEqual(['team']);
+  });
+
+  it('should render OpenAI Responses bodies', () => {
+    const { payload, unsupportedFields } = renderPayload('openai-responses', conversation, config);
+
+    expect(payload).toEqual({
+      model: 'some-model',
+      input: [
+        { role: 'system', content: [{ type: 'input_text', text: 'You are a weather bot' }] },
+        { role: 'user', content: [
+          { type: 'input_text', text: 'Weather here?' },
+          { type: 'input_image', image_url: 'data:image/png;base64,iVBORw0KGgo=' },
+        ] },
+        { type: 'function_call', call_id: 'call_1', name: 'weather', arguments: '{"city":"Oslo"}' },
+        { type: 'function_call_output', call_id: 'call_1', output: '{"temp":21}' },
+      ],
+      temperature: 0.2,
+      max_output_tokens: 500,
+    });
+    expect(unsupportedFields).toEqual(['presencePenalty', 'team']);
+    expect(renderPayload('openai-responses', 'Hi').payload.input).toBe('Hi');
+  });
+
+  it('should lift system messages to the top level for Anthropic', () => {
+    const { payload, unsupportedFields } = renderPayload('anthropic', conversation, config);
+
+    expect(payload).toEqual({
+      model: 'some-model',
+      system: 'You are a weather bot',
+      messages: [
+        { role: 'user', content: [
+          { type: 'text', text: 'Weather here?' },
+          { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } },
+        ] },
+        { role: 'assistant', content: [{ type: 'tool_use', id: 'call_1', name: 'weather', input: { city: 'Oslo' } }] },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_1', content: '{"temp":21}' }] },
+      ],
+      temperature: 0.2,
+      max_tokens: 500,
+    });
+    expect(unsupportedFields).toEqual(['presencePenalty', 'team']);
+  });
+
+  it('should default max_tokens for Anthropic', () => {
+    const { payload, warnings } = renderPayload('anthropic', 'Hi', { model: 'some-model' });
+    expect(payload).toEqual({ model: 'some-model', messages: [{ role: 'user', content: 'Hi' }], max_tokens: 4096 });
+    expect(warnings).toEqual(['Anthropic requires max_tokens, using 4096']);
+  });
+
+  it('should render Gemini bodies with the model outside the payload', () => {
+    const rendered = renderPayload('gemini', conversation, { ...config, tools: [{ functionDeclarations: [] }], topK: 3 });
+
+    expect(rendered.model).toBe('some-model');
+    expect(rendered.payload).toEqual({
+      systemInstruction: { parts: [{ text: 'You are a weather bot' }] },
+      contents: [
+        { role: 'user', parts: [{ text: 'Weather here?' }, { inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } }] },
+        { role: 'model', parts: [{ functionCall: { name: 'weather', args: { city: 'Oslo' } } }] },
+        { role: 'user', parts: [{ functionResponse: { name: 'weather', response: { temp: 21 } } }] },
+      ],
+      generationConfig: { temperature: 0.2, maxOutputTokens: 500, presencePenalty: 1, topK: 3 },
+      tools: [{ functionDeclarations: [] }],
+    });
+    expect(rendered.unsupportedFields).toEqual(['team']);
+  });
+
+  it('should warn about a missing model and unfilled placeholders', () => {
+    const { warnings } = renderPayload('openai-chat', [{ type: 'placeholder', name: 'history' }]);
+    expect(warnings).toEqual([
+      "Placeholder 'history' has no messages and was left out",
+      'Config has no model, set it before sending the request',
+    ]);
+  });
+
+  it('should reject tool calls with invalid JSON arguments', () => {
+    const prompt: ChatPromptItem[] = [{ role: 'assistant', content: '', toolCalls: [{ id: 'c', name: 't', arguments: '{' }] }];
+    expect(() => renderPayload('anthropic', prompt, { model: 'm', maxTokens: 1 }))
+      .toThrow("Arguments of tool call 'c' are not valid JSON");
+  });
+});
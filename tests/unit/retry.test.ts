@@ -0,0 +1,132 @@
+// Unit tests for retry policy and circuit breaker
+
+import {
+  DEFAULT_RETRY_POLICY,
+  resolveRetryPolicy,
+  isRetryable,
+  computeBackoff,
+  parseRetryAfter,
+  CircuitBreaker,
+} from '../../src/lib/retry';
+
+describe('Retry Policy', () => {
+  describe('resolveRetryPolicy', () => {
+    it('should merge options over defaults', () => {
+      const policy = resolveRetryPolicy({ maxRetries: 5, circuitBreaker: { failureThreshold: 2 } });
+      expect(policy.maxRetries).toBe(5);
+      expect(policy.baseDelayMs).toBe(DEFAULT_RETRY_POLICY.baseDelayMs);
+      expect(policy.circuitBreaker).toEqual({ failureThreshold: 2, resetTimeoutMs: 30000 });
+    });
+  });
+
+  describe('isRetryable', () => {
+    const policy = DEFAULT_RETRY_POLICY;
+
+    it('should retry idempotent methods on server and network errors', () => {
+      expect(isRetryable(policy, 'GET', { status: 503 })).toBe(true);
+      expect(isRetryable(policy, 'PATCH', { status: 500 })).toBe(true);
+      expect(isRetryable(policy, 'GET', { networkError: true })).toBe(true);
+    });
+
+    it('should not retry POST on server or network errors', () => {
+      expect(isRetryable(policy, 'POST', { status: 500 })).toBe(false);
+      expect(isRetryable(policy, 'POST', { networkError: true })).toBe(false);
+    });
+
+    it('should retry any method on rate limiting', () => {
+      expect(isRetryable(policy, 'POST', { status: 429 })).toBe(true);
+    });
+
+    it('should not retry client errors', () => {
+      expect(isRetryable(policy, 'GET', { status: 404 })).toBe(false);
+    });
+  });
+
+  describe('computeBackoff', () => {
+    it('should grow exponentially up to the maximum', () => {
+      const policy = resolveRetryPolicy({ jitter: false, baseDelayMs: 100, maxDelayMs: 500 });
+      expect(computeBackoff(0, policy)).toBe(100);
+      expect(computeBackoff(2, policy)).toBe(400);
+      expect(computeBackoff(5, policy)).toBe(500);
+    });
+
+    it('should apply full jitter', () => {
+      const policy = resolveRetryPolicy({ baseDelayMs: 100 });
+      expect(computeBackoff(1, policy, () => 0.5)).toBe(100);
+      expect(computeBackoff(1, policy, () => 0)).toBe(0);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds', () => {
+      expect(parseRetryAfter('2')).toBe(2000);
+    });
+
+    it('should parse HTTP dates', () => {
+      const now = Date.parse('Mon, 19 Oct 2026 12:00:00 GMT');
+      expect(parseRetryAfter('Mon, 19 Oct 2026 12:00:05 GMT', now)).toBe(5000);
+    });
+
+    it('should ignore missing or invalid values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+});
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000 }, () => now);
+  });
+
+  it('should open after reaching the failure threshold', () => {
+    breaker.recordFailure();
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+    expect(breaker.getRetryAt()).toBe(1000);
+  });
+
+  it('should allow a single trial request after the reset timeout', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    now = 1000;
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('should close after a successful trial', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    now = 1000;
+    breaker.canRequest();
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should allow another trial after a released one', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    now = 1000;
+    breaker.canRequest();
+    breaker.releaseTrial();
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('should reopen after a failed trial', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    now = 1000;
+    breaker.canRequest();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getRetryAt()).toBe(2000);
+  });
+});
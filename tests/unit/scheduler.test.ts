@@ -0,0 +1,62 @@
+// Unit tests for request scheduler
+
+import { RequestScheduler } from '../../src/lib/scheduler';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('RequestScheduler', () => {
+  it('should run tasks and return their results', async () => {
+    const scheduler = new RequestScheduler();
+    await expect(scheduler.schedule(async () => 42)).resolves.toBe(42);
+    await expect(scheduler.schedule(async () => { throw new Error('failed'); })).rejects.toThrow('failed');
+    expect(scheduler.getStats().completed).toBe(2);
+  });
+
+  it('should limit concurrency', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 2 });
+    const gate = deferred();
+    const tasks = [1, 2, 3].map(() => scheduler.schedule(() => gate.promise));
+
+    expect(scheduler.getStats().active).toBe(2);
+    expect(scheduler.getStats().queued.interactive).toBe(1);
+
+    gate.resolve();
+    await Promise.all(tasks);
+    expect(scheduler.getStats().active).toBe(0);
+  });
+
+  it('should run interactive tasks before queued bulk tasks', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+    const gate = deferred();
+    const order: string[] = [];
+
+    const first = scheduler.schedule(() => gate.promise);
+    const bulk = scheduler.schedule(async () => { order.push('bulk'); }, 'bulk');
+    const interactive = scheduler.schedule(async () => { order.push('interactive'); });
+
+    expect(scheduler.getStats().queued).toEqual({ interactive: 1, bulk: 1 });
+
+    gate.resolve();
+    await Promise.all([first, bulk, interactive]);
+    expect(order).toEqual(['interactive', 'bulk']);
+  });
+
+  it('should throttle tasks to the token bucket rate', async () => {
+    let now = 0;
+    const scheduler = new RequestScheduler({ requestsPerMinute: 60, burst: 1 }, () => now);
+
+    await scheduler.schedule(async () => undefined);
+    const pending = scheduler.schedule(async () => 'second');
+
+    expect(scheduler.getStats().queued.interactive).toBe(1);
+    expect(scheduler.getStats().availableTokens).toBe(0);
+
+    // One token per second at 60 requests per minute
+    now = 1000;
+    await expect(pending).resolves.toBe('second');
+  });
+});
@@ -0,0 +1,55 @@
+// Unit tests for local token counting
+
+import { countPromptTokens, countTextTokens, tokenizerForModel } from '../../src/lib/tokenizer';
+
+describe('Tokenizer', () => {
+  it('should pick the tokenizer of the model family', () => {
+    expect(tokenizerForModel('gpt-4o-mini')).toEqual({ family: 'openai', tokenizer: 'o200k_base', exact: true });
+    expect(tokenizerForModel('gpt-4.1')).toEqual({ family: 'openai', tokenizer: 'o200k_base', exact: true });
+    expect(tokenizerForModel('o3-mini')).toEqual({ family: 'openai', tokenizer: 'o200k_base', exact: true });
+    expect(tokenizerForModel('gpt-4-turbo')).toEqual({ family: 'openai', tokenizer: 'cl100k_base', exact: true });
+    expect(tokenizerForModel('claude-sonnet-4-20250514')).toEqual({ family: 'anthropic', tokenizer: 'cl100k_base', exact: false });
+    expect(tokenizerForModel('gemini-2.5-pro')).toEqual({ family: 'gemini', tokenizer: 'o200k_base', exact: false });
+    expect(tokenizerForModel()).toEqual({ family: 'other', tokenizer: 'o200k_base', exact: false });
+  });
+
+  it('should count text tokens', () => {
+    expect(countTextTokens('Hello world, this is a test.')).toBe(8);
+    expect(countTextTokens('')).toBe(0);
+    // Special tokens are plain text in prompts
+    expect(countTextTokens('<|endoftext|>')).toBeGreaterThan(1);
+  });
+
+  it('should count text prompts without message overhead', () => {
+    const count = countPromptTokens('Hello world, this is a test.', 'gpt-4o');
+    expect(count).toMatchObject({ tokens: 8, messages: 0, images: 0, tokenizer: 'o200k_base' });
+  });
+
+  it('should add message overhead, images and tool calls for chat prompts', () => {
+    const text = countPromptTokens([{ role: 'user', content: 'Hello world, this is a test.' }], 'gpt-4o');
+    // 3 per message, 1 for the role and 3 for the reply
+    expect(text.tokens).toBe(8 + 3 + 1 + 3);
+    expect(text.messages).toBe(1);
+
+    const withImages = countPromptTokens([
+      { type: 'placeholder', name: 'history' },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Hello world, this is a test.' },
+          { type: 'image_url', url: 'https://example.com/cat.png', detail: 'low' },
+          { type: 'image_base64', data: 'iVBORw0KGgo=', mimeType: 'image/png' },
+        ],
+      },
+    ], 'gpt-4o');
+    expect(withImages.tokens).toBe(text.tokens + 85 + 765);
+    expect(withImages).toMatchObject({ messages: 1, images: 2 });
+
+    const withToolCall = countPromptTokens([{
+      role: 'assistant',
+      content: '',
+      toolCalls: [{ id: 'call_1', name: 'lookup', arguments: '{"id":1}' }],
+    }], 'gpt-4o');
+    expect(withToolCall.tokens).toBeGreaterThan(3 + 1 + 3);
+  });
+});
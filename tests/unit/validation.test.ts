@@ -19,6 +19,16 @@ describe('Validation Utilities', () => {
       expect(variables).toEqual(['name', 'place']);
     });
 
+    it('should fall back to a plain scan for malformed templates', () => {
+      const warnings: string[] = [];
+      expect(extractVariables('{{name}}: use the {{ placeholder', undefined, warnings)).toEqual(['name']);
+      expect(extractVariables('{{#each items}}{{this}}{{/each}}', undefined, warnings)).toEqual(['this']);
+      expect(warnings).toEqual([
+        expect.stringMatching(/^Invalid template, variables were found by a plain scan: Unclosed tag/),
+        expect.stringMatching(/Unclosed section 'each items'/),
+      ]);
+    });
+
     it('should extract variables from chat messages', () => {
       const messages = [
         { role: 'system' as const, content: 'You are {{role}}' },
@@ -70,6 +80,12 @@ describe('Validation Utilities', () => {
       expect(() => validatePromptContent('chat', messages)).not.toThrow();
     });
 
+    it('should reject malformed templates', () => {
+      expect(() => validatePromptContent('text', '{{#items}}no end')).toThrow("Invalid template: Unclosed section 'items'");
+      expect(() => validatePromptContent('chat', [{ role: 'user', content: 'Hi {{name' }]))
+        .toThrow(ValidationError);
+    });
+
     it('should reject mismatched types', () => {
       expect(() => validatePromptContent('text', [])).toThrow(ValidationError);
       expect(() => validatePromptContent('chat', 'string')).toThrow(ValidationError);
@@ -81,6 +97,47 @@ describe('Validation Utilities', () => {
       ];
       expect(() => validatePromptContent('chat', invalidMessages)).toThrow(ValidationError);
     });
+
+    it('should validate extended roles and tool calls', () => {
+      const messages = [
+        { role: 'developer', content: 'Use tools' },
+        { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'weather', arguments: '{}' }] },
+        { role: 'tool', content: '{"temp":21}', toolCallId: 'call_1' },
+      ];
+      expect(() => validatePromptContent('chat', messages)).not.toThrow();
+      expect(() => validatePromptContent('chat', [{ role: 'tool', content: 'x' }]))
+        .toThrow('Tool messages must have the toolCallId they answer');
+      expect(() => validatePromptContent('chat', [{ role: 'user', content: 'x', toolCalls: [] }]))
+        .toThrow('Tool calls must be an array on an assistant message');
+    });
+
+    it('should validate content parts', () => {
+      const messages = [{
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Describe {{subject}}' },
+          { type: 'image_url', url: 'https://example.com/cat.png', detail: 'high' },
+          { type: 'image_base64', data: 'iVBORw0KGgo=', mimeType: 'image/png' },
+        ],
+      }];
+      expect(() => validatePromptContent('chat', messages)).not.toThrow();
+      expect(() => validatePromptContent('chat', [{ role: 'user', content: [{ type: 'audio' }] }]))
+        .toThrow('Content part type must be one of');
+      expect(() => validatePromptContent('chat', [{ role: 'user', content: [{ type: 'image_url', url: 'ftp://x' }] }]))
+        .toThrow('Image URLs must be http(s) or data:image URLs');
+      expect(() => validatePromptContent('chat', [{ role: 'user', content: [{ type: 'text', text: '{{#a}}' }] }]))
+        .toThrow('Invalid template');
+    });
+
+    it('should validate chat placeholders', () => {
+      const messages = [
+        { role: 'system', content: 'You are an assistant' },
+        { type: 'placeholder', name: 'history' },
+      ];
+      expect(() => validatePromptContent('chat', messages)).not.toThrow();
+      expect(() => validatePromptContent('chat', [{ type: 'placeholder', name: 'chat history' }]))
+        .toThrow('Placeholder name must start with a letter');
+    });
   });
 
   describe('validateLabels', () => {
@@ -101,6 +158,17 @@ describe('Validation Utilities', () => {
     });
   });
 
+  describe('validateTags', () => {
+    it('should accept valid tags', () => {
+      expect(() => validateTags(['support', 'customer facing'])).not.toThrow();
+    });
+
+    it('should reject invalid tags', () => {
+      expect(() => validateTags([''])).toThrow(ValidationError);
+      expect(() => validateTags(['a'.repeat(51)])).toThrow(ValidationError);
+    });
+  });
+
   describe('validatePromptConfig', () => {
     it('should accept valid config', () => {
       const config = {
@@ -121,6 +189,18 @@ describe('Validation Utilities', () => {
       expect(() => validatePromptConfig({ maxTokens: 0 })).toThrow(ValidationError);
       expect(() => validatePromptConfig({ maxTokens: -100 })).toThrow(ValidationError);
     });
+
+    it('should accept any other JSON', () => {
+      const config = {
+        temperature: 0.2,
+        response_format: { type: 'json_schema', json_schema: { name: 'answer', schema: { type: 'object' } } },
+        tools: [{ type: 'function', function: { name: 'lookup' } }],
+        team: 'support',
+      };
+      expect(() => validatePromptConfig(config)).not.toThrow();
+      expect(() => validatePromptConfig({ temperature: 5, team: 'support' })).toThrow(ValidationError);
+      expect(() => validatePromptConfig([] as any)).toThrow('Config must be a JSON object');
+    });
   });
 
   describe('compilePrompt', () => {
@@ -150,5 +230,75 @@ describe('Validation Utilities', () => {
       const result = compilePrompt(prompt, variables);
       expect(result).toBe('Hello Alice, your ID is {{id}}');
     });
+
+    it('should check chat arguments across all messages in strict mode', () => {
+      const messages = [
+        { role: 'system' as const, content: 'You are {{role}}' },
+        { role: 'user' as const, content: '{{#items}}- {{.}}\n{{/items}}' },
+      ];
+      expect(compilePrompt(messages, { role: 'helpful', items: ['a', 'b'] }, { strict: true })).toEqual([
+        { role: 'system', content: 'You are helpful' },
+        { role: 'user', content: '- a\n- b\n' },
+      ]);
+      expect(() => compilePrompt(messages, { role: 'helpful' }, { strict: true }))
+        .toThrow('Missing arguments: items');
+    });
+
+    it('should compile text parts and keep images', () => {
+      const messages = [{
+        role: 'user' as const,
+        content: [
+          { type: 'text' as const, text: 'Describe {{subject}}' },
+          { type: 'image_url' as const, url: 'https://example.com/{{subject}}.png' },
+        ],
+      }];
+      expect(compilePrompt(messages, { subject: 'cat' }, { strict: true })).toEqual([{
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Describe cat' },
+          { type: 'image_url', url: 'https://example.com/{{subject}}.png' },
+        ],
+      }]);
+      expect(extractVariables(messages)).toEqual(['subject']);
+    });
+
+    it('should replace placeholders with message arrays', () => {
+      const messages = [
+        { role: 'system' as const, content: 'You are {{role}}' },
+        { type: 'placeholder' as const, name: 'history' },
+        { role: 'user' as const, content: '{{question}}' },
+      ];
+      const history = [
+        { role: 'user', content: 'Hi {{not_a_variable}}' },
+        { role: 'assistant', content: 'Hello!' },
+      ];
+      expect(compilePrompt(messages, { role: 'helpful', history, question: 'Why?' }, { strict: true })).toEqual([
+        { role: 'system', content: 'You are helpful' },
+        { role: 'user', content: 'Hi {{not_a_variable}}' },
+        { role: 'assistant', content: 'Hello!' },
+        { role: 'user', content: 'Why?' },
+      ]);
+    });
+
+    it('should accept placeholder messages as JSON', () => {
+      const messages = [{ type: 'placeholder' as const, name: 'history' }];
+      expect(compilePrompt(messages, { history: '[{"role":"user","content":"Hi"}]' }))
+        .toEqual([{ role: 'user', content: 'Hi' }]);
+      expect(() => compilePrompt(messages, { history: [{ role: 'robot', content: 'Hi' }] }))
+        .toThrow("Placeholder 'history' must be an array of {role, content} messages");
+    });
+
+    it('should keep unfilled placeholders unless strict', () => {
+      const messages = [
+        { role: 'user' as const, content: '{{question}}' },
+        { type: 'placeholder' as const, name: 'history' },
+      ];
+      expect(compilePrompt(messages, { question: 'Why?' })).toEqual([
+        { role: 'user', content: 'Why?' },
+        { type: 'placeholder', name: 'history' },
+      ]);
+      expect(() => compilePrompt(messages, {}, { strict: true }))
+        .toThrow('Missing arguments: question; Missing placeholders: history');
+    });
   });
 });
\ No newline at end of file